@@ -0,0 +1,461 @@
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { emergencyRules, validateEmergencyRules } from '../services/emergencyRules';
+import { dbService } from '../services/database';
+import { tokenUsage } from '../services/tokenUsage';
+import { promptRegistry, validatePromptTemplates } from '../services/promptRegistry';
+import { EmergencyRuleSet } from '../types/medical';
+
+export class AdminController {
+  /**
+   * Devuelve las reglas de emergencia vigentes
+   */
+  public async getEmergencyRules(req: Request, res: Response): Promise<void> {
+    try {
+      await emergencyRules.ensureFresh();
+      const { ruleSet, source } = emergencyRules.getRuleSet();
+
+      logger.info('Emergency rules requested via admin API', { ip: req.ip });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...ruleSet,
+          source,
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting emergency rules:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving emergency rules',
+          userMessage: 'No se pudieron obtener las reglas de emergencia.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Reemplaza las reglas de emergencia tras validarlas
+   */
+  public async updateEmergencyRules(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateEmergencyRules(req.body.rules);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid emergency rules',
+            userMessage: 'Las reglas proporcionadas no son válidas.',
+            details: validation.issues,
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const ruleSet = await emergencyRules.saveRules(validation.rules);
+
+      logger.info('Emergency rules replaced via admin API', {
+        version: ruleSet.version,
+        rules: ruleSet.rules.length,
+        ip: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...ruleSet,
+          source: 'config',
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error updating emergency rules:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error updating emergency rules',
+          userMessage: 'No se pudieron guardar las reglas de emergencia.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Evalúa un texto con las reglas vigentes o con reglas candidatas sin guardarlas
+   */
+  public async dryRunEmergencyRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { text, rules } = req.body;
+      let candidate: EmergencyRuleSet | undefined;
+
+      if (rules !== undefined) {
+        const validation = validateEmergencyRules(rules);
+
+        if (!validation.success) {
+          res.status(400).json({
+            success: false,
+            error: {
+              message: 'Invalid emergency rules',
+              userMessage: 'Las reglas proporcionadas no son válidas.',
+              details: validation.issues,
+            },
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        candidate = { version: -1, rules: validation.rules };
+      } else {
+        await emergencyRules.ensureFresh();
+      }
+
+      res.status(200).json({
+        success: true,
+        data: emergencyRules.evaluate(text, candidate),
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error running emergency rules dry run:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error evaluating emergency rules',
+          userMessage: 'No se pudo evaluar el texto.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Cola de revisión de emergencias marcadas solo por el modelo
+   */
+  public async getEmergencyReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const status = (req.query['status'] as string) || 'pending';
+      const limit = parseInt(req.query['limit'] as string) || 50;
+      const reviews = await dbService.getEmergencyReviews(status, limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          status,
+          reviews,
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting emergency reviews:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving emergency reviews',
+          userMessage: 'No se pudo obtener la cola de revisión de emergencias.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Cierra una revisión. Un hueco confirmado se corrige agregando la regla
+   * en PUT /emergency-rules
+   */
+  public async resolveEmergencyReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, note } = req.body;
+      const review = await dbService.resolveEmergencyReview(parseInt(id!), status, note);
+
+      if (!review) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Emergency review not found',
+            userMessage: 'No se encontró la revisión.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      logger.info('Emergency review resolved via admin API', {
+        id: review.id,
+        status: review.status,
+        ip: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: review,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error resolving emergency review:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error resolving emergency review',
+          userMessage: 'No se pudo actualizar la revisión.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Registro de prompts vigente con el hash de cada plantilla
+   */
+  public async getPrompts(req: Request, res: Response): Promise<void> {
+    try {
+      await promptRegistry.ensureFresh();
+      const { registry, source } = promptRegistry.getRegistry();
+
+      logger.info('Prompt registry requested via admin API', { ip: req.ip });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...registry,
+          templates: registry.templates.map(template => ({
+            ...template,
+            hash: promptRegistry.render(template).hash,
+          })),
+          source,
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting prompt registry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving prompt registry',
+          userMessage: 'No se pudo obtener el registro de prompts.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Reemplaza las plantillas del registro tras validarlas
+   */
+  public async updatePrompts(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validatePromptTemplates(req.body.templates);
+
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid prompt templates',
+            userMessage: 'Las plantillas proporcionadas no son válidas.',
+            details: validation.issues,
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await promptRegistry.ensureFresh();
+      const registry = await promptRegistry.saveTemplates(validation.templates);
+
+      logger.info('Prompt registry replaced via admin API', {
+        version: registry.version,
+        templates: registry.templates.length,
+        ip: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...registry,
+          source: 'config',
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error updating prompt registry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error updating prompt registry',
+          userMessage: 'No se pudo guardar el registro de prompts.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Plantilla asignada a una sesión, ya renderizada
+   */
+  public async getPromptAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      await promptRegistry.ensureFresh();
+
+      res.status(200).json({
+        success: true,
+        data: promptRegistry.select(sessionId!),
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting prompt assignment:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving prompt assignment',
+          userMessage: 'No se pudo obtener la asignación del prompt.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Consumo de tokens y costo estimado por día, modelo y conversación
+   */
+  public async getUsageStats(req: Request, res: Response): Promise<void> {
+    try {
+      const days = parseInt(req.query['days'] as string) || 7;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const stats = await dbService.getTokenUsageStats(since, limit);
+      const today = await dbService.getTokenUsageTotals(new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          period: { days, since: since.toISOString() },
+          ...stats,
+          budgets: {
+            ...tokenUsage.getLimits(),
+            dailyTokensUsed: today.totalTokens,
+          },
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting usage stats:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving usage stats',
+          userMessage: 'No se pudieron obtener las estadísticas de consumo.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Costo de una consulta con el desglose por mensaje
+   */
+  public async getConversationUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const usage = await dbService.getConversationTokenUsage(sessionId!);
+
+      if (!usage) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Conversation not found',
+            userMessage: 'No se encontró la conversación.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...usage.conversation,
+          messages: usage.messages,
+          sessionLimit: tokenUsage.getLimits().sessionLimit,
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting conversation usage:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving conversation usage',
+          userMessage: 'No se pudo obtener el consumo de la conversación.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Trayectoria de riesgo de una conversación con las escalaciones registradas
+   */
+  public async getRiskTrajectory(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const trajectory = await dbService.getRiskTrajectory(sessionId!);
+
+      if (!trajectory) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Conversation not found',
+            userMessage: 'No se encontró la conversación.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const { riskSnapshots, ...conversation } = trajectory;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...conversation,
+          snapshots: riskSnapshots,
+          escalations: riskSnapshots.filter((snapshot: any) => snapshot.escalation),
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error getting risk trajectory:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving risk trajectory',
+          userMessage: 'No se pudo obtener la trayectoria de riesgo de la conversación.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
+
+// Exportar instancia del controlador
+export const adminController = new AdminController();
+export default adminController;
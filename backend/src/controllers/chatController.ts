@@ -1,14 +1,38 @@
 import { Request, Response } from 'express';
 import { logger, medicalLogger } from '../utils/logger';
 import { medicalAI } from '../services/medicalAI';
-import { dbService } from '../services/database';
-import { ChatRequest, ChatResponse } from '../types/medical';
+import { dbService, ConversationSaveInput, toJsonValue } from '../services/database';
+import { triageInterview } from '../services/triageInterview';
+import { confidenceScoring } from '../services/confidenceScoring';
+import { conversationSummary } from '../services/conversationSummary';
+import { dispositionEngine } from '../services/dispositionEngine';
+import { riskTrajectory } from '../services/riskTrajectory';
+import {
+  ChatMode,
+  ChatRequest,
+  ChatResponse,
+  ChatMessage,
+  ChatStreamEventType,
+  ConversationRiskLevel,
+  ConversationSummary,
+  MedicalAnalysis,
+  TriageIntake,
+  TriageState,
+} from '../types/medical';
 import { 
   MedicalDataValidator, 
   SessionIdGenerator,
   MedicalContentSanitizer 
 } from '../utils/medicalUtils';
-import { createMedicalError, EmergencyError } from '../middleware/errorHandler';
+import { createMedicalError, EmergencyError, MedicalError } from '../middleware/errorHandler';
+
+// Nivel de riesgo del análisis en el formato de ChatAnalysis.severity
+const ANALYSIS_SEVERITY: Record<MedicalAnalysis['riskLevel'], 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'> = {
+  low: 'LOW',
+  medium: 'MEDIUM',
+  high: 'HIGH',
+  emergency: 'CRITICAL',
+};
 
 export class ChatController {
   /**
@@ -16,135 +40,674 @@ export class ChatController {
    */
   public async sendMessage(req: Request, res: Response): Promise<void> {
     const startTime = Date.now();
-    let sessionId: string;
+    let sessionId: string | undefined;
 
     try {
-      // Validar y extraer datos de la request
-      const { message, sessionId: requestSessionId, language, userContext } = req.body;
+      const { chatRequest, existingConversation } = await this.buildChatRequest(req);
+      sessionId = chatRequest.sessionId;
       
-      // Validar session ID o generar uno nuevo
-      sessionId = requestSessionId || SessionIdGenerator.generate();
+      // Procesar mensaje con IA médica
+      const chatResponse = await medicalAI.processMessage(chatRequest);
+
+      const processingTime = Date.now() - startTime;
+      await this.recordChatResponse(chatResponse, req, existingConversation, processingTime, req.body.message);
+
+      // Responder al cliente
+      res.status(200).json({
+        success: true,
+        data: chatResponse,
+        processingTime,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
       
-      if (!SessionIdGenerator.validate(sessionId)) {
-        throw createMedicalError(
-          'Invalid session ID format',
-          'validation',
-          400
-        );
+      logger.error('Error processing chat message:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        sessionId: sessionId || 'unknown',
+        processingTime,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      // Si es error de emergencia, manejar especialmente
+      if (error instanceof EmergencyError) {
+        return this.handleEmergencyError(error, res);
       }
 
-      // Validar mensaje
-      if (!message || typeof message !== 'string') {
-        throw createMedicalError(
-          'Message is required and must be a string',
-          'validation',
-          400
-        );
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error processing medical consultation',
+          userMessage: 'No puedo procesar su consulta en este momento. Si es una emergencia, contacte al 911 inmediatamente.',
+          timestamp: new Date().toISOString(),
+        },
+        processingTime,
+      });
+    }
+  }
+
+  /**
+   * Procesa mensaje del usuario emitiendo la respuesta por Server-Sent Events.
+   * Eventos: start, emergency (antes de llamar a la IA), delta (fragmentos de
+   * texto), done (ChatResponse final ya validada) y error.
+   */
+  public async streamMessage(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    let sessionId: string | undefined;
+    let streamOpened = false;
+
+    try {
+      const { chatRequest, existingConversation } = await this.buildChatRequest(req);
+      sessionId = chatRequest.sessionId;
+
+      // Abrir el stream; no-transform evita que compression acumule los eventos
+      res.status(200).set({
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      streamOpened = true;
+
+      this.writeStreamEvent(res, 'start', { sessionId });
+
+      const chatResponse = await medicalAI.processMessage(chatRequest, {
+        onDelta: (text) => this.writeStreamEvent(res, 'delta', { text }),
+        onEmergency: (response) => this.writeStreamEvent(res, 'emergency', {
+          message: response.message,
+          suggestedActions: response.suggestedActions,
+          disclaimer: response.disclaimer,
+        }),
+      });
+
+      const processingTime = Date.now() - startTime;
+      await this.recordChatResponse(chatResponse, req, existingConversation, processingTime, req.body.message);
+
+      // El frame final reemplaza el texto parcial con la versión validada
+      this.writeStreamEvent(res, 'done', { ...chatResponse, processingTime });
+      res.end();
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+
+      logger.error('Error streaming chat message:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        sessionId: sessionId || 'unknown',
+        processingTime,
+        streamOpened,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      if (!streamOpened) {
+        if (error instanceof EmergencyError) {
+          return this.handleEmergencyError(error, res);
+        }
+
+        res.status(500).json({
+          success: false,
+          error: {
+            message: 'Error processing medical consultation',
+            userMessage: 'No puedo procesar su consulta en este momento. Si es una emergencia, contacte al 911 inmediatamente.',
+            timestamp: new Date().toISOString(),
+          },
+          processingTime,
+        });
+        return;
       }
 
-      // Sanitizar mensaje
-      const sanitizedMessage = MedicalContentSanitizer.sanitize(message);
-      
-      if (!MedicalContentSanitizer.isValidMedicalContent(sanitizedMessage)) {
+      this.writeStreamEvent(res, 'error', {
+        message: 'Error processing medical consultation',
+        userMessage: 'No puedo procesar su consulta en este momento. Si es una emergencia, contacte al 911 inmediatamente.',
+        processingTime,
+      });
+      res.end();
+    }
+  }
+
+  /**
+   * Valida la request y arma el ChatRequest con los turnos previos
+   */
+  private async buildChatRequest(req: Request): Promise<{ chatRequest: ChatRequest; existingConversation: any }> {
+    const { message, sessionId: requestSessionId, language, userContext } = req.body;
+    
+    // Validar session ID o generar uno nuevo
+    const sessionId = requestSessionId || SessionIdGenerator.generate();
+    
+    if (!SessionIdGenerator.validate(sessionId)) {
+      throw createMedicalError(
+        'Invalid session ID format',
+        'validation',
+        400
+      );
+    }
+
+    // Validar mensaje
+    if (!message || typeof message !== 'string') {
+      throw createMedicalError(
+        'Message is required and must be a string',
+        'validation',
+        400
+      );
+    }
+
+    // Sanitizar mensaje
+    const sanitizedMessage = MedicalContentSanitizer.sanitize(message);
+    
+    if (!MedicalContentSanitizer.isValidMedicalContent(sanitizedMessage)) {
+      throw createMedicalError(
+        'Message content is not appropriate for medical consultation',
+        'validation',
+        400
+      );
+    }
+
+    // Validar contexto del usuario si se proporciona
+    if (userContext) {
+      const validationResult = this.validateUserContext(userContext);
+      if (!validationResult.isValid) {
         throw createMedicalError(
-          'Message content is not appropriate for medical consultation',
+          `Invalid user context: ${validationResult.errors.join(', ')}`,
           'validation',
           400
         );
       }
+    }
 
-      // Validar contexto del usuario si se proporciona
-      if (userContext) {
-        const validationResult = this.validateUserContext(userContext);
-        if (!validationResult.isValid) {
-          throw createMedicalError(
-            `Invalid user context: ${validationResult.errors.join(', ')}`,
-            'validation',
-            400
-          );
-        }
-      }
+    // Obtener conversación existente para contexto
+    const existingConversation = await dbService.getConversation(sessionId);
 
-      // Crear request para el servicio de IA
-      const chatRequest: ChatRequest = {
-        message: sanitizedMessage,
-        sessionId,
-        language: language || 'es',
-        userContext,
-      };
+    // Crear request para el servicio de IA con los turnos previos
+    const chatRequest: ChatRequest = {
+      message: sanitizedMessage,
+      sessionId,
+      language: language || 'es',
+      userContext,
+      conversationHistory: existingConversation?.messages || [],
+      conversationSummary: existingConversation?.summary ?? null,
+      sessionTokens: existingConversation?.totalTokens ?? 0,
+    };
 
-      // Obtener conversación existente para contexto
-      const existingConversation = await dbService.getConversation(sessionId);
-      
-      // Procesar mensaje con IA médica
-      const chatResponse = await medicalAI.processMessage(chatRequest);
+    return { chatRequest, existingConversation };
+  }
 
-      // Si se detectó emergencia, manejar especialmente
-      if (chatResponse.emergencyDetected) {
-        await this.handleEmergencyDetection(chatResponse, req);
-      }
+  /**
+   * Persiste la respuesta y registra la actividad de la consulta.
+   * `triageState` se indica cuando la respuesta cierra una entrevista guiada.
+   */
+  private async recordChatResponse(
+    chatResponse: ChatResponse,
+    req: Request,
+    existingConversation: any,
+    processingTime: number,
+    userMessage: string,
+    triageState?: TriageState
+  ): Promise<void> {
+    const sessionId = chatResponse.sessionId;
 
-      // Actualizar conversación en base de datos
-      await this.updateConversation(chatResponse, req, existingConversation);
+    // Si se detectó emergencia, manejar especialmente
+    if (chatResponse.emergencyDetected) {
+      await this.handleEmergencyDetection(chatResponse, req);
+    }
 
-      // Log de actividad
-      const processingTime = Date.now() - startTime;
+    // Actualizar conversación en base de datos
+    await this.updateConversation(chatResponse, req, existingConversation, userMessage, triageState);
+
+    // Log de actividad
+    await dbService.logActivity({
+      sessionId,
+      action: 'message_sent',
+      details: {
+        messageLength: userMessage.length,
+        guidedTriage: !!triageState,
+        emergencyDetected: chatResponse.emergencyDetected,
+        emergencySource: chatResponse.metadata?.emergencySignal?.source,
+        emergencyAgreement: chatResponse.metadata?.emergencySignal?.agreement,
+        confidence: chatResponse.confidence,
+        // Desglose auditable de la confianza (factores y motivos)
+        confidenceLevel: chatResponse.metadata?.confidence?.level,
+        confidenceFactors: chatResponse.metadata?.confidence?.factors,
+        confidenceReasons: chatResponse.metadata?.confidence?.reasons,
+        promptInjection: chatResponse.metadata?.promptInjection?.action,
+        tokenBudgetExceeded: chatResponse.metadata?.budget?.scope ?? undefined,
+        fallback: chatResponse.metadata?.fallback,
+        prompt: chatResponse.metadata?.prompt,
+        language: req.body.language || 'es',
+      },
+      userAgent: req.get('User-Agent'),
+      ipAddress: req.ip,
+      responseTime: processingTime,
+      aiModel: chatResponse.metadata?.model,
+      confidence: chatResponse.confidence,
+      tokenUsage: chatResponse.metadata?.usage,
+    });
+
+    // Las respuestas de baja confianza quedan registradas para revisión
+    if (chatResponse.metadata?.confidence?.level === 'low') {
       await dbService.logActivity({
         sessionId,
-        action: 'message_sent',
+        action: 'low_confidence_response',
         details: {
-          messageLength: message.length,
-          emergencyDetected: chatResponse.emergencyDetected,
-          confidence: chatResponse.confidence,
-          language: chatResponse.sessionId,
+          messageId: chatResponse.messageId,
+          ...chatResponse.metadata.confidence,
         },
         userAgent: req.get('User-Agent'),
         ipAddress: req.ip,
-        responseTime: processingTime,
-        aiModel: chatResponse.metadata?.model,
+        aiModel: chatResponse.metadata.model,
         confidence: chatResponse.confidence,
       });
+    }
+
+    // Log médico específico
+    medicalLogger.consultation('Chat message processed successfully', {
+      sessionId,
+      confidence: chatResponse.confidence,
+      emergencyDetected: chatResponse.emergencyDetected,
+      processingTime,
+      symptomsExtracted: chatResponse.metadata?.symptomsExtracted?.length || 0,
+    });
+  }
+
+  /**
+   * Escribe un evento SSE si el cliente sigue conectado
+   */
+  private writeStreamEvent(res: Response, event: ChatStreamEventType, data: unknown): void {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Inicia la entrevista de triaje guiada o retoma la que quedó en pausa.
+   * Con `restart: true` se descarta el progreso anterior.
+   */
+  public async startTriage(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId, restart } = req.body;
+      const language = req.body.language || 'es';
 
-      // Log médico específico
-      medicalLogger.consultation('Chat message processed successfully', {
+      if (!sessionId || !SessionIdGenerator.validate(sessionId)) {
+        throw createMedicalError('Valid session ID is required', 'validation', 400);
+      }
+
+      const existingConversation = await dbService.getConversation(sessionId);
+      const previousState: TriageState | undefined = existingConversation?.triageState ?? undefined;
+      const resumable = !restart && (previousState?.status === 'in_progress' || previousState?.status === 'paused');
+
+      const triageState: TriageState = resumable
+        ? { ...previousState!, status: 'in_progress' }
+        : triageInterview.start();
+      const question = triageInterview.getQuestion(triageState, language)!;
+
+      await this.saveTriageProgress(req, sessionId, existingConversation, [
+        this.buildTriageMessage('assistant', question.question, question.step),
+      ], 'guided', triageState);
+
+      await dbService.logActivity({
         sessionId,
-        confidence: chatResponse.confidence,
-        emergencyDetected: chatResponse.emergencyDetected,
-        processingTime,
-        symptomsExtracted: chatResponse.metadata?.symptomsExtracted?.length || 0,
+        action: resumable ? 'triage_resumed' : 'triage_started',
+        details: { step: triageState.currentStep },
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip,
       });
 
-      // Responder al cliente
       res.status(200).json({
         success: true,
-        data: chatResponse,
-        processingTime,
+        data: {
+          sessionId,
+          chatMode: 'guided',
+          triage: triageState,
+          question,
+          resumed: resumable,
+        },
         timestamp: new Date().toISOString(),
       });
 
     } catch (error) {
+      if (this.handleValidationError(error, res)) return;
+
+      logger.error('Error starting triage interview:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error starting triage interview',
+          userMessage: 'No se pudo iniciar la entrevista guiada. Puede continuar en el chat libre.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Registra la respuesta al paso actual de la entrevista. Al completarla,
+   * el resultado estructurado se envía a la IA como una consulta normal.
+   */
+  public async answerTriage(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const { sessionId } = req.body;
+      const language = req.body.language || 'es';
+      const answer = Array.isArray(req.body.answer)
+        ? req.body.answer.map((item: unknown) => MedicalContentSanitizer.sanitize(String(item)))
+        : typeof req.body.answer === 'string'
+          ? MedicalContentSanitizer.sanitize(req.body.answer)
+          : req.body.answer;
+
+      if (!sessionId || !SessionIdGenerator.validate(sessionId)) {
+        throw createMedicalError('Valid session ID is required', 'validation', 400);
+      }
+
+      const existingConversation = await dbService.getConversation(sessionId);
+      const currentState: TriageState | undefined = existingConversation?.triageState ?? undefined;
+
+      if (existingConversation?.chatMode !== 'guided' || currentState?.status !== 'in_progress') {
+        res.status(409).json({
+          success: false,
+          error: {
+            message: 'No guided triage interview in progress',
+            userMessage: 'No hay una entrevista guiada en curso. Iníciela de nuevo o continúe en el chat libre.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const result = await triageInterview.answer(currentState, answer);
+
+      if (!result.valid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `Invalid triage answer: ${result.errors.join(', ')}`,
+            userMessage: 'No entendí su respuesta. Elija una de las opciones o reformule su respuesta.',
+            details: result.errors,
+          },
+          data: { question: triageInterview.getQuestion(currentState, language) },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const answeredStep = currentState.currentStep!;
+      const answerMessage = this.buildTriageMessage(
+        'user',
+        triageInterview.describeAnswer(answeredStep, result.state.answers, language),
+        answeredStep
+      );
+
+      // Entrevista en curso: guardar la respuesta y devolver la siguiente pregunta
+      if (result.state.status !== 'completed') {
+        const question = triageInterview.getQuestion(result.state, language)!;
+
+        await this.saveTriageProgress(req, sessionId, existingConversation, [
+          answerMessage,
+          this.buildTriageMessage('assistant', question.question, question.step),
+        ], 'guided', result.state);
+
+        res.status(200).json({
+          success: true,
+          data: { sessionId, chatMode: 'guided', triage: result.state, question },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Entrevista completa: consulta a la IA con el resultado estructurado
+      const intake = result.state.answers;
+      const intakeMessage = triageInterview.buildIntakeMessage(intake, language);
+      const conversation = {
+        ...existingConversation,
+        messages: [...(existingConversation.messages || []), answerMessage],
+      };
+
+      const chatRequest: ChatRequest = {
+        message: intakeMessage,
+        sessionId,
+        language,
+        userContext: triageInterview.toUserContext(intake),
+        triageIntake: intake,
+        conversationHistory: conversation.messages,
+        conversationSummary: conversation.summary ?? null,
+        sessionTokens: conversation.totalTokens ?? 0,
+      };
+
+      const chatResponse = await medicalAI.processMessage(chatRequest);
       const processingTime = Date.now() - startTime;
-      
-      logger.error('Error processing chat message:', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        sessionId: sessionId || 'unknown',
+      await this.recordChatResponse(chatResponse, req, conversation, processingTime, intakeMessage, result.state);
+
+      medicalLogger.consultation('Guided triage completed', {
+        sessionId,
+        severity: intake.severity,
+        duration: intake.duration,
+        redFlags: intake.redFlags,
+        emergencyDetected: chatResponse.emergencyDetected,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessionId,
+          chatMode: 'free',
+          triage: result.state,
+          question: null,
+          response: chatResponse,
+        },
         processingTime,
-        stack: error instanceof Error ? error.stack : undefined,
+        timestamp: new Date().toISOString(),
       });
 
-      // Si es error de emergencia, manejar especialmente
-      if (error instanceof EmergencyError) {
-        return this.handleEmergencyError(error, res);
-      }
+    } catch (error) {
+      if (this.handleValidationError(error, res)) return;
 
+      logger.error('Error answering triage interview:', error);
       res.status(500).json({
         success: false,
         error: {
-          message: 'Error processing medical consultation',
-          userMessage: 'No puedo procesar su consulta en este momento. Si es una emergencia, contacte al 911 inmediatamente.',
+          message: 'Error processing triage answer',
+          userMessage: 'No puedo procesar su respuesta en este momento. Si es una emergencia, contacte al 911 inmediatamente.',
+        },
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Cancela la entrevista guiada y vuelve al chat libre
+   */
+  public async cancelTriage(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.body;
+
+      if (!sessionId || !SessionIdGenerator.validate(sessionId)) {
+        throw createMedicalError('Valid session ID is required', 'validation', 400);
+      }
+
+      const existingConversation = await dbService.getConversation(sessionId);
+      const currentState: TriageState | undefined = existingConversation?.triageState ?? undefined;
+
+      if (!existingConversation || !currentState) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Triage interview not found',
+            userMessage: 'No se encontró una entrevista guiada para esta sesión.',
+          },
           timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const triageState: TriageState = currentState.status === 'completed'
+        ? currentState
+        : { ...currentState, status: 'cancelled' };
+
+      await this.saveTriageProgress(req, sessionId, existingConversation, [], 'free', triageState);
+
+      await dbService.logActivity({
+        sessionId,
+        action: 'triage_cancelled',
+        details: { step: currentState.currentStep, status: currentState.status },
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { sessionId, chatMode: 'free', triage: triageState, question: null },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      if (this.handleValidationError(error, res)) return;
+
+      logger.error('Error cancelling triage interview:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error cancelling triage interview',
+          userMessage: 'No se pudo cancelar la entrevista guiada.',
         },
-        processingTime,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Mensaje de la entrevista guiada para el historial de la conversación
+   */
+  private buildTriageMessage(role: 'user' | 'assistant', content: string, step: TriageState['currentStep']) {
+    return {
+      id: `msg_${role}_triage_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+      role,
+      content,
+      timestamp: new Date(),
+      metadata: { ...(step && { triageStep: step }) },
+    };
+  }
+
+  /**
+   * Guarda el avance de la entrevista sin alterar el análisis clínico previo
+   */
+  private async saveTriageProgress(
+    req: Request,
+    sessionId: string,
+    existingConversation: any,
+    newMessages: any[],
+    chatMode: ChatMode,
+    triageState: TriageState
+  ): Promise<void> {
+    const language = req.body.language || 'es';
+    const compaction = conversationSummary.compact(
+      [...(existingConversation?.messages || []), ...newMessages],
+      existingConversation?.summary,
+      language
+    );
+
+    if (compaction.compacted) {
+      await this.logSummaryActivity(req, sessionId, compaction.summary);
+    }
+
+    await dbService.saveConversation({
+      sessionId,
+      messages: toJsonValue(compaction.messages),
+      ...(compaction.summary && { summary: toJsonValue(compaction.summary) }),
+      userSymptoms: existingConversation?.userSymptoms || [],
+      suggestedDiseases: existingConversation?.suggestedDiseases || [],
+      riskLevel: existingConversation?.riskLevel || 'low',
+      emergencyDetected: existingConversation?.emergencyDetected || false,
+      medicalAdviceGiven: existingConversation?.medicalAdviceGiven || false,
+      chatMode,
+      triageState: toJsonValue(triageState),
+      userAgent: req.get('User-Agent') ?? null,
+      ipAddress: req.ip ?? null,
+      language,
+    });
+  }
+
+  /**
+   * Registra la compactación de turnos antiguos en el resumen clínico
+   */
+  private async logSummaryActivity(req: Request, sessionId: string, summary: ConversationSummary | null): Promise<void> {
+    await dbService.logActivity({
+      sessionId,
+      action: 'conversation_summarized',
+      details: {
+        version: summary?.version,
+        summarizedMessages: summary?.summarizedMessages,
+        symptoms: summary?.symptoms.length,
+        highestRisk: summary?.highestRisk,
+      },
+      userAgent: req.get('User-Agent'),
+      ipAddress: req.ip,
+    });
+  }
+
+  /**
+   * Análisis estructurado de síntomas (sin modelo de lenguaje). La respuesta
+   * es compatible con ChatAnalysis del frontend e incluye el detalle completo.
+   */
+  public async analyzeSymptoms(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const { symptoms, duration, severity, age, language = 'es', pregnant } = req.body;
+      const sessionId = req.headers['x-session-id'] as string;
+
+      const analysis = await medicalAI.analyzeMedicalQuery(symptoms, duration, severity, age, language, pregnant);
+
+      await dbService.logActivity({
+        sessionId,
+        action: 'symptoms_analyzed',
+        details: {
+          symptomsCount: symptoms.length,
+          recognizedSymptoms: analysis.recognizedSymptoms,
+          riskLevel: analysis.riskLevel,
+          urgencyReasons: analysis.urgencyReasons,
+          conditions: analysis.possibleConditions.map(condition => condition.disease.id),
+          language,
+        },
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip,
+        responseTime: Date.now() - startTime,
+        confidence: analysis.confidence,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          // Campos de ChatAnalysis
+          symptoms: analysis.recognizedSymptoms,
+          severity: ANALYSIS_SEVERITY[analysis.riskLevel],
+          isEmergency: analysis.emergencyDetected,
+          recommendedAction: analysis.recommendedActions[0],
+          suggestedDiseases: analysis.possibleConditions.map(condition => ({
+            disease: condition.disease,
+            confidence: condition.probability,
+            matchingSymptoms: condition.matchingSymptoms,
+          })),
+          // Detalle del análisis (incluye emergencyContacts)
+          ...analysis,
+          disclaimer: language === 'en'
+            ? 'This analysis is for information only and is not a diagnosis. See a health professional.'
+            : 'Este análisis es solo informativo y no es un diagnóstico. Consulte a un profesional de la salud.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error analyzing symptoms:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error analyzing symptoms',
+          userMessage: 'No se pudieron analizar los síntomas. Si es una emergencia, llame al 911.',
+        },
+        timestamp: new Date().toISOString(),
       });
     }
   }
@@ -191,7 +754,16 @@ export class ChatController {
           messages: paginatedMessages,
           userSymptoms: conversation.userSymptoms,
           riskLevel: conversation.riskLevel,
+          highestRiskLevel: conversation.highestRiskLevel || conversation.riskLevel,
+          disposition: conversation.disposition || null,
           emergencyDetected: conversation.emergencyDetected,
+          // Resumen clínico de los turnos compactados (null si no se ha compactado)
+          summary: conversation.summary || null,
+          chatMode: conversation.chatMode || 'free',
+          triage: conversation.triageState || null,
+          triageQuestion: conversation.triageState
+            ? triageInterview.getQuestion(conversation.triageState, conversation.language || 'es')
+            : null,
           lastActivity: conversation.lastActivity,
           pagination: {
             total: messages.length,
@@ -287,6 +859,8 @@ export class ChatController {
             totalMessages: conversation.messages.length,
             emergencyDetected: conversation.emergencyDetected,
             riskLevel: conversation.riskLevel,
+            highestRiskLevel: conversation.highestRiskLevel || conversation.riskLevel,
+            disposition: conversation.disposition?.level ?? null,
           },
         },
         timestamp: new Date().toISOString(),
@@ -351,8 +925,12 @@ export class ChatController {
   ): Promise<void> {
     try {
       // Log crítico de emergencia
+      const signal = chatResponse.metadata?.emergencySignal;
+
       medicalLogger.emergency('Emergency detected in chat', {
         sessionId: chatResponse.sessionId,
+        source: signal?.source,
+        agreement: signal?.agreement,
         confidence: chatResponse.confidence,
         suggestedActions: chatResponse.suggestedActions,
         ip: req.ip,
@@ -368,6 +946,14 @@ export class ChatController {
           confidence: chatResponse.confidence,
           suggestedActions: chatResponse.suggestedActions,
           detectedSymptoms: chatResponse.metadata?.symptomsExtracted,
+          // Origen de la decisión (reglas, modelo o ambos) y si requiere revisión
+          ...(signal && {
+            source: signal.source,
+            agreement: signal.agreement,
+            ruleIds: signal.ruleIds,
+            modelUrgency: signal.modelUrgency,
+            reviewRequired: signal.reviewRequired,
+          }),
         },
         userAgent: req.get('User-Agent'),
         ipAddress: req.ip,
@@ -387,44 +973,100 @@ export class ChatController {
   private async updateConversation(
     chatResponse: ChatResponse,
     req: Request,
-    existingConversation: any
+    existingConversation: any,
+    userMessageContent: string,
+    triageState?: TriageState
   ): Promise<void> {
     try {
       const userMessage = {
         id: `msg_user_${Date.now()}`,
         role: 'user',
-        content: req.body.message,
+        content: userMessageContent,
         timestamp: new Date(),
       };
 
+      const riskLevel = this.determineRiskLevel(chatResponse, triageState?.answers);
+      const riskTransition = riskTrajectory.transition(
+        riskLevel,
+        existingConversation?.riskLevel ?? null,
+        existingConversation?.highestRiskLevel ?? null
+      );
+      const suspectedConditions = (chatResponse.differential || [])
+        .filter(candidate => candidate.probability >= 0.15)
+        .slice(0, 3)
+        .map(candidate => candidate.name);
+
+      // Los metadatos del turno alimentan el resumen clínico cuando se compacta
       const assistantMessage = {
         id: chatResponse.messageId,
         role: 'assistant',
         content: chatResponse.message,
         timestamp: chatResponse.timestamp,
-        metadata: chatResponse.metadata,
+        metadata: {
+          ...chatResponse.metadata,
+          emergencyDetected: chatResponse.emergencyDetected,
+          suggestedActions: chatResponse.suggestedActions || [],
+          suspectedConditions,
+          riskLevel,
+          ...(chatResponse.disposition && { disposition: chatResponse.disposition }),
+          ...(chatResponse.redFlagChecklist && { redFlagChecklist: chatResponse.redFlagChecklist }),
+          ...(triageState?.status === 'completed' && { triageCompleted: true }),
+        },
       };
 
-      const messages = [
-        ...(existingConversation?.messages || []),
-        userMessage,
-        assistantMessage,
-      ];
+      const language = req.body.language || 'es';
+      const compaction = conversationSummary.compact(
+        [...(existingConversation?.messages || []), userMessage, assistantMessage] as ChatMessage[],
+        existingConversation?.summary,
+        language
+      );
 
-      const conversationData = {
+      if (compaction.compacted) {
+        await this.logSummaryActivity(req, chatResponse.sessionId, compaction.summary);
+      }
+
+      const chatModeUpdate = this.resolveChatMode(existingConversation, triageState);
+      const conversationData: ConversationSaveInput = {
         sessionId: chatResponse.sessionId,
-        messages,
-        userSymptoms: chatResponse.metadata?.symptomsExtracted || [],
-        suggestedDiseases: [], // Se llenaría con lógica adicional
-        riskLevel: this.determineRiskLevel(chatResponse),
+        messages: toJsonValue(compaction.messages),
+        // Sin compactar todavía no hay resumen: el campo Json no admite null
+        ...(compaction.summary && { summary: toJsonValue(compaction.summary) }),
+        ...(chatResponse.metadata?.usage && { tokenUsage: chatResponse.metadata.usage }),
+        // Nombres canónicos de Symptom acumulados durante la conversación
+        userSymptoms: [...new Set([
+          ...(existingConversation?.userSymptoms || []),
+          ...(chatResponse.metadata?.symptomsExtracted || []),
+        ])],
+        // Candidatas del ranking diferencial y enfermedades citadas en la respuesta
+        suggestedDiseases: [...new Set([
+          ...suspectedConditions,
+          ...(chatResponse.citations || [])
+            .filter(citation => citation.type === 'disease')
+            .map(citation => citation.name),
+        ])],
+        riskLevel,
+        ...(riskTransition.highestRaised && {
+          highestRiskLevel: riskTransition.highestRiskLevel,
+          highestRiskAt: new Date(),
+        }),
+        ...(chatResponse.disposition && { disposition: toJsonValue(chatResponse.disposition) }),
         emergencyDetected: chatResponse.emergencyDetected,
         medicalAdviceGiven: true,
-        userAgent: req.get('User-Agent'),
-        ipAddress: req.ip,
-        language: req.body.language || 'es',
+        ...(chatModeUpdate.chatMode && { chatMode: chatModeUpdate.chatMode }),
+        ...(chatModeUpdate.triageState && { triageState: toJsonValue(chatModeUpdate.triageState) }),
+        userAgent: req.get('User-Agent') ?? null,
+        ipAddress: req.ip ?? null,
+        language,
       };
 
-      await dbService.saveConversation(conversationData);
+      const conversation = await dbService.saveConversation(conversationData);
+
+      // Snapshot del turno con los síntomas y reglas que determinaron el riesgo
+      await riskTrajectory.record(conversation, chatResponse.messageId, riskTransition, {
+        ...(chatResponse.disposition && { dispositionLevel: chatResponse.disposition.level }),
+        symptoms: chatResponse.metadata?.symptomsExtracted || [],
+        ruleIds: chatResponse.metadata?.triggeredRules || [],
+      });
 
     } catch (error) {
       logger.error('Error updating conversation:', error);
@@ -433,22 +1075,64 @@ export class ChatController {
   }
 
   /**
-   * Determina nivel de riesgo basado en la respuesta
+   * Modo de chat a guardar: al cerrar la entrevista se vuelve a chat libre;
+   * un mensaje libre durante la entrevista la deja en pausa
    */
-  private determineRiskLevel(chatResponse: ChatResponse): 'low' | 'medium' | 'high' | 'emergency' {
+  private resolveChatMode(
+    existingConversation: any,
+    triageState?: TriageState
+  ): { chatMode?: ChatMode; triageState?: TriageState } {
+    if (triageState) {
+      return { chatMode: 'free', triageState };
+    }
+
+    const currentState: TriageState | undefined = existingConversation?.triageState ?? undefined;
+    if (existingConversation?.chatMode === 'guided' && currentState?.status === 'in_progress') {
+      return { chatMode: 'free', triageState: { ...currentState, status: 'paused' } };
+    }
+
+    return {};
+  }
+
+  /**
+   * Determina nivel de riesgo basado en la respuesta, su disposición y, si
+   * existe, la intensidad reportada en la entrevista guiada
+   */
+  private determineRiskLevel(chatResponse: ChatResponse, intake?: TriageIntake): ConversationRiskLevel {
     if (chatResponse.emergencyDetected) {
       return 'emergency';
     }
-    
-    if (chatResponse.confidence < 0.5) {
-      return 'high'; // Baja confianza podría indicar síntomas complejos
+
+    const levels = ['low', 'medium', 'high'] as const;
+    let level: 'low' | 'medium' | 'high';
+
+    // Urgencia validada del sobre estructurado del modelo
+    if (chatResponse.urgency) {
+      if (chatResponse.urgency === 'emergency') return 'emergency';
+      level = chatResponse.urgency;
+    } else {
+      level = 'low';
     }
-    
-    if (chatResponse.confidence < 0.7) {
-      return 'medium';
+
+    // Sin respaldo suficiente no se reporta riesgo bajo
+    const confidenceLevel = chatResponse.metadata?.confidence?.level
+      ?? confidenceScoring.levelFor(chatResponse.confidence);
+    if (confidenceLevel === 'low' && level === 'low') {
+      level = 'medium';
     }
-    
-    return 'low';
+
+    // El dolor intenso o las señales de alarma de la entrevista elevan el riesgo
+    const intakeLevel = triageInterview.hasRedFlags(intake) || (intake?.severity ?? 0) >= 8
+      ? 'high'
+      : (intake?.severity ?? 0) >= 5 ? 'medium' : 'low';
+
+    // La disposición combina dolor, duración, edad y antecedentes
+    const dispositionLevel = chatResponse.disposition
+      ? dispositionEngine.toRiskLevel(chatResponse.disposition.level)
+      : 'low';
+    if (dispositionLevel === 'emergency') return 'emergency';
+
+    return levels[Math.max(levels.indexOf(level), levels.indexOf(intakeLevel), levels.indexOf(dispositionLevel))]!;
   }
 
   /**
@@ -481,8 +1165,26 @@ export class ChatController {
   }
 
   /**
-   * Maneja errores de emergencia específicamente
+   * Responde 400 si el error es de validación de la entrada; devuelve false
+   * para que el resto de errores siga el manejo general
    */
+  private handleValidationError(error: unknown, res: Response): boolean {
+    if (!(error instanceof MedicalError) || error.type !== 'validation') {
+      return false;
+    }
+
+    logger.warn('Invalid request:', { message: error.message });
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        userMessage: error.userMessage,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return true;
+  }
+
   private handleEmergencyError(error: EmergencyError, res: Response): void {
     res.status(200).json({ // 200 porque la emergencia fue detectada correctamente
       success: true,
@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
 import { logger } from '../utils/logger';
 import { dbService } from '../services/database';
-import { DiseaseFilter, PaginatedResponse, Disease } from '../types/medical';
+import { catalogRetrieval } from '../services/catalogRetrieval';
+import { diseaseScoring } from '../services/diseaseScoring';
+import { drugInteractions, CandidateTreatment } from '../services/drugInteractions';
+import { treatmentSafety } from '../services/treatmentSafety';
+import { DiseaseFilter, PaginatedResponse, Disease, DiseaseTreatmentsQuery, PatientSafetyProfile } from '../types/medical';
 import { createMedicalError } from '../middleware/errorHandler';
 
 export class DiseaseController {
@@ -13,10 +18,8 @@ export class DiseaseController {
       const {
         symptoms,
         patientAge,
-        patientGender,
         painLevel,
         duration,
-        location,
         includeRareConditions = false,
         emergencyMode = false,
       } = req.body;
@@ -28,42 +31,32 @@ export class DiseaseController {
         sessionId: req.headers['x-session-id'],
       });
 
-      // Buscar enfermedades por síntomas usando el servicio de base de datos
-      const searchResults = await dbService.searchDiseasesBySymptoms({
-        symptoms,
-        patientAge,
-        patientGender,
-        painLevel,
-        duration,
-        location,
-        includeRareConditions,
-        emergencyMode,
-      });
-
-      // Calcular scores de coincidencia
-      const diseasesWithScores = searchResults.map((disease: any) => ({
-        ...disease,
-        matchScore: this.calculateSymptomMatchScore(symptoms, disease.symptoms),
-        urgencyLevel: this.determineUrgencyLevel(disease, symptoms, painLevel),
-        recommendedAction: this.getRecommendedAction(disease, emergencyMode),
-      }));
-
-      // Ordenar por score de coincidencia y urgencia
-      diseasesWithScores.sort((a, b) => {
-        if (a.urgencyLevel !== b.urgencyLevel) {
-          const urgencyOrder = { 'immediate': 4, 'urgent': 3, 'moderate': 2, 'low': 1 };
-          return urgencyOrder[b.urgencyLevel as keyof typeof urgencyOrder] - 
-                 urgencyOrder[a.urgencyLevel as keyof typeof urgencyOrder];
-        }
-        return b.matchScore - a.matchScore;
-      });
+      // Ranking diferencial sobre el catálogo con las relaciones ponderadas
+      const catalog = await catalogRetrieval.getSnapshot();
+      const evidence = diseaseScoring.resolveSymptoms(symptoms, catalog);
+      const ranking = diseaseScoring.rank(catalog.diseases, { ...evidence, age: patientAge }, 10);
+      const diseasesById = new Map(catalog.diseases.map((disease: any) => [disease.id, disease]));
+
+      const diseasesWithScores = ranking
+        .map(candidate => ({ candidate, disease: diseasesById.get(candidate.diseaseId) }))
+        .filter(({ disease }) => includeRareConditions || disease?.prevalence !== 'rare')
+        .map(({ candidate, disease }) => ({
+          ...disease,
+          matchScore: candidate.probability,
+          matchedSymptoms: candidate.matchedSymptoms,
+          missingSymptoms: candidate.missingSymptoms,
+          urgencyLevel: this.determineUrgencyLevel(disease, symptoms, painLevel),
+          recommendedAction: this.getRecommendedAction(disease, emergencyMode),
+        }));
 
       res.status(200).json({
         success: true,
         data: {
-          diseases: diseasesWithScores.slice(0, 10), // Top 10 resultados
+          diseases: diseasesWithScores, // Top 10 resultados
           searchCriteria: {
             symptoms,
+            recognizedSymptoms: evidence.present,
+            negatedSymptoms: evidence.absent,
             patientAge,
             painLevel,
             duration,
@@ -548,47 +541,30 @@ export class DiseaseController {
         );
       }
 
-      // Buscar enfermedades que coincidan con los síntomas
-      const matchingDiseases = await dbService.findDiseasesBySymptoms(sanitizedSymptoms);
+      // Ranking diferencial sobre el catálogo con las relaciones ponderadas
+      const catalog = await catalogRetrieval.getSnapshot();
+      const evidence = diseaseScoring.resolveSymptoms(sanitizedSymptoms, catalog);
+      const ranking = diseaseScoring.rank(catalog.diseases, evidence, 10);
+      const diseasesById = new Map(catalog.diseases.map((disease: any) => [disease.id, disease]));
 
-      // Calcular score de coincidencia para cada enfermedad
-      const diseasesWithScore = matchingDiseases.map(disease => {
-        const matchingSymptoms = disease.symptoms.filter((symptom: string) =>
-          sanitizedSymptoms.some(userSymptom => 
-            symptom.toLowerCase().includes(userSymptom) ||
-            userSymptom.includes(symptom.toLowerCase())
-          )
-        );
+      const sortedDiseases = ranking.map(candidate => {
+        const disease = diseasesById.get(candidate.diseaseId);
 
-        const score = matchingSymptoms.length / disease.symptoms.length;
-        
         return {
           id: disease.id,
           name: disease.name,
           description: disease.description,
           severityLevel: disease.severityLevel,
           category: disease.category,
-          matchingSymptoms,
+          matchingSymptoms: candidate.matchedSymptoms,
+          missingSymptoms: candidate.missingSymptoms,
           totalSymptoms: disease.symptoms.length,
-          matchScore: score,
-          urgencyIndicators: this.getUrgencyIndicators(disease, matchingSymptoms),
+          matchScore: candidate.probability,
+          urgencyIndicators: this.getUrgencyIndicators(disease, candidate.matchedSymptoms),
           disclaimer: 'Esta es una coincidencia informativa, no un diagnóstico médico.',
         };
       });
 
-      // Ordenar por score y severidad
-      const sortedDiseases = diseasesWithScore
-        .sort((a, b) => {
-          if (a.matchScore !== b.matchScore) {
-            return b.matchScore - a.matchScore;
-          }
-          
-          const severityOrder = { emergency: 4, severe: 3, moderate: 2, mild: 1 };
-          return (severityOrder[b.severityLevel as keyof typeof severityOrder] || 0) - 
-                 (severityOrder[a.severityLevel as keyof typeof severityOrder] || 0);
-        })
-        .slice(0, 10); // Limitar a top 10 resultados
-
       // Determinar nivel de urgencia general
       const hasEmergencyDiseases = sortedDiseases.some(d => d.severityLevel === 'emergency');
       const hasSevereDiseases = sortedDiseases.some(d => d.severityLevel === 'severe');
@@ -636,6 +612,149 @@ export class DiseaseController {
     }
   }
 
+  /**
+   * Revisa interacciones entre la medicación del paciente y, opcionalmente,
+   * un tratamiento candidato del catálogo (por id) o indicado por nombre
+   */
+  public async checkInteractions(req: Request, res: Response): Promise<void> {
+    try {
+      const { medications, treatmentId, treatment: treatmentName, language = 'es' } = req.body;
+
+      let treatment: CandidateTreatment | null = treatmentName ? { name: treatmentName } : null;
+      if (treatmentId !== undefined) {
+        const catalog = await catalogRetrieval.getSnapshot();
+        const record = catalog.treatments.find((entry: any) => entry.id === treatmentId);
+
+        if (!record) {
+          res.status(404).json({
+            success: false,
+            error: {
+              message: 'Treatment not found',
+              userMessage: 'El tratamiento indicado no fue encontrado.',
+            },
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        treatment = {
+          id: record.id,
+          name: record.name,
+          activeIngredient: record.activeIngredient,
+          contraindications: record.contraindications || [],
+        };
+      }
+
+      const result = drugInteractions.check(medications, treatment, language);
+
+      logger.info('Drug interaction check:', {
+        medicationsCount: medications.length,
+        recognized: result.medications.length,
+        treatmentId,
+        interactions: result.interactions.map(interaction => interaction.ruleId),
+        sessionId: req.headers['x-session-id'],
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          disclaimer: 'Esta revisión es informativa y no incluye todas las interacciones posibles. Consulte a su médico o farmacéutico.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error checking drug interactions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error checking drug interactions',
+          userMessage: 'No se pudieron revisar las interacciones de sus medicamentos.',
+        },
+      });
+    }
+  }
+
+  /**
+   * Tratamientos de una enfermedad con el filtro de seguridad del perfil
+   * del paciente: los excluidos se devuelven aparte con su explicación
+   */
+  public async getDiseaseTreatments(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        id: diseaseId,
+        age,
+        pregnant,
+        allergies = [],
+        medicalHistory = [],
+        medications = [],
+        language = 'es',
+      } = matchedData(req) as DiseaseTreatmentsQuery;
+
+      const disease = await dbService.client.disease.findUnique({
+        where: { id: diseaseId, isActive: true },
+        select: { id: true, name: true },
+      });
+
+      if (!disease) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Disease not found',
+            userMessage: 'La enfermedad solicitada no fue encontrada.',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const profile: PatientSafetyProfile = {
+        ...(age !== undefined && { age }),
+        ...(pregnant && { pregnant: true }),
+        ...(allergies.length > 0 && { allergies }),
+        ...(medicalHistory.length > 0 && { medicalHistory }),
+        ...(medications.length > 0 && { medications }),
+      };
+
+      const treatments = await dbService.getTreatmentsByCondition(disease.name);
+      const { allowed, excluded } = treatmentSafety.filter(treatments, profile, language);
+
+      logger.info('Disease treatments retrieved:', {
+        diseaseId,
+        profileApplied: treatmentSafety.hasProfile(profile),
+        allowed: allowed.length,
+        excluded: excluded.map(assessment => assessment.treatmentId),
+        sessionId: req.headers['x-session-id'],
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          disease,
+          profileApplied: treatmentSafety.hasProfile(profile),
+          treatments: allowed.map(({ treatment, assessment }) => ({
+            ...treatment,
+            safety: { status: assessment.status, reasons: assessment.reasons },
+          })),
+          excluded,
+          disclaimer: 'Esta información es solo educativa. Consulte con un profesional médico antes de iniciar cualquier tratamiento.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error) {
+      logger.error('Error retrieving disease treatments:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Error retrieving disease treatments',
+          userMessage: 'No se pudieron obtener los tratamientos de la enfermedad.',
+        },
+      });
+    }
+  }
+
   /**
    * Obtiene categorías de enfermedades disponibles
    */
@@ -749,28 +868,6 @@ export class DiseaseController {
     }
   }
 
-  /**
-   * Calcula el score de coincidencia entre síntomas
-   */
-  private calculateSymptomMatchScore(patientSymptoms: string[], diseaseSymptoms: any[]): number {
-    if (!patientSymptoms || !diseaseSymptoms || diseaseSymptoms.length === 0) {
-      return 0;
-    }
-
-    const normalizedPatientSymptoms = patientSymptoms.map(s => s.toLowerCase().trim());
-    const normalizedDiseaseSymptoms = diseaseSymptoms.map(s => 
-      (s.symptom?.name || s.name || s).toLowerCase().trim()
-    );
-
-    const matches = normalizedPatientSymptoms.filter(patientSymptom =>
-      normalizedDiseaseSymptoms.some(diseaseSymptom =>
-        diseaseSymptom.includes(patientSymptom) || patientSymptom.includes(diseaseSymptom)
-      )
-    );
-
-    return Math.round((matches.length / normalizedPatientSymptoms.length) * 100);
-  }
-
   /**
    * Determina el nivel de urgencia basado en la enfermedad y síntomas
    */
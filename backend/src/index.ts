@@ -11,6 +11,7 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { securityMiddleware } from './middleware/security';
 import { validateEnvironment } from './utils/validateEnv';
+import { llmCircuitBreaker } from './services/llm/circuitBreaker';
 
 // Importar rutas
 import apiRoutes from './routes';
@@ -73,7 +74,7 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Session-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Session-ID', 'X-Admin-Key'],
 }));
 
 // Compression para mejor performance
@@ -105,7 +106,8 @@ app.get('/health', (req, res) => {
     timestamp: new Date().toISOString(),
     service: 'Gastro Chatbot API',
     version: process.env.API_VERSION || 'v1',
-    environment: process.env.NODE_ENV || 'development'
+    environment: process.env.NODE_ENV || 'development',
+    aiCircuit: llmCircuitBreaker.getState()
   });
 });
 
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { securityLogger } from '../utils/logger';
+
+/**
+ * Verifica el header X-Admin-Key contra ADMIN_API_KEY.
+ * Sin ADMIN_API_KEY configurada no se concede acceso administrativo.
+ */
+export function hasValidAdminKey(req: Request): boolean {
+  const expected = process.env['ADMIN_API_KEY'];
+  const provided = req.headers['x-admin-key'];
+
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+
+  return expectedBuffer.length === providedBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Middleware que restringe las rutas administrativas
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (hasValidAdminKey(req)) {
+    return next();
+  }
+
+  securityLogger.suspiciousActivity('Unauthorized admin API access', {
+    ip: req.ip,
+    path: req.originalUrl,
+    method: req.method,
+    keyProvided: Boolean(req.headers['x-admin-key']),
+  });
+
+  res.status(401).json({
+    success: false,
+    error: {
+      message: 'Admin authentication required',
+      userMessage: 'Acceso no autorizado',
+    },
+  });
+};
+
+export default {
+  requireAdmin,
+  hasValidAdminKey,
+};
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger, securityLogger } from '../utils/logger';
-import { EmergencyError } from './errorHandler';
+import { hasValidAdminKey } from './adminAuth';
 
 // Expresiones regulares para detectar ataques comunes
 const SECURITY_PATTERNS = {
@@ -42,6 +42,11 @@ export const securityMiddleware = (req: Request, res: Response, next: NextFuncti
     // Validar headers obligatorios para ciertas rutas
     validateRequiredHeaders(req);
 
+    // Las reglas administrativas contienen regex que los filtros de contenido rechazarían
+    if (req.path.startsWith('/api/admin') && hasValidAdminKey(req)) {
+      return next();
+    }
+
     // Sanitizar entrada de datos
     sanitizeRequestData(req);
 
@@ -306,63 +311,6 @@ export const validateMedicalSession = (req: Request, res: Response, next: NextFu
   }
 };
 
-/**
- * Middleware para detectar emergencias médicas automáticamente
- */
-export const emergencyDetectionMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    if (!req.body || !req.body.message) {
-      return next();
-    }
-
-    const message = req.body.message.toLowerCase();
-    const sessionId = req.headers['x-session-id'] as string;
-
-    // Palabras clave de emergencia médica crítica
-    const criticalEmergencyKeywords = [
-      'no puedo respirar',
-      'dolor en el pecho',
-      'sangrado abundante',
-      'pérdida de conciencia',
-      'convulsiones',
-      'dificultad respiratoria severa',
-      'dolor abdominal intenso',
-      'vómito con sangre',
-      'heces con sangre',
-      'desmayo',
-      'mareo severo',
-      'visión borrosa repentina',
-    ];
-
-    // Detectar emergencias críticas
-    const emergencyDetected = criticalEmergencyKeywords.some(keyword => 
-      message.includes(keyword)
-    );
-
-    if (emergencyDetected) {
-      // Log inmediato de emergencia
-      logger.error('🚨 EMERGENCIA MÉDICA DETECTADA AUTOMÁTICAMENTE', {
-        sessionId,
-        ip: req.ip,
-        message: message.substring(0, 200), // Primeros 200 caracteres
-        timestamp: new Date().toISOString(),
-        severity: 'CRITICAL',
-      });
-
-      // Crear error de emergencia
-      throw new EmergencyError('Emergencia médica detectada automáticamente', {
-        detectedKeywords: criticalEmergencyKeywords.filter(keyword => message.includes(keyword)),
-        sessionId,
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    next();
-  } catch (error) {
-    next(error);
-  }
-};
-
 /**
  * Middleware para rate limiting específico por IP y sesión
  */
@@ -388,6 +336,5 @@ export const medicalRateLimitMiddleware = (req: Request, res: Response, next: Ne
 export default {
   securityMiddleware,
   validateMedicalSession,
-  emergencyDetectionMiddleware,
   medicalRateLimitMiddleware,
 };
@@ -0,0 +1,218 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+import { requireAdmin } from '../middleware/adminAuth';
+import { body, param, query, validationResult } from 'express-validator';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Middleware para validar errores de express-validator
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    logger.warn('Validation errors in admin route:', {
+      errors: errors.array(),
+      path: req.path,
+      ip: req.ip,
+    });
+
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: 'Validation failed',
+        userMessage: 'Los datos proporcionados no son válidos.',
+        details: errors.array(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return next();
+};
+
+// Todas las rutas administrativas requieren X-Admin-Key
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/emergency-rules
+ * Reglas de emergencia vigentes
+ */
+router.get(
+  '/emergency-rules',
+  adminController.getEmergencyRules.bind(adminController)
+);
+
+/**
+ * PUT /api/admin/emergency-rules
+ * Reemplaza las reglas de emergencia (se guardan en SystemConfig)
+ */
+router.put(
+  '/emergency-rules',
+  [
+    body('rules')
+      .isArray({ min: 1, max: 500 })
+      .withMessage('Se requiere un array de reglas (1-500)'),
+  ],
+  handleValidationErrors,
+  adminController.updateEmergencyRules.bind(adminController)
+);
+
+/**
+ * POST /api/admin/emergency-rules/dry-run
+ * Evalúa un texto con las reglas vigentes o con reglas candidatas
+ */
+router.post(
+  '/emergency-rules/dry-run',
+  [
+    body('text')
+      .isString()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('El texto debe tener entre 1 y 2000 caracteres'),
+    body('rules')
+      .optional()
+      .isArray({ min: 1, max: 500 })
+      .withMessage('rules debe ser un array de reglas (1-500)'),
+  ],
+  handleValidationErrors,
+  adminController.dryRunEmergencyRules.bind(adminController)
+);
+
+/**
+ * GET /api/admin/emergency-reviews
+ * Cola de emergencias que solo marcó el modelo (posibles huecos de las reglas)
+ */
+router.get(
+  '/emergency-reviews',
+  [
+    query('status')
+      .optional()
+      .isIn(['pending', 'keyword_gap', 'dismissed'])
+      .withMessage('status debe ser pending, keyword_gap o dismissed'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('limit debe estar entre 1 y 100'),
+  ],
+  handleValidationErrors,
+  adminController.getEmergencyReviews.bind(adminController)
+);
+
+/**
+ * PATCH /api/admin/emergency-reviews/:id
+ * Cierra una revisión: hueco de las reglas confirmado o descartado
+ */
+router.patch(
+  '/emergency-reviews/:id',
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('ID de revisión inválido'),
+    body('status')
+      .isIn(['keyword_gap', 'dismissed'])
+      .withMessage('status debe ser keyword_gap o dismissed'),
+    body('note')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('La nota no puede superar 1000 caracteres'),
+  ],
+  handleValidationErrors,
+  adminController.resolveEmergencyReview.bind(adminController)
+);
+
+/**
+ * GET /api/admin/prompts
+ * Registro de prompts vigente (plantillas, pesos e historial)
+ */
+router.get(
+  '/prompts',
+  adminController.getPrompts.bind(adminController)
+);
+
+/**
+ * PUT /api/admin/prompts
+ * Reemplaza las plantillas (se guardan en SystemConfig con versión)
+ */
+router.put(
+  '/prompts',
+  [
+    body('templates')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Se requiere un array de plantillas (1-20)'),
+  ],
+  handleValidationErrors,
+  adminController.updatePrompts.bind(adminController)
+);
+
+/**
+ * GET /api/admin/prompts/assignments/:sessionId
+ * Plantilla que recibe una sesión en la asignación A/B
+ */
+router.get(
+  '/prompts/assignments/:sessionId',
+  [
+    param('sessionId')
+      .isLength({ min: 10, max: 50 })
+      .withMessage('Session ID inválido')
+      .matches(/^[a-zA-Z0-9\-_]+$/)
+      .withMessage('Session ID contiene caracteres inválidos'),
+  ],
+  handleValidationErrors,
+  adminController.getPromptAssignment.bind(adminController)
+);
+
+/**
+ * GET /api/admin/usage
+ * Tokens y costo estimado por día, por modelo y por conversación
+ */
+router.get(
+  '/usage',
+  [
+    query('days')
+      .optional()
+      .isInt({ min: 1, max: 90 })
+      .withMessage('days debe estar entre 1 y 90'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('limit debe estar entre 1 y 100'),
+  ],
+  handleValidationErrors,
+  adminController.getUsageStats.bind(adminController)
+);
+
+/**
+ * GET /api/admin/usage/conversations/:sessionId
+ * Costo de una consulta con el desglose por mensaje
+ */
+router.get(
+  '/usage/conversations/:sessionId',
+  [
+    param('sessionId')
+      .isLength({ min: 10, max: 50 })
+      .withMessage('Session ID inválido')
+      .matches(/^[a-zA-Z0-9\-_]+$/)
+      .withMessage('Session ID contiene caracteres inválidos'),
+  ],
+  handleValidationErrors,
+  adminController.getConversationUsage.bind(adminController)
+);
+
+/**
+ * GET /api/admin/conversations/:sessionId/risk
+ * Trayectoria de riesgo de una consulta: nivel máximo, snapshots y escalaciones
+ */
+router.get(
+  '/conversations/:sessionId/risk',
+  [
+    param('sessionId')
+      .isLength({ min: 10, max: 50 })
+      .withMessage('Session ID inválido')
+      .matches(/^[a-zA-Z0-9\-_]+$/)
+      .withMessage('Session ID contiene caracteres inválidos'),
+  ],
+  handleValidationErrors,
+  adminController.getRiskTrajectory.bind(adminController)
+);
+
+export default router;
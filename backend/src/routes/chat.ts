@@ -2,7 +2,6 @@ import { Router } from 'express';
 import { chatController } from '../controllers/chatController';
 import { 
   validateMedicalSession, 
-  emergencyDetectionMiddleware,
   medicalRateLimitMiddleware 
 } from '../middleware/security';
 import { body, param, query, validationResult } from 'express-validator';
@@ -34,6 +33,86 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Validaciones compartidas por /message y /stream
+const messageValidators = [
+  // Validaciones de entrada
+  body('message')
+    .notEmpty()
+    .withMessage('El mensaje es requerido')
+    .isLength({ min: 3, max: 2000 })
+    .withMessage('El mensaje debe tener entre 3 y 2000 caracteres')
+    .trim()
+    .escape(),
+  
+  body('sessionId')
+    .optional()
+    .isLength({ min: 10, max: 50 })
+    .withMessage('ID de sesión inválido')
+    .matches(/^[a-zA-Z0-9\-_]+$/)
+    .withMessage('ID de sesión contiene caracteres inválidos'),
+  
+  body('language')
+    .optional()
+    .isIn(['es', 'en'])
+    .withMessage('Idioma debe ser "es" o "en"'),
+  
+  body('userContext.age')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Edad debe ser un número entre 0 y 120'),
+  
+  body('userContext.pregnant')
+    .optional()
+    .isBoolean()
+    .withMessage('El embarazo debe indicarse como true o false')
+    .toBoolean(),
+  
+  body('userContext.medications')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Máximo 20 medicamentos permitidos'),
+  
+  body('userContext.medications.*')
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Cada medicamento debe tener como máximo 100 caracteres'),
+  
+  body('userContext.allergies')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Máximo 20 alergias permitidas'),
+  
+  body('userContext.allergies.*')
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Cada alergia debe tener como máximo 100 caracteres'),
+  
+  body('userContext.medicalHistory')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Máximo 20 antecedentes permitidos'),
+  
+  body('userContext.medicalHistory.*')
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Cada antecedente debe tener como máximo 100 caracteres'),
+  
+  body('userContext.symptoms')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Máximo 20 síntomas permitidos'),
+  
+  body('userContext.painLevel')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Nivel de dolor debe ser entre 1 y 10'),
+  
+  body('userContext.duration')
+    .optional()
+    .isIn(['minutos', 'horas', '1 día', '2-3 días', '1 semana', '2-4 semanas', '1 mes', 'más de 1 mes', 'crónico'])
+    .withMessage('Duración de síntomas inválida'),
+];
+
 /**
  * POST /api/chat/message
  * Envía un mensaje al chatbot médico
@@ -41,52 +120,144 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
 router.post(
   '/message',
   medicalRateLimitMiddleware,
+  messageValidators,
+  handleValidationErrors,
+  validateMedicalSession,
+  chatController.sendMessage.bind(chatController)
+);
+
+/**
+ * POST /api/chat/stream
+ * Envía un mensaje y recibe la respuesta progresivamente (Server-Sent Events)
+ */
+router.post(
+  '/stream',
+  medicalRateLimitMiddleware,
+  messageValidators,
+  handleValidationErrors,
+  validateMedicalSession,
+  chatController.streamMessage.bind(chatController)
+);
+
+// Validaciones compartidas por los endpoints de la entrevista guiada
+const triageSessionValidators = [
+  body('sessionId')
+    .notEmpty()
+    .withMessage('Session ID es requerido')
+    .isLength({ min: 10, max: 50 })
+    .withMessage('ID de sesión inválido')
+    .matches(/^[a-zA-Z0-9\-_]+$/)
+    .withMessage('ID de sesión contiene caracteres inválidos'),
+
+  body('language')
+    .optional()
+    .isIn(['es', 'en'])
+    .withMessage('Idioma debe ser "es" o "en"'),
+];
+
+/**
+ * POST /api/chat/triage/start
+ * Inicia (o retoma) la entrevista de triaje guiada
+ */
+router.post(
+  '/triage/start',
   [
-    // Validaciones de entrada
-    body('message')
-      .notEmpty()
-      .withMessage('El mensaje es requerido')
-      .isLength({ min: 3, max: 2000 })
-      .withMessage('El mensaje debe tener entre 3 y 2000 caracteres')
+    ...triageSessionValidators,
+    body('restart')
+      .optional()
+      .isBoolean()
+      .withMessage('restart debe ser boolean'),
+  ],
+  handleValidationErrors,
+  validateMedicalSession,
+  chatController.startTriage.bind(chatController)
+);
+
+/**
+ * POST /api/chat/triage/answer
+ * Responde la pregunta actual de la entrevista guiada
+ */
+router.post(
+  '/triage/answer',
+  medicalRateLimitMiddleware,
+  [
+    ...triageSessionValidators,
+    body('answer')
+      .custom(value =>
+        (typeof value === 'string' && value.trim().length > 0 && value.length <= 200) ||
+        (typeof value === 'number' && Number.isInteger(value)) ||
+        (Array.isArray(value) && value.length > 0 && value.length <= 12 &&
+          value.every(item => typeof item === 'string' && item.length <= 100))
+      )
+      .withMessage('La respuesta debe ser texto, un número o una lista de opciones'),
+  ],
+  handleValidationErrors,
+  validateMedicalSession,
+  chatController.answerTriage.bind(chatController)
+);
+
+/**
+ * POST /api/chat/triage/cancel
+ * Cancela la entrevista guiada y vuelve al chat libre
+ */
+router.post(
+  '/triage/cancel',
+  triageSessionValidators,
+  handleValidationErrors,
+  validateMedicalSession,
+  chatController.cancelTriage.bind(chatController)
+);
+
+/**
+ * POST /api/chat/analyze-symptoms
+ * Análisis estructurado y determinista de una lista de síntomas
+ */
+router.post(
+  '/analyze-symptoms',
+  medicalRateLimitMiddleware,
+  [
+    body('symptoms')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Se requiere una lista de 1 a 20 síntomas'),
+
+    body('symptoms.*')
+      .isString()
+      .withMessage('Cada síntoma debe ser texto')
       .trim()
-      .escape(),
-    
-    body('sessionId')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Cada síntoma debe tener entre 2 y 100 caracteres'),
+
+    body('duration')
       .optional()
-      .isLength({ min: 10, max: 50 })
-      .withMessage('ID de sesión inválido')
-      .matches(/^[a-zA-Z0-9\-_]+$/)
-      .withMessage('ID de sesión contiene caracteres inválidos'),
-    
-    body('language')
+      .isIn(['minutos', 'horas', '1 día', '2-3 días', '1 semana', '2-4 semanas', '1 mes', 'más de 1 mes', 'crónico'])
+      .withMessage('Duración de síntomas inválida'),
+
+    body('severity')
       .optional()
-      .isIn(['es', 'en'])
-      .withMessage('Idioma debe ser "es" o "en"'),
-    
-    body('userContext.age')
+      .isInt({ min: 1, max: 10 })
+      .withMessage('La intensidad debe ser entre 1 y 10')
+      .toInt(),
+
+    body('age')
       .optional()
       .isInt({ min: 0, max: 120 })
-      .withMessage('Edad debe ser un número entre 0 y 120'),
-    
-    body('userContext.symptoms')
-      .optional()
-      .isArray({ max: 20 })
-      .withMessage('Máximo 20 síntomas permitidos'),
-    
-    body('userContext.painLevel')
+      .withMessage('Edad debe ser un número entre 0 y 120')
+      .toInt(),
+
+    body('pregnant')
       .optional()
-      .isInt({ min: 1, max: 10 })
-      .withMessage('Nivel de dolor debe ser entre 1 y 10'),
-    
-    body('userContext.duration')
+      .isBoolean()
+      .withMessage('El embarazo debe indicarse como true o false')
+      .toBoolean(),
+
+    body('language')
       .optional()
-      .isIn(['minutos', 'horas', '1 día', '2-3 días', '1 semana', '2-4 semanas', '1 mes', 'más de 1 mes', 'crónico'])
-      .withMessage('Duración de síntomas inválida'),
+      .isIn(['es', 'en'])
+      .withMessage('Idioma debe ser "es" o "en"'),
   ],
   handleValidationErrors,
   validateMedicalSession,
-  emergencyDetectionMiddleware,
-  chatController.sendMessage.bind(chatController)
+  chatController.analyzeSymptoms.bind(chatController)
 );
 
 /**
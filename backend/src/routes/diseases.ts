@@ -94,6 +94,93 @@ router.post(
   diseaseController.searchBySymptoms.bind(diseaseController)
 );
 
+/**
+ * POST /api/diseases/treatments/interactions
+ * Revisa interacciones entre medicamentos y con un tratamiento candidato
+ */
+router.post(
+  '/treatments/interactions',
+  medicalRateLimitMiddleware,
+  [
+    body('medications')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Se requiere al menos 1 medicamento y máximo 20')
+      .custom((medications) => {
+        if (!medications.every((medication: any) =>
+          typeof medication === 'string' &&
+          medication.trim().length >= 2 &&
+          medication.trim().length <= 100
+        )) {
+          throw new Error('Cada medicamento debe tener entre 2 y 100 caracteres');
+        }
+        return true;
+      }),
+
+    body('treatmentId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('ID de tratamiento inválido')
+      .toInt(),
+
+    body('treatment')
+      .optional()
+      .isString()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('El tratamiento debe tener entre 2 y 100 caracteres')
+      .trim(),
+
+    body('language')
+      .optional()
+      .isIn(['es', 'en'])
+      .withMessage('Idioma debe ser "es" o "en"'),
+  ],
+  handleValidationErrors,
+  diseaseController.checkInteractions.bind(diseaseController)
+);
+
+/**
+ * GET /api/diseases/:id/treatments
+ * Tratamientos de una enfermedad filtrados según el perfil del paciente
+ */
+router.get(
+  '/:id/treatments',
+  medicalRateLimitMiddleware,
+  [
+    param('id')
+      .isInt({ min: 1 })
+      .withMessage('ID de enfermedad inválido')
+      .toInt(),
+
+    query('age')
+      .optional()
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Edad debe ser entre 0 y 120 años')
+      .toInt(),
+
+    query('pregnant')
+      .optional()
+      .isBoolean()
+      .withMessage('pregnant debe ser boolean')
+      .toBoolean(),
+
+    // Listas separadas por comas
+    query(['allergies', 'medicalHistory', 'medications'])
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Cada lista del perfil no puede exceder 500 caracteres')
+      .trim()
+      .customSanitizer((value: string) => value.split(',').map(item => item.trim()).filter(Boolean)),
+
+    query('language')
+      .optional()
+      .isIn(['es', 'en'])
+      .withMessage('Idioma debe ser "es" o "en"'),
+  ],
+  handleValidationErrors,
+  diseaseController.getDiseaseTreatments.bind(diseaseController)
+);
+
 /**
  * GET /api/diseases/:id
  * Obtiene información detallada de una enfermedad específica
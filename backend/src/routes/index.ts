@@ -2,7 +2,9 @@ import { Router } from 'express';
 import { Request, Response } from 'express';
 import chatRoutes from './chat';
 import diseaseRoutes from './diseases';
+import adminRoutes from './admin';
 import { logger } from '../utils/logger';
+import { llmCircuitBreaker } from '../services/llm/circuitBreaker';
 
 const router = Router();
 
@@ -44,8 +46,12 @@ router.use((req: Request, res: Response, next) => {
 // Ruta de health check
 router.get('/health', (req: Request, res: Response) => {
   try {
+    // Con el circuito abierto el chat responde con el triaje basado en reglas
+    const aiCircuit = llmCircuitBreaker.getSnapshot();
+    const aiStatus = aiCircuit.state === 'closed' ? 'operational' : aiCircuit.state === 'half_open' ? 'recovering' : 'degraded';
+
     const healthData = {
-      status: 'healthy',
+      status: aiCircuit.state === 'closed' ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       version: process.env.npm_package_version || '1.0.0',
@@ -53,8 +59,9 @@ router.get('/health', (req: Request, res: Response) => {
       services: {
         api: 'operational',
         database: 'operational', // TODO: Add actual DB health check
-        ai: 'operational', // TODO: Add OpenAI API health check
+        ai: aiStatus,
       },
+      aiCircuit,
       memory: {
         used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
         total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
@@ -99,11 +106,16 @@ router.get('/info', (req: Request, res: Response) => {
       endpoints: {
         chat: {
           '/api/chat/message': 'POST - Enviar mensaje al chatbot',
+          '/api/chat/stream': 'POST - Enviar mensaje con respuesta progresiva (SSE)',
+          '/api/chat/triage/start': 'POST - Iniciar o retomar entrevista guiada',
+          '/api/chat/triage/answer': 'POST - Responder pregunta de la entrevista guiada',
+          '/api/chat/triage/cancel': 'POST - Cancelar entrevista guiada',
           '/api/chat/history/:sessionId': 'GET - Obtener historial de conversación',
           '/api/chat/end/:sessionId': 'POST - Terminar conversación',
           '/api/chat/session/new': 'GET - Crear nueva sesión',
           '/api/chat/session/:sessionId/status': 'GET - Estado de sesión',
           '/api/chat/emergency-contacts': 'GET - Contactos de emergencia',
+          '/api/chat/analyze-symptoms': 'POST - Análisis estructurado de síntomas',
         },
         diseases: {
           '/api/diseases/search-by-symptoms': 'POST - Buscar por síntomas',
@@ -113,6 +125,14 @@ router.get('/info', (req: Request, res: Response) => {
           '/api/diseases/emergency/checklist': 'GET - Lista de emergencias',
           '/api/diseases/gastro/common': 'GET - Condiciones gastrointestinales comunes',
         },
+        admin: {
+          '/api/admin/emergency-rules': 'GET/PUT - Reglas de detección de emergencias (X-Admin-Key)',
+          '/api/admin/emergency-rules/dry-run': 'POST - Probar reglas de emergencia sin guardarlas',
+          '/api/admin/prompts': 'GET/PUT - Registro versionado de prompts con asignación A/B',
+          '/api/admin/prompts/assignments/:sessionId': 'GET - Plantilla asignada a una sesión',
+          '/api/admin/usage': 'GET - Tokens y costo estimado por día, modelo y conversación',
+          '/api/admin/usage/conversations/:sessionId': 'GET - Costo de una consulta por mensaje',
+        },
         system: {
           '/api/health': 'GET - Estado del sistema',
           '/api/info': 'GET - Información de la API',
@@ -262,6 +282,7 @@ router.get('/docs', (req: Request, res: Response) => {
 // Montar las rutas específicas
 router.use('/chat', chatRoutes);
 router.use('/diseases', diseaseRoutes);
+router.use('/admin', adminRoutes);
 
 // Middleware para manejar rutas no encontradas en la API
 router.use('*', (req: Request, res: Response) => {
@@ -281,6 +302,7 @@ router.use('*', (req: Request, res: Response) => {
         'GET /api/info',
         'GET /api/docs',
         'POST /api/chat/message',
+        'POST /api/chat/stream',
         'POST /api/diseases/search-by-symptoms',
       ],
     },
@@ -0,0 +1,124 @@
+/**
+ * Envía mensajes por las rutas reales del chat contra la base de datos
+ * configurada y verifica lo que queda guardado en la conversación. Las
+ * conversaciones de prueba se eliminan al terminar.
+ *
+ * Uso: LLM_PROVIDER=offline npm run check:persistence
+ */
+import express from 'express';
+import { AddressInfo } from 'net';
+import chatRoutes from '../routes/chat';
+import { errorHandler } from '../middleware/errorHandler';
+import { dbService } from '../services/database';
+import { SessionIdGenerator } from '../utils/medicalUtils';
+
+interface PersistenceCase {
+  id: string;
+  message: string;
+  verify: (conversation: any, trajectory: any) => string[];
+}
+
+const PERSISTENCE_CASES: PersistenceCase[] = [
+  {
+    // Una conversación corta no se compacta: se guarda sin resumen
+    id: 'short-conversation-no-summary',
+    message: 'Tengo acidez después de comer desde hace dos días',
+    verify: conversation => {
+      const failures: string[] = [];
+      if (conversation.summary != null) {
+        failures.push('se guardó un resumen sin compactar');
+      }
+      if (!Array.isArray(conversation.messages) || conversation.messages.length !== 2) {
+        failures.push(`se guardaron ${conversation.messages?.length ?? 0} mensajes, se esperaban 2`);
+      }
+      return failures;
+    },
+  },
+  {
+    // Una emergencia detectada por reglas queda en la trayectoria de riesgo
+    id: 'rule-emergency-risk-snapshot',
+    message: 'Desde la mañana estoy vomitando sangre',
+    verify: (conversation, trajectory) => {
+      const failures: string[] = [];
+      if (!conversation.emergencyDetected) {
+        failures.push('no se marcó emergencyDetected');
+      }
+      if (trajectory?.highestRiskLevel !== 'emergency') {
+        failures.push(`highestRiskLevel ${trajectory?.highestRiskLevel}, se esperaba emergency`);
+      }
+      const snapshot = trajectory?.riskSnapshots?.[0];
+      if (!snapshot) {
+        failures.push('no se guardó el snapshot de riesgo');
+      } else {
+        if (snapshot.riskLevel !== 'emergency') {
+          failures.push(`snapshot con riesgo ${snapshot.riskLevel}, se esperaba emergency`);
+        }
+        if (snapshot.escalation !== 'to_emergency') {
+          failures.push(`snapshot con escalación ${snapshot.escalation}, se esperaba to_emergency`);
+        }
+      }
+      return failures;
+    },
+  },
+];
+
+async function checkCase(baseUrl: string, testCase: PersistenceCase): Promise<string[]> {
+  const sessionId = SessionIdGenerator.generate();
+
+  try {
+    const response = await fetch(`${baseUrl}/api/chat/message`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-session-id': sessionId },
+      body: JSON.stringify({ message: testCase.message, sessionId, language: 'es' }),
+    });
+    if (!response.ok) {
+      return [`la ruta respondió ${response.status}`];
+    }
+
+    const conversation = await dbService.getConversation(sessionId);
+    if (!conversation) {
+      return ['no se guardó la conversación'];
+    }
+
+    const trajectory = await dbService.getRiskTrajectory(sessionId);
+    return testCase.verify(conversation, trajectory);
+  } finally {
+    await dbService.client.conversation.deleteMany({ where: { sessionId } });
+  }
+}
+
+async function main(): Promise<void> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/chat', chatRoutes);
+  app.use(errorHandler);
+
+  await dbService.connect();
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  let failed = 0;
+
+  try {
+    for (const testCase of PERSISTENCE_CASES) {
+      const failures = await checkCase(`http://127.0.0.1:${port}`, testCase);
+
+      if (failures.length > 0) {
+        failed++;
+        console.log(`✗ ${testCase.id}: ${failures.join('; ')}`);
+      } else {
+        console.log(`✓ ${testCase.id}`);
+      }
+    }
+  } finally {
+    server.close();
+    await dbService.disconnect();
+  }
+
+  console.log(`\n${PERSISTENCE_CASES.length - failed}/${PERSISTENCE_CASES.length} casos correctos`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Error comprobando la persistencia de conversaciones:', error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { emergencyRules, validateEmergencyRules } from '../../services/emergencyRules';
+import { promptRegistry, validatePromptTemplates, PromptTemplateInput } from '../../services/promptRegistry';
+import { EmergencyRule, EmergencyRuleSet, PromptRegistry } from '../../types/medical';
+
+// Configuración candidata: mismo formato que los PUT de administración
+export interface CandidateConfig {
+  emergencyRules?: EmergencyRule[];
+  promptTemplates?: PromptTemplateInput[];
+}
+
+export interface AppliedCandidate {
+  ruleSet?: EmergencyRuleSet;
+  registry?: PromptRegistry;
+}
+
+const formatIssues = (issues: z.ZodIssue[]) =>
+  issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+
+/**
+ * Lee y valida un archivo JSON con `emergencyRules` y/o `promptTemplates`
+ */
+export function loadCandidateConfig(filePath: string): CandidateConfig {
+  const raw = JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf8'));
+  const candidate: CandidateConfig = {};
+
+  if (raw.emergencyRules !== undefined) {
+    const validation = validateEmergencyRules(raw.emergencyRules);
+    if (!validation.success) {
+      throw new Error(`Reglas de emergencia candidatas inválidas: ${formatIssues(validation.issues)}`);
+    }
+    candidate.emergencyRules = validation.rules;
+  }
+
+  if (raw.promptTemplates !== undefined) {
+    const validation = validatePromptTemplates(raw.promptTemplates);
+    if (!validation.success) {
+      throw new Error(`Plantillas de prompt candidatas inválidas: ${formatIssues(validation.issues)}`);
+    }
+    candidate.promptTemplates = validation.templates;
+  }
+
+  if (!candidate.emergencyRules && !candidate.promptTemplates) {
+    throw new Error('El archivo candidato debe incluir emergencyRules y/o promptTemplates');
+  }
+
+  return candidate;
+}
+
+/**
+ * Activa la configuración candidata en memoria, sin guardarla en SystemConfig
+ */
+export function applyCandidateConfig(candidate: CandidateConfig): AppliedCandidate {
+  return {
+    ...(candidate.emergencyRules && { ruleSet: emergencyRules.useCandidate(candidate.emergencyRules) }),
+    ...(candidate.promptTemplates && { registry: promptRegistry.useCandidate(candidate.promptTemplates) }),
+  };
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createLLMProvider, OfflineProvider } from '../../services/llm';
+import { LLMGenerateRequest, LLMGenerateResult, LLMProvider, LLMStreamHandler } from '../../types/llm';
+
+// stub: proveedor offline; replay: respuestas grabadas; record: proveedor real y graba
+export type EvaluationProviderMode = 'stub' | 'replay' | 'record';
+
+interface RecordingsFile {
+  version: 1;
+  recordings: Record<string, LLMGenerateResult>;
+}
+
+/**
+ * Reproduce respuestas del modelo grabadas en un archivo JSON, indexadas por
+ * el hash de la request (prompt de sistema, turnos y formato). En modo
+ * record consulta al proveedor real y guarda lo que devuelve.
+ */
+export class RecordedProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly model: string;
+  public misses = 0;
+  public calls = 0;
+  private readonly recordings: Record<string, LLMGenerateResult>;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly upstream: LLMProvider | null
+  ) {
+    this.name = upstream ? upstream.name : 'recorded';
+    this.model = upstream ? upstream.model : 'recorded';
+    this.recordings = this.load();
+  }
+
+  public async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    this.calls++;
+    const key = this.key(request);
+
+    if (this.upstream) {
+      const result = await this.upstream.generate(request);
+      this.recordings[key] = result;
+      return result;
+    }
+
+    const recorded = this.recordings[key];
+    if (!recorded) {
+      this.misses++;
+      throw new Error(`No hay respuesta grabada para la request ${key}`);
+    }
+
+    return recorded;
+  }
+
+  public async stream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResult> {
+    const result = await this.generate(request);
+    onDelta(result.content);
+    return result;
+  }
+
+  /**
+   * Guarda las grabaciones (solo en modo record)
+   */
+  public save(): void {
+    if (!this.upstream) return;
+
+    const file: RecordingsFile = { version: 1, recordings: this.recordings };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2));
+  }
+
+  private load(): Record<string, LLMGenerateResult> {
+    if (!fs.existsSync(this.filePath)) {
+      if (!this.upstream) {
+        throw new Error(`No existe el archivo de grabaciones ${this.filePath}`);
+      }
+      return {};
+    }
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as RecordingsFile;
+    return file.recordings || {};
+  }
+
+  private key(request: LLMGenerateRequest): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([request.systemPrompt, request.messages, request.responseFormat || 'text']))
+      .digest('hex')
+      .slice(0, 24);
+  }
+}
+
+/**
+ * Proveedor para el arnés según el modo
+ */
+export function createEvaluationProvider(
+  mode: EvaluationProviderMode,
+  recordingsPath: string
+): { provider: LLMProvider; recorded: RecordedProvider | null } {
+  if (mode === 'stub') {
+    return { provider: new OfflineProvider(process.env['LLM_FIXTURES_PATH']), recorded: null };
+  }
+
+  const recorded = new RecordedProvider(recordingsPath, mode === 'record' ? createLLMProvider() : null);
+  return { provider: recorded, recorded };
+}
@@ -0,0 +1,222 @@
+/**
+ * Reproduce conversaciones guardadas con una configuración candidata (reglas
+ * de emergencia y/o plantillas de prompt) y muestra, turno por turno, qué
+ * cambia respecto de lo que se respondió: emergencia, reglas disparadas,
+ * síntomas extraídos y variante del prompt. Termina con código 1 si alguna
+ * emergencia registrada deja de detectarse.
+ *
+ * Uso: npm run eval:replay -- --candidate archivo [--days 7] [--limit 50]
+ *        [--session id1,id2] [--provider stub|replay] [--recordings archivo]
+ *        [--show-messages] [--json archivo]
+ */
+import fs from 'fs';
+import path from 'path';
+import { MedicalAIService } from '../../services/medicalAI';
+import { emergencyRules } from '../../services/emergencyRules';
+import { promptRegistry } from '../../services/promptRegistry';
+import { dbService } from '../../services/database';
+import { MedicalContentSanitizer } from '../../utils/medicalUtils';
+import { ChatMessage, EmergencyRuleSet, PromptReference } from '../../types/medical';
+import { createEvaluationProvider, EvaluationProviderMode } from './recordedProvider';
+import { applyCandidateConfig, loadCandidateConfig } from './candidateConfig';
+
+const DEFAULT_RECORDINGS_PATH = 'src/scripts/evaluation/recordings.json';
+const MESSAGE_PREVIEW_LENGTH = 60;
+
+interface ReplayOptions {
+  candidate: string;
+  days: number;
+  limit: number;
+  sessionIds: string[];
+  provider: EvaluationProviderMode;
+  recordings: string;
+  showMessages: boolean;
+  json?: string;
+}
+
+interface TurnDiff {
+  sessionId: string;
+  turn: number;
+  message?: string; // Solo con --show-messages
+  emergency?: { stored: boolean; candidate: boolean };
+  rules?: { added: string[]; removed: string[] };
+  symptoms?: { added: string[]; removed: string[] };
+  prompt?: { stored: string | null; candidate: string | null };
+}
+
+function parseOptions(argv: string[]): ReplayOptions {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const candidate = value('--candidate');
+  if (!candidate) {
+    throw new Error('Falta --candidate con el archivo de configuración candidata');
+  }
+
+  const provider = (value('--provider') || 'stub') as EvaluationProviderMode;
+  if (!['stub', 'replay'].includes(provider)) {
+    throw new Error(`Proveedor no admitido para reproducir: ${provider}`);
+  }
+
+  const json = value('--json');
+
+  return {
+    candidate,
+    days: parseInt(value('--days') || '7'),
+    limit: parseInt(value('--limit') || '50'),
+    sessionIds: (value('--session') || '').split(',').map(id => id.trim()).filter(Boolean),
+    provider,
+    recordings: value('--recordings') || DEFAULT_RECORDINGS_PATH,
+    showMessages: argv.includes('--show-messages'),
+    ...(json && { json }),
+  };
+}
+
+const difference = (from: string[], to: string[]) => ({
+  added: to.filter(item => !from.includes(item)),
+  removed: from.filter(item => !to.includes(item)),
+});
+
+const promptLabel = (prompt?: PromptReference) =>
+  prompt ? `${prompt.templateId}@${prompt.templateVersion}` : null;
+
+const firedRules = (text: string, ruleSet?: EmergencyRuleSet) =>
+  [...new Set(emergencyRules.evaluate(text, ruleSet).matches.map(match => match.ruleId))];
+
+/**
+ * Reproduce los turnos libres de una conversación. Las respuestas de la
+ * entrevista guiada no pasan por el modelo y se omiten.
+ */
+async function replayConversation(
+  service: MedicalAIService,
+  conversation: any,
+  baselineRules: EmergencyRuleSet,
+  options: ReplayOptions
+): Promise<{ replayed: number; skipped: number; diffs: TurnDiff[] }> {
+  const messages = conversation.messages as ChatMessage[];
+  const diffs: TurnDiff[] = [];
+  let replayed = 0;
+  let skipped = 0;
+
+  for (let index = 0; index < messages.length; index++) {
+    const userMessage = messages[index]!;
+    const stored = messages[index + 1];
+    if (userMessage.role !== 'user') continue;
+
+    if (!stored || stored.role !== 'assistant' || !stored.metadata || stored.metadata.triageStep) {
+      skipped++;
+      continue;
+    }
+
+    const response = await service.processMessage({
+      message: userMessage.content,
+      sessionId: conversation.sessionId,
+      language: conversation.language === 'en' ? 'en' : 'es',
+      conversationHistory: messages.slice(0, index),
+      ...(conversation.summary && { conversationSummary: conversation.summary }),
+    });
+    replayed++;
+
+    const text = MedicalContentSanitizer.sanitize(userMessage.content);
+    const rules = difference(firedRules(text, baselineRules), firedRules(text));
+    const symptoms = difference(stored.metadata.symptomsExtracted || [], response.metadata?.symptomsExtracted || []);
+    const storedPrompt = promptLabel(stored.metadata.prompt);
+    const candidatePrompt = promptLabel(response.metadata?.prompt);
+    const storedEmergency = !!stored.metadata.emergencyDetected;
+
+    const diff: TurnDiff = {
+      sessionId: conversation.sessionId,
+      turn: index,
+      ...(options.showMessages && { message: userMessage.content.slice(0, MESSAGE_PREVIEW_LENGTH) }),
+      ...(storedEmergency !== response.emergencyDetected && {
+        emergency: { stored: storedEmergency, candidate: response.emergencyDetected },
+      }),
+      ...((rules.added.length > 0 || rules.removed.length > 0) && { rules }),
+      ...((symptoms.added.length > 0 || symptoms.removed.length > 0) && { symptoms }),
+      ...(storedPrompt !== candidatePrompt && { prompt: { stored: storedPrompt, candidate: candidatePrompt } }),
+    };
+
+    if (diff.emergency || diff.rules || diff.symptoms || diff.prompt) {
+      diffs.push(diff);
+    }
+  }
+
+  return { replayed, skipped, diffs };
+}
+
+function printDiff(diff: TurnDiff): void {
+  const list = (change: { added: string[]; removed: string[] }) =>
+    [...change.added.map(item => `+${item}`), ...change.removed.map(item => `-${item}`)].join(' ');
+
+  console.log(`  turno ${diff.turn}${diff.message ? ` "${diff.message}"` : ''}`);
+  if (diff.emergency) console.log(`    emergencia: ${diff.emergency.stored} → ${diff.emergency.candidate}`);
+  if (diff.rules) console.log(`    reglas: ${list(diff.rules)}`);
+  if (diff.symptoms) console.log(`    síntomas: ${list(diff.symptoms)}`);
+  if (diff.prompt) console.log(`    prompt: ${diff.prompt.stored ?? '-'} → ${diff.prompt.candidate ?? '-'}`);
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const { provider } = createEvaluationProvider(options.provider, options.recordings);
+  const service = new MedicalAIService(provider);
+
+  // Reglas vigentes como referencia antes de activar la configuración candidata
+  await emergencyRules.ensureFresh();
+  await promptRegistry.ensureFresh();
+  const baselineRules = emergencyRules.getRuleSet().ruleSet;
+  const applied = applyCandidateConfig(loadCandidateConfig(options.candidate));
+
+  const conversations = await dbService.getRecentConversations({
+    since: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000),
+    limit: options.limit,
+    ...(options.sessionIds.length > 0 && { sessionIds: options.sessionIds }),
+  });
+
+  console.log(`Reproduciendo ${conversations.length} conversaciones con ${options.candidate}` +
+    `${applied.ruleSet ? ` (reglas v${baselineRules.version} → v${applied.ruleSet.version})` : ''}` +
+    `${applied.registry ? ` (prompts v${applied.registry.version})` : ''}\n`);
+
+  const diffs: TurnDiff[] = [];
+  let replayed = 0;
+  let skipped = 0;
+
+  for (const conversation of conversations) {
+    const result = await replayConversation(service, conversation, baselineRules, options);
+    replayed += result.replayed;
+    skipped += result.skipped;
+    diffs.push(...result.diffs);
+
+    if (result.diffs.length > 0) {
+      console.log(`${conversation.sessionId} (${result.diffs.length}/${result.replayed} turnos con cambios)`);
+      result.diffs.forEach(printDiff);
+    }
+  }
+
+  const gained = diffs.filter(diff => diff.emergency?.candidate).length;
+  const lost = diffs.filter(diff => diff.emergency && !diff.emergency.candidate).length;
+
+  console.log(`\n${replayed} turnos reproducidos, ${skipped} omitidos, ${diffs.length} con cambios`);
+  console.log(`Emergencias nuevas: ${gained}; emergencias que dejan de detectarse: ${lost}`);
+
+  if (options.json) {
+    fs.writeFileSync(path.resolve(options.json), JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      candidate: options.candidate,
+      conversations: conversations.length,
+      replayed,
+      skipped,
+      diffs,
+    }, null, 2));
+  }
+
+  await dbService.disconnect();
+  process.exit(lost > 0 ? 1 : 0);
+}
+
+main().catch(async error => {
+  console.error('Error reproduciendo conversaciones:', error);
+  await dbService.disconnect();
+  process.exit(1);
+});
@@ -462,6 +462,7 @@ export async function seedDiseases(prisma: PrismaClient) {
             category: diseaseData.category,
             severityLevel: diseaseData.severityLevel,
             prevalence: diseaseData.prevalence,
+            typicalAge: diseaseData.metadata.commonAge,
             icd10Code: diseaseData.icd10Code,
             overview: diseaseData.overview,
             causes: diseaseData.causes,
@@ -189,21 +189,15 @@ export async function seedDiseaseSymptomRelations(
         }
         
         try {
-          const diseaseSymptomRel = await prisma.diseaseSymptomRel.create({
+          const diseaseSymptomRel = await prisma.diseaseSymptom.create({
             data: {
               diseaseId: disease.id,
               symptomId: symptom.id,
               weight: symptomRelation.weight,
               probability: symptomRelation.probability,
+              frequency: symptomRelation.probability >= 0.6 ? 'common' :
+                        symptomRelation.probability >= 0.3 ? 'occasional' : 'rare',
               severity: symptomRelation.severity,
-              metadata: {
-                createdBy: 'seed_script',
-                validatedBy: 'medical_team',
-                lastReviewed: new Date().toISOString(),
-                evidenceLevel: 'high',
-                source: 'clinical_literature'
-              },
-              isActive: true
             }
           });
           
@@ -16,6 +16,8 @@ const symptomsData = [
     duration: 'variable',
     painType: 'cramping',
     isEmergencySymptom: false,
+    redFlags: ['Fiebre', 'Abdomen rígido', 'Vómitos persistentes', 'Sangre en las heces'],
+    severityIndicators: ['Dolor intenso'],
   },
   {
     name: 'Náuseas',
@@ -27,17 +29,21 @@ const symptomsData = [
     duration: 'variable',
     painType: 'nausea',
     isEmergencySymptom: false,
+    redFlags: ['Signos de deshidratación', 'Vómitos persistentes'],
+    severityIndicators: [],
   },
   {
     name: 'Vómitos',
     description: 'Expulsión forzada del contenido del estómago',
     category: 'gastrointestinal',
     severity: 'moderate',
-    keywords: ['vómitos', 'vomitar', 'devolver', 'expulsar comida'],
+    keywords: ['vómitos', 'vomitar', 'devolver el estómago', 'expulsar comida'],
     bodyLocation: 'stomach',
     duration: 'acute',
     painType: 'spasmodic',
     isEmergencySymptom: false,
+    redFlags: ['Vómito con sangre', 'Signos de deshidratación', 'Vómitos persistentes'],
+    severityIndicators: ['Fiebre'],
   },
   {
     name: 'Diarrea',
@@ -49,6 +55,8 @@ const symptomsData = [
     duration: 'variable',
     painType: 'cramping',
     isEmergencySymptom: false,
+    redFlags: ['Sangre en las heces', 'Signos de deshidratación', 'Fiebre alta'],
+    severityIndicators: ['Dolor intenso'],
   },
   {
     name: 'Estreñimiento',
@@ -60,6 +68,8 @@ const symptomsData = [
     duration: 'chronic',
     painType: 'pressure',
     isEmergencySymptom: false,
+    redFlags: ['Sangre en las heces', 'Pérdida de peso', 'Vómitos persistentes'],
+    severityIndicators: [],
   },
   {
     name: 'Acidez estomacal',
@@ -71,6 +81,8 @@ const symptomsData = [
     duration: 'intermittent',
     painType: 'burning',
     isEmergencySymptom: false,
+    redFlags: ['Disfagia', 'Pérdida de peso', 'Vómito con sangre'],
+    severityIndicators: [],
   },
   {
     name: 'Distensión abdominal',
@@ -82,6 +94,8 @@ const symptomsData = [
     duration: 'variable',
     painType: 'pressure',
     isEmergencySymptom: false,
+    redFlags: ['Abdomen rígido', 'Vómitos persistentes'],
+    severityIndicators: ['Dolor intenso'],
   },
   {
     name: 'Gases intestinales',
@@ -104,6 +118,8 @@ const symptomsData = [
     duration: 'variable',
     painType: 'none',
     isEmergencySymptom: false,
+    redFlags: ['Pérdida de peso', 'Piel u ojos amarillos'],
+    severityIndicators: [],
   },
   {
     name: 'Indigestión',
@@ -115,6 +131,8 @@ const symptomsData = [
     duration: 'postprandial',
     painType: 'aching',
     isEmergencySymptom: false,
+    redFlags: ['Disfagia', 'Pérdida de peso'],
+    severityIndicators: [],
   },
 
   // Síntomas de emergencia
@@ -209,6 +227,8 @@ const symptomsData = [
     duration: 'intermittent',
     painType: 'none',
     isEmergencySymptom: false,
+    redFlags: ['Disfagia', 'Pérdida de peso'],
+    severityIndicators: [],
   },
   {
     name: 'Disfagia',
@@ -231,6 +251,8 @@ const symptomsData = [
     duration: 'postprandial',
     painType: 'pressure',
     isEmergencySymptom: false,
+    redFlags: ['Pérdida de peso', 'Vómitos persistentes'],
+    severityIndicators: [],
   },
   {
     name: 'Tenesmo',
@@ -245,6 +267,15 @@ const symptomsData = [
   }
 ];
 
+/**
+ * Nivel de urgencia del síntoma a partir de la gravedad del seed
+ */
+function symptomUrgencyLevel(symptomData: { severity: string; isEmergencySymptom: boolean }): string {
+  if (symptomData.isEmergencySymptom) return 'emergency';
+  if (symptomData.severity === 'severe') return 'high';
+  return symptomData.severity === 'moderate' ? 'medium' : 'low';
+}
+
 /**
  * Función para poblar la tabla de síntomas
  */
@@ -256,17 +287,19 @@ export async function seedSymptoms(prisma: PrismaClient) {
     
     for (const symptomData of symptomsData) {
       try {
+        // Solo columnas del modelo Symptom: la gravedad del seed se traduce a urgencyLevel
         const symptom = await prisma.symptom.create({
           data: {
-            ...symptomData,
+            name: symptomData.name,
+            description: symptomData.description,
+            category: symptomData.category,
+            urgencyLevel: symptomUrgencyLevel(symptomData),
+            keywords: symptomData.keywords,
+            bodyLocation: [symptomData.bodyLocation],
+            duration: symptomData.duration,
+            redFlags: symptomData.redFlags ?? [],
+            severityIndicators: symptomData.severityIndicators ?? [],
             isActive: true,
-            metadata: {
-              keywords: symptomData.keywords,
-              bodyLocation: symptomData.bodyLocation,
-              duration: symptomData.duration,
-              painType: symptomData.painType,
-              isEmergencySymptom: symptomData.isEmergencySymptom,
-            }
           }
         });
         
@@ -284,7 +317,7 @@ export async function seedSymptoms(prisma: PrismaClient) {
     logger.info(`✅ ${createdSymptoms.length} síntomas creados exitosamente`);
     
     // Estadísticas de síntomas creados
-    const emergencySymptoms = createdSymptoms.filter(s => s.metadata?.isEmergencySymptom);
+    const emergencySymptoms = createdSymptoms.filter(s => s.urgencyLevel === 'emergency');
     const gastroSymptoms = createdSymptoms.filter(s => s.category === 'gastrointestinal');
     
     logger.info(`   🚨 Síntomas de emergencia: ${emergencySymptoms.length}`);
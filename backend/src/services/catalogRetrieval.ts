@@ -0,0 +1,285 @@
+import { logger } from '../utils/logger';
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { dbService } from './database';
+import { CatalogMatch, CatalogRecordType, CatalogCitation, DifferentialDiagnosis } from '../types/medical';
+
+export interface CatalogSnapshot {
+  diseases: any[];
+  symptoms: any[];
+  treatments: any[];
+  emergencyInfo: any[];
+  loadedAt: number;
+}
+
+// Consulta normalizada del usuario
+interface CatalogQuery {
+  text: string;
+  tokens: Set<string>;
+}
+
+/**
+ * Recupera del catálogo clínico (Prisma) los registros que mejor coinciden
+ * con el mensaje y los síntomas extraídos, para fundamentar la respuesta
+ * del modelo en contenido curado por el equipo clínico.
+ */
+export class CatalogRetrievalService {
+  private snapshot: CatalogSnapshot | null = null;
+  private loading: Promise<CatalogSnapshot> | null = null;
+  private readonly cacheTtlMs: number;
+
+  // Límites por tipo de registro para no saturar el prompt
+  private readonly LIMITS: Record<CatalogRecordType, number> = {
+    disease: 3,
+    symptom: 4,
+    treatment: 3,
+    emergency: 2,
+  };
+
+  // Puntaje mínimo para considerar relevante un registro
+  private readonly MIN_SCORE = 0.6;
+  private readonly MAX_SUMMARY_LENGTH = 400;
+
+  constructor() {
+    this.cacheTtlMs = parseInt(process.env['CATALOG_CACHE_TTL_MS'] || '300000');
+  }
+
+  /**
+   * Devuelve los registros relevantes ordenados por tipo y puntaje.
+   * Con `differential` las enfermedades se puntúan por su probabilidad.
+   * `treatmentFilter` descarta tratamientos relacionados que no son aptos
+   * para el paciente (edad, embarazo).
+   */
+  public async retrieve(
+    message: string,
+    extractedSymptoms: string[],
+    differential: DifferentialDiagnosis[] = [],
+    treatmentFilter?: (treatment: any) => boolean
+  ): Promise<CatalogMatch[]> {
+    const catalog = await this.getSnapshot();
+    const query = this.buildQuery(message, extractedSymptoms);
+
+    const diseases = this.matchDiseases(catalog.diseases, query, differential);
+    const symptoms = this.matchSymptoms(catalog.symptoms, query);
+    const treatments = this.matchTreatments(catalog.treatments, diseases, treatmentFilter);
+    const emergencyInfo = this.matchEmergencyInfo(catalog.emergencyInfo, query);
+
+    return [...diseases, ...symptoms, ...treatments, ...emergencyInfo];
+  }
+
+  /**
+   * Convierte las refs citadas por el modelo en citas verificadas.
+   * Descarta refs que no se enviaron como contexto.
+   */
+  public resolveCitations(refs: string[], matches: CatalogMatch[]): CatalogCitation[] {
+    const provided = new Map(matches.map(match => [match.ref, match]));
+    const unknown = refs.filter(ref => !provided.has(ref));
+
+    if (unknown.length > 0) {
+      logger.warn('Model cited catalog records that were not provided', { unknown });
+    }
+
+    return refs
+      .filter(ref => provided.has(ref))
+      .map(ref => {
+        const { type, id, name } = provided.get(ref)!;
+        return { ref, type, id, name };
+      });
+  }
+
+  /**
+   * Descarta la caché del catálogo (p. ej. tras editar contenido clínico)
+   */
+  public invalidate(): void {
+    this.snapshot = null;
+  }
+
+  /**
+   * Catálogo en caché (compartido con el extractor de síntomas)
+   */
+  public async getSnapshot(): Promise<CatalogSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < this.cacheTtlMs) {
+      return this.snapshot;
+    }
+
+    // Evitar cargas concurrentes del catálogo
+    if (!this.loading) {
+      this.loading = dbService.getCatalogSnapshot()
+        .then(data => {
+          this.snapshot = { ...data, loadedAt: Date.now() };
+          logger.info('Catálogo clínico cargado para recuperación', {
+            diseases: data.diseases.length,
+            symptoms: data.symptoms.length,
+            treatments: data.treatments.length,
+            emergencyInfo: data.emergencyInfo.length,
+          });
+          return this.snapshot;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    return this.loading;
+  }
+
+  private buildQuery(message: string, extractedSymptoms: string[]): CatalogQuery {
+    const text = MedicalTextNormalizer.normalize([message, ...extractedSymptoms].join(' '));
+    return {
+      text,
+      tokens: new Set(MedicalTextNormalizer.tokenize(text)),
+    };
+  }
+
+  /**
+   * Coincidencia de un término del catálogo con la consulta:
+   * 1 si la frase aparece completa, proporcional si comparten palabras
+   */
+  private scoreTerm(term: string, query: CatalogQuery): number {
+    const normalized = MedicalTextNormalizer.normalize(term);
+    if (!normalized) return 0;
+
+    if (` ${query.text} `.includes(` ${normalized} `)) {
+      return 1;
+    }
+
+    const termTokens = MedicalTextNormalizer.tokenize(normalized);
+    if (termTokens.length === 0) return 0;
+
+    const shared = termTokens.filter(token => query.tokens.has(token)).length;
+    return (shared / termTokens.length) * 0.6;
+  }
+
+  private matchDiseases(diseases: any[], query: CatalogQuery, differential: DifferentialDiagnosis[]): CatalogMatch[] {
+    const probabilities = new Map(differential.map(candidate => [candidate.diseaseId, candidate.probability]));
+
+    const scored = diseases.map(disease => {
+      const symptomNames: string[] = [
+        ...(disease.symptoms || []),
+        ...(disease.symptoms_rel || []).map((rel: any) => rel.symptom?.name).filter(Boolean),
+      ];
+      const uniqueSymptoms = [...new Set(symptomNames)];
+
+      // El nombre sin aclaraciones entre paréntesis, p. ej. "Reflujo Gastroesofágico (ERGE)"
+      const nameScore = this.scoreTerm(String(disease.name).replace(/\(.*?\)/g, ''), query) >= 1 ? 1.5 : 0;
+      // El ranking diferencial sustituye al conteo de síntomas compartidos
+      const symptomScore = differential.length > 0
+        ? (probabilities.get(disease.id) ?? 0) * 3
+        : uniqueSymptoms.reduce((sum, name) => sum + this.scoreTerm(name, query), 0);
+
+      return {
+        ref: `disease:${disease.id}`,
+        type: 'disease' as const,
+        id: disease.id,
+        name: disease.name,
+        score: nameScore + symptomScore,
+        summary: this.summarize([
+          `${disease.name}: ${disease.description}`,
+          uniqueSymptoms.length > 0 ? `Síntomas: ${uniqueSymptoms.slice(0, 8).join(', ')}.` : '',
+          disease.causes?.length ? `Causas: ${disease.causes.slice(0, 4).join(', ')}.` : '',
+          `Gravedad: ${disease.severityLevel}.`,
+        ]),
+      };
+    });
+
+    return this.topMatches(scored, 'disease');
+  }
+
+  private matchSymptoms(symptoms: any[], query: CatalogQuery): CatalogMatch[] {
+    const scored = symptoms.map(symptom => ({
+      ref: `symptom:${symptom.id}`,
+      type: 'symptom' as const,
+      id: symptom.id,
+      name: symptom.name,
+      score: this.scoreTerm(symptom.name, query),
+      summary: this.summarize([
+        `${symptom.name}: ${symptom.description}`,
+        symptom.redFlags?.length ? `Señales de alarma: ${symptom.redFlags.slice(0, 4).join(', ')}.` : '',
+        `Urgencia: ${symptom.urgencyLevel}.`,
+      ]),
+    }));
+
+    return this.topMatches(scored, 'symptom');
+  }
+
+  /**
+   * Tratamientos asociados (por Treatment.conditions) a las enfermedades recuperadas
+   */
+  private matchTreatments(
+    treatments: any[],
+    diseases: CatalogMatch[],
+    treatmentFilter?: (treatment: any) => boolean
+  ): CatalogMatch[] {
+    if (diseases.length === 0) return [];
+
+    const diseaseNames = diseases.map(disease => ({
+      name: MedicalTextNormalizer.normalize(disease.name),
+      score: disease.score,
+    }));
+
+    const scored = treatments.map(treatment => {
+      const conditions: string[] = (treatment.conditions || []).map((condition: string) =>
+        MedicalTextNormalizer.normalize(condition)
+      );
+      const related = diseaseNames.filter(disease =>
+        conditions.some(condition => condition && (disease.name.includes(condition) || condition.includes(disease.name)))
+      );
+
+      return {
+        ref: `treatment:${treatment.id}`,
+        type: 'treatment' as const,
+        id: treatment.id,
+        name: treatment.name,
+        score: related.reduce((max, disease) => Math.max(max, disease.score), 0) * 0.5,
+        summary: this.summarize([
+          `${treatment.name} (${treatment.type}, ${treatment.category}): ${treatment.description}`,
+          treatment.precautions?.length ? `Precauciones: ${treatment.precautions.slice(0, 3).join(', ')}.` : '',
+        ]),
+      };
+    });
+
+    // Un tratamiento relacionado es relevante aunque su puntaje derivado sea bajo
+    return scored
+      .filter(match => match.score > 0)
+      .filter(match => !treatmentFilter || treatmentFilter(treatments.find(treatment => treatment.id === match.id)))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.LIMITS.treatment);
+  }
+
+  private matchEmergencyInfo(entries: any[], query: CatalogQuery): CatalogMatch[] {
+    const scored = entries.map(entry => ({
+      ref: `emergency:${entry.id}`,
+      type: 'emergency' as const,
+      id: entry.id,
+      name: entry.title,
+      score: (entry.warningSignals || []).reduce(
+        (max: number, signal: string) => Math.max(max, this.scoreTerm(signal, query)),
+        0
+      ),
+      summary: this.summarize([
+        `${entry.title}: ${entry.description}`,
+        entry.warningSignals?.length ? `Señales: ${entry.warningSignals.slice(0, 4).join(', ')}.` : '',
+        entry.immediateActions?.length ? `Acciones inmediatas: ${entry.immediateActions.slice(0, 3).join(', ')}.` : '',
+      ]),
+    }));
+
+    return this.topMatches(scored, 'emergency');
+  }
+
+  private topMatches(scored: CatalogMatch[], type: CatalogRecordType): CatalogMatch[] {
+    return scored
+      .filter(match => match.score >= this.MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.LIMITS[type]);
+  }
+
+  private summarize(parts: string[]): string {
+    const summary = parts.filter(Boolean).join(' ');
+    return summary.length > this.MAX_SUMMARY_LENGTH
+      ? `${summary.substring(0, this.MAX_SUMMARY_LENGTH - 3)}...`
+      : summary;
+  }
+}
+
+// Exportar instancia singleton
+export const catalogRetrieval = new CatalogRetrievalService();
+export default catalogRetrieval;
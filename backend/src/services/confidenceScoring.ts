@@ -0,0 +1,202 @@
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import {
+  ConfidenceAssessment,
+  ConfidenceFactors,
+  ConfidenceLevel,
+  ConfidenceSignals,
+} from '../types/medical';
+import { LLMFinishReason } from '../types/llm';
+
+// Peso de cada señal en la confianza base (suman 1)
+const FACTOR_WEIGHTS = {
+  extractionCoverage: 0.3,
+  catalogStrength: 0.3,
+  catalogAgreement: 0.4,
+};
+
+// Valores cuando no hay evidencia a favor ni en contra
+const NO_SYMPTOMS_COVERAGE = 0.3;
+const NO_CATALOG_STRENGTH = 0.2;
+const NEUTRAL_AGREEMENT = 0.5;
+
+// Cada síntoma adicional reconocido aporta contexto hasta este número
+const SYMPTOMS_FOR_FULL_COVERAGE = 2;
+
+const FINISH_REASON_PENALTY: Record<LLMFinishReason, number> = {
+  stop: 1,
+  max_tokens: 0.6,
+  safety: 0.3,
+  recitation: 0.5,
+  other: 0.7,
+  unknown: 0.8,
+};
+
+// Intervenciones de seguridad conocidas; el resto usa DEFAULT_INTERVENTION_PENALTY
+const INTERVENTION_PENALTY: Record<string, number> = {
+  definitive_diagnosis: 0.75,
+  prescription_dosing: 0.7,
+  red_flag_minimization: 0.6,
+  missing_escalation: 0.8,
+  safe_fallback: 0.6,
+};
+const DEFAULT_INTERVENTION_PENALTY = 0.8;
+
+const UNSTRUCTURED_PENALTY = 0.6;
+const REPAIR_PENALTY = 0.9; // Por cada intento de reparación del sobre
+const INVALID_CITATION_PENALTY = 0.85; // Por cada cita a un registro no recuperado
+
+// Límites del nivel de confianza (el chat trata "low" como respuesta a revisar)
+const LOW_CONFIDENCE_THRESHOLD = 0.45;
+const HIGH_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Calcula la confianza de una respuesta a partir de señales verificables:
+ * cobertura de la extracción de síntomas, respaldo del catálogo, acuerdo de
+ * la respuesta con los registros recuperados, intervenciones de seguridad y
+ * motivo de término del modelo.
+ */
+export class ConfidenceScoringService {
+  public assess(signals: ConfidenceSignals): ConfidenceAssessment {
+    const reasons: string[] = [];
+
+    const factors: ConfidenceFactors = {
+      extractionCoverage: this.extractionCoverage(signals, reasons),
+      catalogStrength: this.catalogStrength(signals, reasons),
+      catalogAgreement: this.catalogAgreement(signals, reasons),
+      outputIntegrity: this.outputIntegrity(signals, reasons),
+      safetyPenalty: this.safetyPenalty(signals, reasons),
+      finishPenalty: FINISH_REASON_PENALTY[signals.finishReason] ?? FINISH_REASON_PENALTY.unknown,
+    };
+
+    if (factors.finishPenalty < 1) {
+      reasons.push(`finish_reason_${signals.finishReason}`);
+    }
+
+    const base =
+      factors.extractionCoverage * FACTOR_WEIGHTS.extractionCoverage +
+      factors.catalogStrength * FACTOR_WEIGHTS.catalogStrength +
+      factors.catalogAgreement * FACTOR_WEIGHTS.catalogAgreement;
+
+    const score = this.round(
+      Math.min(0.95, Math.max(0.05, base * factors.outputIntegrity * factors.safetyPenalty * factors.finishPenalty))
+    );
+
+    return {
+      score,
+      level: this.levelFor(score),
+      factors: {
+        extractionCoverage: this.round(factors.extractionCoverage),
+        catalogStrength: this.round(factors.catalogStrength),
+        catalogAgreement: this.round(factors.catalogAgreement),
+        outputIntegrity: this.round(factors.outputIntegrity),
+        safetyPenalty: this.round(factors.safetyPenalty),
+        finishPenalty: factors.finishPenalty,
+      },
+      reasons,
+    };
+  }
+
+  public levelFor(score: number): ConfidenceLevel {
+    if (score < LOW_CONFIDENCE_THRESHOLD) return 'low';
+    if (score < HIGH_CONFIDENCE_THRESHOLD) return 'medium';
+    return 'high';
+  }
+
+  /**
+   * Calidad media de las coincidencias (los errores de escritura la reducen)
+   * escalada por cuántos síntomas se reconocieron
+   */
+  private extractionCoverage(signals: ConfidenceSignals, reasons: string[]): number {
+    if (signals.symptomMatches.length === 0) {
+      reasons.push('no_symptoms_extracted');
+      return NO_SYMPTOMS_COVERAGE;
+    }
+
+    const meanConfidence = signals.symptomMatches.reduce((sum, match) => sum + match.confidence, 0) / signals.symptomMatches.length;
+    const breadth = Math.min(1, 0.6 + 0.4 * (signals.symptomMatches.length - 1) / (SYMPTOMS_FOR_FULL_COVERAGE - 1));
+
+    if (meanConfidence < 0.9) {
+      reasons.push('fuzzy_symptom_matches');
+    }
+
+    return meanConfidence * breadth;
+  }
+
+  /**
+   * Respaldo del catálogo: registros recuperados y qué tan definido es el
+   * ranking diferencial (una candidata dominante da más respaldo)
+   */
+  private catalogStrength(signals: ConfidenceSignals, reasons: string[]): number {
+    if (signals.catalogMatches.length === 0) {
+      reasons.push('no_catalog_matches');
+      return NO_CATALOG_STRENGTH;
+    }
+
+    const topProbability = signals.differential[0]?.probability ?? 0;
+    if (topProbability < 0.3) {
+      reasons.push('weak_differential');
+    }
+
+    return 0.5 + 0.5 * topProbability;
+  }
+
+  /**
+   * Proporción de causas sugeridas por el modelo que corresponden a registros
+   * recuperados o a candidatas del diferencial, y uso de citas
+   */
+  private catalogAgreement(signals: ConfidenceSignals, reasons: string[]): number {
+    const known = new Set([
+      ...signals.catalogMatches.map(match => MedicalTextNormalizer.normalize(match.name)),
+      ...signals.differential.map(candidate => MedicalTextNormalizer.normalize(candidate.name)),
+    ]);
+
+    if (known.size === 0) {
+      return NEUTRAL_AGREEMENT;
+    }
+
+    const causes = signals.possibleCauses.map(cause => MedicalTextNormalizer.normalize(cause)).filter(Boolean);
+    const agreeing = causes.filter(cause =>
+      [...known].some(name => cause.includes(name) || name.includes(cause))
+    ).length;
+
+    const causeAgreement = causes.length > 0 ? agreeing / causes.length : NEUTRAL_AGREEMENT;
+    const citationAgreement = signals.citations.length > 0 ? 1 : 0.4;
+
+    if (causes.length > 0 && causeAgreement < 0.5) {
+      reasons.push('causes_disagree_with_catalog');
+    }
+    if (signals.citations.length === 0) {
+      reasons.push('no_citations');
+    }
+
+    return 0.6 * causeAgreement + 0.4 * citationAgreement;
+  }
+
+  private outputIntegrity(signals: ConfidenceSignals, reasons: string[]): number {
+    let integrity = signals.structured ? 1 : UNSTRUCTURED_PENALTY;
+
+    if (!signals.structured) reasons.push('unstructured_output');
+    if (signals.repairAttempts > 0) reasons.push('envelope_repaired');
+    if (signals.invalidCitations > 0) reasons.push('invalid_citations');
+
+    integrity *= Math.pow(REPAIR_PENALTY, signals.repairAttempts);
+    integrity *= Math.pow(INVALID_CITATION_PENALTY, signals.invalidCitations);
+
+    return integrity;
+  }
+
+  private safetyPenalty(signals: ConfidenceSignals, reasons: string[]): number {
+    return signals.safetyInterventions.reduce((penalty, intervention) => {
+      reasons.push(`safety_${intervention}`);
+      return penalty * (INTERVENTION_PENALTY[intervention] ?? DEFAULT_INTERVENTION_PENALTY);
+    }, 1);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Exportar instancia singleton
+export const confidenceScoring = new ConfidenceScoringService();
+export default confidenceScoring;
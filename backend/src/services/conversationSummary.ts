@@ -0,0 +1,248 @@
+import { logger } from '../utils/logger';
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import {
+  ChatMessage,
+  ConversationSummary,
+  Conversation,
+  ConversationSummaryEvent,
+} from '../types/medical';
+
+type RiskLevel = Conversation['riskLevel'];
+
+// Límites de cada sección para que el resumen no crezca sin control
+const MAX_TIMELINE_EVENTS = 20;
+const MAX_ADVICE = 8;
+const MAX_CONDITIONS = 5;
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'emergency'];
+
+const SUMMARY_TEXT = {
+  es: {
+    header: 'Resumen clínico de {count} mensajes anteriores ({from} a {to}).',
+    symptoms: 'Síntomas referidos',
+    since: 'desde',
+    timeline: 'Evolución',
+    highestRisk: 'Riesgo más alto registrado',
+    currentRisk: 'riesgo al cierre del resumen',
+    conditions: 'Causas posibles comentadas (no son diagnósticos)',
+    advice: 'Recomendaciones ya dadas',
+    none: 'sin síntomas del catálogo',
+    risk: { low: 'bajo', medium: 'medio', high: 'alto', emergency: 'emergencia' },
+    events: {
+      symptoms: 'Refiere {detail}',
+      risk: 'Riesgo {detail}',
+      emergency: 'Se detectó una emergencia y se indicó atención inmediata',
+      triage: 'Completó la entrevista guiada',
+    },
+  },
+  en: {
+    header: 'Clinical summary of {count} earlier messages ({from} to {to}).',
+    symptoms: 'Reported symptoms',
+    since: 'since',
+    timeline: 'Timeline',
+    highestRisk: 'Highest risk recorded',
+    currentRisk: 'risk at the end of the summary',
+    conditions: 'Possible causes discussed (not diagnoses)',
+    advice: 'Advice already given',
+    none: 'no catalog symptoms',
+    risk: { low: 'low', medium: 'medium', high: 'high', emergency: 'emergency' },
+    events: {
+      symptoms: 'Reports {detail}',
+      risk: 'Risk {detail}',
+      emergency: 'An emergency was detected and immediate care was advised',
+      triage: 'Completed the guided interview',
+    },
+  },
+};
+
+/**
+ * Resumen clínico acumulativo para consultas largas. Cuando la conversación
+ * supera MAX_CONVERSATION_LENGTH mensajes, los turnos más antiguos se
+ * comprimen en un resumen estructurado (síntomas, evolución, cambios de
+ * riesgo y recomendaciones dadas) y solo se conservan los recientes.
+ * El resumen se construye con los metadatos de cada mensaje, sin texto
+ * literal del paciente.
+ */
+export class ConversationSummaryService {
+  private readonly maxMessages: number;
+  private readonly keepRecent: number;
+
+  constructor() {
+    this.maxMessages = parseInt(process.env['MAX_CONVERSATION_LENGTH'] || '50');
+    // Turnos que se conservan completos tras compactar
+    this.keepRecent = Math.min(
+      parseInt(process.env['SUMMARY_KEEP_RECENT_MESSAGES'] || '10'),
+      Math.max(2, this.maxMessages - 2)
+    );
+  }
+
+  /**
+   * Compacta la conversación si supera el límite. Devuelve los mensajes a
+   * guardar y el resumen (el anterior si no hubo compactación).
+   */
+  public compact(
+    messages: ChatMessage[],
+    previous: ConversationSummary | null | undefined,
+    language: 'es' | 'en'
+  ): { messages: ChatMessage[]; summary: ConversationSummary | null; compacted: boolean } {
+    if (messages.length <= this.maxMessages) {
+      return { messages, summary: previous ?? null, compacted: false };
+    }
+
+    // Los turnos conservados deben empezar con un mensaje del usuario
+    let splitIndex = messages.length - this.keepRecent;
+    while (splitIndex < messages.length && messages[splitIndex]?.role !== 'user') {
+      splitIndex++;
+    }
+
+    const older = messages.slice(0, splitIndex);
+    const recent = messages.slice(splitIndex);
+    const summary = this.summarize(older, previous, language);
+
+    logger.info('Conversation summarized', {
+      summarizedMessages: older.length,
+      totalSummarized: summary.summarizedMessages,
+      keptMessages: recent.length,
+      version: summary.version,
+    });
+
+    return { messages: recent, summary, compacted: true };
+  }
+
+  /**
+   * Integra los mensajes en el resumen previo (o en uno nuevo)
+   */
+  public summarize(
+    messages: ChatMessage[],
+    previous: ConversationSummary | null | undefined,
+    language: 'es' | 'en'
+  ): ConversationSummary {
+    const labels = SUMMARY_TEXT[language];
+    const symptoms = new Map((previous?.symptoms || []).map(symptom => [MedicalTextNormalizer.normalize(symptom.name), { ...symptom }]));
+    const timeline: ConversationSummaryEvent[] = [...(previous?.timeline || [])];
+    const riskChanges = [...(previous?.riskChanges || [])];
+    const advice = [...(previous?.adviceGiven || [])];
+    const conditions = [...(previous?.suspectedConditions || [])];
+    let currentRisk: RiskLevel | null = previous?.currentRisk ?? null;
+    let highestRisk: RiskLevel = previous?.highestRisk ?? 'low';
+
+    messages.forEach(message => {
+      if (message.role !== 'assistant') return;
+
+      const at = new Date(message.timestamp).toISOString();
+      const metadata = message.metadata || {};
+
+      const newSymptoms = (metadata.symptomsExtracted || []).filter(name => {
+        const key = MedicalTextNormalizer.normalize(name);
+        const known = symptoms.get(key);
+        if (known) {
+          known.lastMentioned = at;
+          known.mentions++;
+          return false;
+        }
+        symptoms.set(key, { name, firstMentioned: at, lastMentioned: at, mentions: 1 });
+        return true;
+      });
+      if (newSymptoms.length > 0) {
+        timeline.push({ at, type: 'symptoms', detail: newSymptoms.join(', ') });
+      }
+
+      if (metadata.triageCompleted) {
+        timeline.push({ at, type: 'triage', detail: '' });
+      }
+
+      if (metadata.emergencyDetected) {
+        timeline.push({ at, type: 'emergency', detail: '' });
+      }
+
+      if (metadata.riskLevel && metadata.riskLevel !== currentRisk) {
+        riskChanges.push({ at, from: currentRisk, to: metadata.riskLevel });
+        timeline.push({
+          at,
+          type: 'risk',
+          detail: `${currentRisk ? labels.risk[currentRisk] : '-'} → ${labels.risk[metadata.riskLevel]}`,
+        });
+        currentRisk = metadata.riskLevel;
+      }
+      if (metadata.riskLevel && RISK_ORDER.indexOf(metadata.riskLevel) > RISK_ORDER.indexOf(highestRisk)) {
+        highestRisk = metadata.riskLevel;
+      }
+
+      (metadata.suggestedActions || []).forEach(action => {
+        if (!advice.includes(action)) advice.push(action);
+      });
+      (metadata.suspectedConditions || []).forEach(condition => {
+        if (!conditions.includes(condition)) conditions.push(condition);
+      });
+    });
+
+    const firstTimestamp = messages[0] ? new Date(messages[0].timestamp).toISOString() : new Date().toISOString();
+    const lastTimestamp = messages[messages.length - 1]
+      ? new Date(messages[messages.length - 1]!.timestamp).toISOString()
+      : firstTimestamp;
+
+    const summary: ConversationSummary = {
+      version: (previous?.version ?? 0) + 1,
+      language,
+      summarizedMessages: (previous?.summarizedMessages ?? 0) + messages.length,
+      coveredFrom: previous?.coveredFrom ?? firstTimestamp,
+      coveredTo: lastTimestamp,
+      symptoms: [...symptoms.values()],
+      timeline: timeline.slice(-MAX_TIMELINE_EVENTS),
+      riskChanges,
+      currentRisk,
+      highestRisk,
+      adviceGiven: advice.slice(-MAX_ADVICE),
+      suspectedConditions: conditions.slice(-MAX_CONDITIONS),
+      text: '',
+      updatedAt: new Date().toISOString(),
+    };
+    summary.text = this.render(summary);
+
+    return summary;
+  }
+
+  /**
+   * Texto del resumen para el prompt y para el historial
+   */
+  public render(summary: ConversationSummary): string {
+    const labels = SUMMARY_TEXT[summary.language];
+    const lines = [
+      labels.header
+        .replace('{count}', String(summary.summarizedMessages))
+        .replace('{from}', this.formatTime(summary.coveredFrom))
+        .replace('{to}', this.formatTime(summary.coveredTo)),
+      `${labels.symptoms}: ${summary.symptoms.length > 0
+        ? summary.symptoms.map(symptom => `${symptom.name} (${labels.since} ${this.formatTime(symptom.firstMentioned)})`).join(', ')
+        : labels.none}.`,
+    ];
+
+    if (summary.timeline.length > 0) {
+      lines.push(`${labels.timeline}:`);
+      summary.timeline.forEach(event => {
+        lines.push(`- ${this.formatTime(event.at)} ${labels.events[event.type].replace('{detail}', event.detail)}`);
+      });
+    }
+
+    lines.push(`${labels.highestRisk}: ${labels.risk[summary.highestRisk]}${summary.currentRisk ? ` (${labels.currentRisk}: ${labels.risk[summary.currentRisk]})` : ''}.`);
+
+    if (summary.suspectedConditions.length > 0) {
+      lines.push(`${labels.conditions}: ${summary.suspectedConditions.join(', ')}.`);
+    }
+
+    if (summary.adviceGiven.length > 0) {
+      lines.push(`${labels.advice}:`);
+      summary.adviceGiven.forEach(action => lines.push(`- ${action}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatTime(iso: string): string {
+    return iso.slice(0, 16).replace('T', ' ');
+  }
+}
+
+// Exportar instancia singleton
+export const conversationSummary = new ConversationSummaryService();
+export default conversationSummary;
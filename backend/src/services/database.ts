@@ -1,6 +1,24 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { MedicalEncryption } from '../utils/medicalUtils';
+import {
+  ConversationTokenUsage,
+  DailyTokenUsage,
+  ModelTokenUsage,
+  TokenUsage,
+  TokenUsageTotals,
+} from '../types/medical';
+
+// Columnas de Conversation más el consumo del turno, que se acumula en los totales.
+// Los campos Json no admiten null: se omiten o se usa Prisma.DbNull.
+export type ConversationSaveInput = Prisma.ConversationUncheckedCreateInput & {
+  tokenUsage?: TokenUsage;
+};
+
+/**
+ * Objetos del dominio (resumen, disposición, mensajes) como valor de un campo Json
+ */
+export const toJsonValue = (value: unknown): Prisma.InputJsonValue => value as Prisma.InputJsonValue;
 
 // Singleton pattern para Prisma Client
 class DatabaseService {
@@ -197,14 +215,18 @@ class DatabaseService {
   /**
    * Guarda una conversación de manera segura
    */
-  public async saveConversation(conversationData: any): Promise<any> {
+  public async saveConversation(conversationData: ConversationSaveInput): Promise<any> {
     try {
       // Encriptar mensajes sensibles si es necesario
-      const encryptedMessages = conversationData.messages.map((msg: any) => ({
+      const messages = conversationData.messages as unknown as Array<{ role: string; content: string }>;
+      const encryptedMessages = messages.map(msg => ({
         ...msg,
         content: msg.role === 'user' ? MedicalEncryption.encrypt(msg.content) : msg.content,
       }));
 
+      // Consumo del turno; se acumula sobre el total de la conversación
+      const tokenUsage: TokenUsage | undefined = conversationData.tokenUsage;
+
       return await this.prisma.conversation.upsert({
         where: {
           sessionId: conversationData.sessionId,
@@ -215,6 +237,18 @@ class DatabaseService {
           suggestedDiseases: conversationData.suggestedDiseases,
           riskLevel: conversationData.riskLevel,
           emergencyDetected: conversationData.emergencyDetected,
+          chatMode: conversationData.chatMode,
+          triageState: conversationData.triageState,
+          summary: conversationData.summary,
+          disposition: conversationData.disposition,
+          highestRiskLevel: conversationData.highestRiskLevel,
+          highestRiskAt: conversationData.highestRiskAt,
+          ...(tokenUsage && {
+            promptTokens: { increment: tokenUsage.promptTokens },
+            completionTokens: { increment: tokenUsage.completionTokens },
+            totalTokens: { increment: tokenUsage.totalTokens },
+            estimatedCost: { increment: tokenUsage.estimatedCost },
+          }),
           lastActivity: new Date(),
         },
         create: {
@@ -225,6 +259,16 @@ class DatabaseService {
           riskLevel: conversationData.riskLevel,
           emergencyDetected: conversationData.emergencyDetected,
           medicalAdviceGiven: conversationData.medicalAdviceGiven,
+          chatMode: conversationData.chatMode,
+          triageState: conversationData.triageState,
+          summary: conversationData.summary,
+          disposition: conversationData.disposition,
+          highestRiskLevel: conversationData.highestRiskLevel ?? conversationData.riskLevel,
+          highestRiskAt: conversationData.highestRiskAt,
+          promptTokens: tokenUsage?.promptTokens ?? 0,
+          completionTokens: tokenUsage?.completionTokens ?? 0,
+          totalTokens: tokenUsage?.totalTokens ?? 0,
+          estimatedCost: tokenUsage?.estimatedCost ?? 0,
           userAgent: conversationData.userAgent,
           ipAddress: conversationData.ipAddress,
           language: conversationData.language,
@@ -249,22 +293,54 @@ class DatabaseService {
 
       if (!conversation) return null;
 
-      // Desencriptar mensajes del usuario
-      const decryptedMessages = (conversation.messages as any[]).map((msg: any) => ({
-        ...msg,
-        content: msg.role === 'user' ? MedicalEncryption.decrypt(msg.content) : msg.content,
-      }));
-
-      return {
-        ...conversation,
-        messages: decryptedMessages,
-      };
+      return this.decryptConversation(conversation);
     } catch (error) {
       logger.error('Error getting conversation:', error);
       throw error;
     }
   }
 
+  /**
+   * Conversaciones con actividad desde `since`, más recientes primero y con
+   * los mensajes desencriptados (reproducción en el arnés de evaluación)
+   */
+  public async getRecentConversations(options: {
+    since: Date;
+    limit: number;
+    sessionIds?: string[];
+  }): Promise<any[]> {
+    try {
+      const conversations = await this.prisma.conversation.findMany({
+        where: {
+          lastActivity: { gte: options.since },
+          ...(options.sessionIds && options.sessionIds.length > 0 && { sessionId: { in: options.sessionIds } }),
+        },
+        orderBy: { lastActivity: 'desc' },
+        take: options.limit,
+      });
+
+      return conversations.map((conversation: any) => this.decryptConversation(conversation));
+    } catch (error) {
+      logger.error('Error getting recent conversations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Desencripta los mensajes del usuario
+   */
+  private decryptConversation(conversation: any): any {
+    const decryptedMessages = (conversation.messages as any[]).map((msg: any) => ({
+      ...msg,
+      content: msg.role === 'user' ? MedicalEncryption.decrypt(msg.content) : msg.content,
+    }));
+
+    return {
+      ...conversation,
+      messages: decryptedMessages,
+    };
+  }
+
   /**
    * Registra actividad del sistema
    */
@@ -272,11 +348,12 @@ class DatabaseService {
     sessionId?: string;
     action: string;
     details?: any;
-    userAgent?: string;
-    ipAddress?: string;
+    userAgent?: string | undefined;
+    ipAddress?: string | undefined;
     responseTime?: number;
-    aiModel?: string;
+    aiModel?: string | undefined;
     confidence?: number;
+    tokenUsage?: TokenUsage | undefined;
   }): Promise<void> {
     try {
       await this.prisma.activityLog.create({
@@ -289,6 +366,10 @@ class DatabaseService {
           responseTime: activityData.responseTime,
           aiModel: activityData.aiModel,
           confidence: activityData.confidence,
+          promptTokens: activityData.tokenUsage?.promptTokens,
+          completionTokens: activityData.tokenUsage?.completionTokens,
+          totalTokens: activityData.tokenUsage?.totalTokens,
+          estimatedCost: activityData.tokenUsage?.estimatedCost,
         },
       });
     } catch (error) {
@@ -361,6 +442,84 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Obtiene el catálogo clínico activo para recuperación de contexto
+   */
+  public async getCatalogSnapshot(): Promise<{
+    diseases: any[];
+    symptoms: any[];
+    treatments: any[];
+    emergencyInfo: any[];
+  }> {
+    try {
+      const [diseases, symptoms, treatments, emergencyInfo] = await Promise.all([
+        this.prisma.disease.findMany({
+          where: { isActive: true },
+          include: {
+            symptoms_rel: {
+              include: {
+                symptom: true,
+              },
+            },
+          },
+        }),
+        this.prisma.symptom.findMany({ where: { isActive: true } }),
+        this.prisma.treatment.findMany({ where: { isActive: true } }),
+        this.prisma.emergencyInfo.findMany({ where: { isActive: true } }),
+      ]);
+
+      return { diseases, symptoms, treatments, emergencyInfo };
+    } catch (error) {
+      logger.error('Error loading catalog snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene el valor de una clave de configuración del sistema
+   */
+  public async getSystemConfig<T = unknown>(key: string): Promise<T | null> {
+    try {
+      const config = await this.prisma.systemConfig.findUnique({
+        where: { key },
+      });
+
+      return config ? (config.value as T) : null;
+    } catch (error) {
+      logger.error('Error getting system config:', { key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Crea o actualiza una clave de configuración del sistema
+   */
+  public async setSystemConfig(
+    key: string,
+    value: Prisma.InputJsonValue,
+    category: string,
+    description?: string
+  ): Promise<any> {
+    try {
+      return await this.prisma.systemConfig.upsert({
+        where: { key },
+        update: {
+          value,
+          ...(description && { description }),
+        },
+        create: {
+          key,
+          value,
+          category,
+          ...(description && { description }),
+        },
+      });
+    } catch (error) {
+      logger.error('Error saving system config:', { key, error });
+      throw error;
+    }
+  }
+
   /**
    * Obtiene estadísticas del sistema
    */
@@ -405,23 +564,361 @@ class DatabaseService {
   }
 
   /**
-   * Limpia conversaciones antiguas (GDPR compliance)
+   * Suma el consumo de tokens registrado desde una fecha
    */
-  public async cleanupOldConversations(daysOld: number = 30): Promise<number> {
+  public async getTokenUsageTotals(since: Date): Promise<TokenUsageTotals> {
+    try {
+      const result = await this.prisma.activityLog.aggregate({
+        where: {
+          timestamp: { gte: since },
+          totalTokens: { not: null },
+        },
+        _count: { _all: true },
+        _sum: {
+          promptTokens: true,
+          completionTokens: true,
+          totalTokens: true,
+          estimatedCost: true,
+        },
+      });
+
+      return {
+        messages: result._count._all,
+        promptTokens: result._sum.promptTokens || 0,
+        completionTokens: result._sum.completionTokens || 0,
+        totalTokens: result._sum.totalTokens || 0,
+        estimatedCost: result._sum.estimatedCost || 0,
+      };
+    } catch (error) {
+      logger.error('Error getting token usage totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Consumo de tokens por día, por modelo y por conversación desde una fecha
+   */
+  public async getTokenUsageStats(since: Date, limit: number = 20): Promise<{
+    totals: TokenUsageTotals;
+    daily: DailyTokenUsage[];
+    byModel: ModelTokenUsage[];
+    conversations: ConversationTokenUsage[];
+  }> {
+    try {
+      const [totals, daily, byModel, conversations] = await Promise.all([
+        this.getTokenUsageTotals(since),
+        this.prisma.$queryRaw<Array<{
+          day: Date;
+          messages: number;
+          promptTokens: number;
+          completionTokens: number;
+          totalTokens: number;
+          estimatedCost: number;
+        }>>`
+          SELECT date_trunc('day', "timestamp") AS day,
+                 COUNT(*)::int AS messages,
+                 COALESCE(SUM("promptTokens"), 0)::int AS "promptTokens",
+                 COALESCE(SUM("completionTokens"), 0)::int AS "completionTokens",
+                 COALESCE(SUM("totalTokens"), 0)::int AS "totalTokens",
+                 COALESCE(SUM("estimatedCost"), 0)::float AS "estimatedCost"
+          FROM activity_logs
+          WHERE "totalTokens" IS NOT NULL AND "timestamp" >= ${since}
+          GROUP BY day
+          ORDER BY day ASC
+        `,
+        this.prisma.activityLog.groupBy({
+          by: ['aiModel'],
+          where: {
+            timestamp: { gte: since },
+            totalTokens: { not: null },
+          },
+          _count: { _all: true },
+          _sum: {
+            promptTokens: true,
+            completionTokens: true,
+            totalTokens: true,
+            estimatedCost: true,
+          },
+        }),
+        this.prisma.conversation.findMany({
+          where: {
+            lastActivity: { gte: since },
+            totalTokens: { gt: 0 },
+          },
+          orderBy: { estimatedCost: 'desc' },
+          take: limit,
+          select: {
+            sessionId: true,
+            riskLevel: true,
+            promptTokens: true,
+            completionTokens: true,
+            totalTokens: true,
+            estimatedCost: true,
+            createdAt: true,
+            lastActivity: true,
+          },
+        }),
+      ]);
+
+      return {
+        totals,
+        daily: daily.map((row: any) => ({
+          date: row.day.toISOString().slice(0, 10),
+          messages: row.messages,
+          promptTokens: row.promptTokens,
+          completionTokens: row.completionTokens,
+          totalTokens: row.totalTokens,
+          estimatedCost: row.estimatedCost,
+        })),
+        byModel: byModel.map((row: any) => ({
+          model: row.aiModel || 'unknown',
+          messages: row._count._all,
+          promptTokens: row._sum.promptTokens || 0,
+          completionTokens: row._sum.completionTokens || 0,
+          totalTokens: row._sum.totalTokens || 0,
+          estimatedCost: row._sum.estimatedCost || 0,
+        })),
+        conversations,
+      };
+    } catch (error) {
+      logger.error('Error getting token usage stats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Consumo de una conversación con el desglose por mensaje
+   */
+  public async getConversationTokenUsage(sessionId: string): Promise<{
+    conversation: ConversationTokenUsage;
+    messages: Array<{ timestamp: Date; aiModel: string | null; responseTime: number | null } & TokenUsage>;
+  } | null> {
+    try {
+      const conversation = await this.prisma.conversation.findUnique({
+        where: { sessionId },
+        select: {
+          sessionId: true,
+          riskLevel: true,
+          promptTokens: true,
+          completionTokens: true,
+          totalTokens: true,
+          estimatedCost: true,
+          createdAt: true,
+          lastActivity: true,
+        },
+      });
+
+      if (!conversation) {
+        return null;
+      }
+
+      const logs = await this.prisma.activityLog.findMany({
+        where: {
+          sessionId,
+          totalTokens: { not: null },
+        },
+        orderBy: { timestamp: 'asc' },
+        select: {
+          timestamp: true,
+          aiModel: true,
+          responseTime: true,
+          promptTokens: true,
+          completionTokens: true,
+          totalTokens: true,
+          estimatedCost: true,
+        },
+      });
+
+      return {
+        conversation,
+        messages: logs.map((log: any) => ({
+          timestamp: log.timestamp,
+          aiModel: log.aiModel,
+          responseTime: log.responseTime,
+          promptTokens: log.promptTokens || 0,
+          completionTokens: log.completionTokens || 0,
+          totalTokens: log.totalTokens || 0,
+          estimatedCost: log.estimatedCost || 0,
+        })),
+      };
+    } catch (error) {
+      logger.error('Error getting conversation token usage:', { sessionId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Guarda el snapshot de riesgo de un turno
+   */
+  public async saveRiskSnapshot(snapshotData: {
+    conversationId: string;
+    messageId: string;
+    riskLevel: string;
+    previousRiskLevel: string | null;
+    dispositionLevel: string | null;
+    escalation: string | null;
+    symptoms: string[];
+    ruleIds: string[];
+  }): Promise<void> {
+    try {
+      await this.prisma.riskSnapshot.create({ data: snapshotData });
+    } catch (error) {
+      logger.error('Error saving risk snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Trayectoria de riesgo de una conversación: nivel máximo y snapshots por turno
+   */
+  public async getRiskTrajectory(sessionId: string): Promise<any | null> {
+    try {
+      return await this.prisma.conversation.findUnique({
+        where: { sessionId },
+        select: {
+          sessionId: true,
+          riskLevel: true,
+          highestRiskLevel: true,
+          highestRiskAt: true,
+          emergencyDetected: true,
+          createdAt: true,
+          lastActivity: true,
+          riskSnapshots: {
+            orderBy: { createdAt: 'asc' },
+            select: {
+              messageId: true,
+              riskLevel: true,
+              previousRiskLevel: true,
+              dispositionLevel: true,
+              escalation: true,
+              symptoms: true,
+              ruleIds: true,
+              createdAt: true,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      logger.error('Error getting risk trajectory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Agrega a la cola de revisión una emergencia que solo marcó el modelo.
+   * El extracto del mensaje del paciente se guarda encriptado.
+   */
+  public async createEmergencyReview(reviewData: {
+    sessionId: string;
+    messageId: string;
+    messageExcerpt: string;
+    modelRedFlags: string[];
+    symptoms: string[];
+    ruleIds: string[];
+    model: string | null;
+  }): Promise<void> {
+    try {
+      await this.prisma.emergencyReview.create({
+        data: {
+          ...reviewData,
+          messageExcerpt: MedicalEncryption.encrypt(reviewData.messageExcerpt),
+        },
+      });
+    } catch (error) {
+      logger.error('Error creating emergency review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cola de revisión de emergencias, más antiguas primero
+   */
+  public async getEmergencyReviews(status: string, limit: number): Promise<any[]> {
+    try {
+      const reviews = await this.prisma.emergencyReview.findMany({
+        where: { status },
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+      });
+
+      return reviews.map((review: any) => this.decryptEmergencyReview(review));
+    } catch (error) {
+      logger.error('Error getting emergency reviews:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cierra una revisión: hueco de las reglas confirmado o descartado
+   */
+  public async resolveEmergencyReview(id: number, status: string, note?: string): Promise<any | null> {
+    try {
+      const existing = await this.prisma.emergencyReview.findUnique({ where: { id } });
+      if (!existing) return null;
+
+      const review = await this.prisma.emergencyReview.update({
+        where: { id },
+        data: {
+          status,
+          note: note ?? null,
+          reviewedAt: new Date(),
+        },
+      });
+
+      return this.decryptEmergencyReview(review);
+    } catch (error) {
+      logger.error('Error resolving emergency review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Desencripta el extracto del mensaje de una revisión
+   */
+  private decryptEmergencyReview(review: any): any {
+    return {
+      ...review,
+      messageExcerpt: review.messageExcerpt ? MedicalEncryption.decrypt(review.messageExcerpt) : null,
+    };
+  }
+
+  /**
+   * Limpia conversaciones antiguas (GDPR compliance). Las que alcanzaron
+   * emergencia en algún turno se conservan durante el plazo de retención
+   * médica aunque el último mensaje fuera benigno.
+   */
+  public async cleanupOldConversations(
+    daysOld: number = 30,
+    emergencyDaysOld: number = parseInt(process.env['DATA_RETENTION_DAYS'] || '2555')
+  ): Promise<number> {
     try {
       const cutoffDate = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000);
-      
-      const result = await this.prisma.conversation.deleteMany({
+      const emergencyCutoffDate = new Date(Date.now() - emergencyDaysOld * 24 * 60 * 60 * 1000);
+      const wasEmergency = [{ emergencyDetected: true }, { highestRiskLevel: 'emergency' }];
+
+      const routine = await this.prisma.conversation.deleteMany({
         where: {
           lastActivity: {
             lt: cutoffDate,
           },
-          emergencyDetected: false, // Mantener conversaciones de emergencia más tiempo
+          NOT: { OR: wasEmergency },
+        },
+      });
+
+      const emergency = await this.prisma.conversation.deleteMany({
+        where: {
+          lastActivity: {
+            lt: emergencyCutoffDate,
+          },
+          OR: wasEmergency,
         },
       });
 
-      logger.info(`Cleaned up ${result.count} old conversations older than ${daysOld} days`);
-      return result.count;
+      logger.info(
+        `Cleaned up ${routine.count} old conversations older than ${daysOld} days ` +
+        `and ${emergency.count} emergency conversations older than ${emergencyDaysOld} days`
+      );
+      return routine.count + emergency.count;
     } catch (error) {
       logger.error('Error cleaning up old conversations:', error);
       throw error;
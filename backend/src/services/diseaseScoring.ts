@@ -0,0 +1,186 @@
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { symptomExtractor } from './symptomExtractor';
+import { CatalogSnapshot } from './catalogRetrieval';
+import { DifferentialInput, DifferentialDiagnosis } from '../types/medical';
+
+// Probabilidad previa relativa según Disease.prevalence
+const PREVALENCE_PRIOR: Record<string, number> = {
+  very_common: 0.3,
+  common: 0.15,
+  uncommon: 0.03,
+  rare: 0.005,
+};
+const DEFAULT_PRIOR = 0.05;
+
+// P(síntoma | enfermedad) cuando el síntoma no está relacionado con la enfermedad
+const UNRELATED_LIKELIHOOD = 0.02;
+
+// Un síntoma no mencionado no es lo mismo que uno negado: se penaliza con este factor
+const UNMENTIONED_FACTOR = 0.3;
+
+// Valores para relaciones sin peso explícito (Disease.symptoms sin DiseaseSymptom)
+const DEFAULT_RELATION = { weight: 0.5, probability: 0.5 };
+
+// Síntomas con P(s|d) igual o mayor se listan como faltantes si no se reportan
+const KEY_SYMPTOM_PROBABILITY = 0.6;
+
+interface SymptomRelation {
+  name: string;
+  weight: number;
+  probability: number;
+}
+
+/**
+ * Ranking diferencial tipo Bayes ingenuo sobre las relaciones
+ * enfermedad–síntoma del catálogo. Considera síntomas presentes, negados
+ * y no mencionados, la prevalencia y la edad típica de cada enfermedad.
+ */
+export class DiseaseScoringService {
+  /**
+   * Ordena las enfermedades por probabilidad relativa. Solo se consideran
+   * candidatas las que explican al menos un síntoma presente.
+   */
+  public rank(diseases: any[], input: DifferentialInput, limit: number = 10): DifferentialDiagnosis[] {
+    const present = new Set(input.present.map(name => MedicalTextNormalizer.normalize(name)));
+    const absent = new Set((input.absent || []).map(name => MedicalTextNormalizer.normalize(name)));
+
+    if (present.size === 0) return [];
+
+    const candidates = diseases
+      .map(disease => this.score(disease, present, absent, input.age))
+      .filter((candidate): candidate is Omit<DifferentialDiagnosis, 'probability'> => candidate !== null);
+
+    if (candidates.length === 0) return [];
+
+    // Normalizar en espacio logarítmico para evitar desbordes
+    const maxScore = Math.max(...candidates.map(candidate => candidate.logScore));
+    const total = candidates.reduce((sum, candidate) => sum + Math.exp(candidate.logScore - maxScore), 0);
+
+    return candidates
+      .map(candidate => ({
+        ...candidate,
+        probability: Math.round((Math.exp(candidate.logScore - maxScore) / total) * 1000) / 1000,
+        logScore: Math.round(candidate.logScore * 1000) / 1000,
+      }))
+      .sort((a, b) => b.logScore - a.logScore)
+      .slice(0, limit);
+  }
+
+  /**
+   * Convierte síntomas en texto libre (p. ej. del formulario de búsqueda) en
+   * nombres canónicos del catálogo; los no reconocidos se conservan tal cual
+   */
+  public resolveSymptoms(inputs: string[], catalog: CatalogSnapshot | null): Required<Pick<DifferentialInput, 'present' | 'absent'>> {
+    const present = new Set<string>();
+    const absent = new Set<string>();
+
+    inputs.forEach(input => {
+      const extraction = symptomExtractor.extractWith(input, catalog);
+
+      if (extraction.symptoms.length === 0 && extraction.excluded.length === 0) {
+        present.add(input);
+        return;
+      }
+
+      extraction.symptoms.forEach(symptom => present.add(symptom.name));
+      extraction.excluded
+        .filter(symptom => symptom.negated)
+        .forEach(symptom => absent.add(symptom.name));
+    });
+
+    return { present: [...present], absent: [...absent] };
+  }
+
+  private score(
+    disease: any,
+    present: Set<string>,
+    absent: Set<string>,
+    age?: number
+  ): Omit<DifferentialDiagnosis, 'probability'> | null {
+    const relations = this.getRelations(disease);
+    const related = new Map(relations.map(relation => [MedicalTextNormalizer.normalize(relation.name), relation]));
+
+    const matchedSymptoms = relations
+      .filter(relation => present.has(MedicalTextNormalizer.normalize(relation.name)))
+      .map(relation => relation.name);
+
+    if (matchedSymptoms.length === 0) return null;
+
+    let logScore = Math.log(PREVALENCE_PRIOR[disease.prevalence] ?? DEFAULT_PRIOR) + Math.log(this.ageFactor(disease.typicalAge, age));
+
+    // Síntomas presentes: el peso escala la razón de verosimilitud frente a un síntoma no relacionado
+    present.forEach(name => {
+      const relation = related.get(name);
+      if (relation) {
+        logScore += relation.weight * Math.log(relation.probability / UNRELATED_LIKELIHOOD);
+      }
+    });
+
+    // Síntomas relacionados ausentes: negados explícitamente o simplemente no mencionados
+    related.forEach((relation, name) => {
+      if (present.has(name)) return;
+
+      logScore += absent.has(name)
+        ? relation.weight * Math.log(1 - Math.min(relation.probability, 0.95))
+        : Math.log(1 - UNMENTIONED_FACTOR * relation.probability);
+    });
+
+    return {
+      diseaseId: disease.id,
+      name: disease.name,
+      logScore,
+      matchedSymptoms,
+      missingSymptoms: relations
+        .filter(relation =>
+          relation.probability >= KEY_SYMPTOM_PROBABILITY &&
+          !present.has(MedicalTextNormalizer.normalize(relation.name))
+        )
+        .map(relation => relation.name),
+      severityLevel: disease.severityLevel,
+    };
+  }
+
+  /**
+   * Relaciones ponderadas de DiseaseSymptom; si no existen se usa Disease.symptoms
+   */
+  private getRelations(disease: any): SymptomRelation[] {
+    const weighted: SymptomRelation[] = (disease.symptoms_rel || [])
+      .filter((rel: any) => rel.symptom?.name)
+      .map((rel: any) => ({
+        name: rel.symptom.name,
+        weight: rel.weight ?? DEFAULT_RELATION.weight,
+        probability: rel.probability ?? DEFAULT_RELATION.probability,
+      }));
+
+    const known = new Set(weighted.map(relation => MedicalTextNormalizer.normalize(relation.name)));
+    const fallback = (disease.symptoms || [])
+      .filter((name: string) => !known.has(MedicalTextNormalizer.normalize(name)))
+      .map((name: string) => ({ name, ...DEFAULT_RELATION }));
+
+    return [...weighted, ...fallback];
+  }
+
+  /**
+   * Ajuste por edad según Disease.typicalAge ("30-60", "60+", "15-30_50-70", "all_ages")
+   */
+  private ageFactor(typicalAge: string | null | undefined, age?: number): number {
+    if (age === undefined || !typicalAge || typicalAge === 'all_ages') return 1;
+
+    const ranges = typicalAge.split('_').map(range => {
+      const [min, max] = range.replace('+', '-200').split('-').map(Number);
+      return { min: min ?? 0, max: max ?? min ?? 200 };
+    }).filter(range => !Number.isNaN(range.min) && !Number.isNaN(range.max));
+
+    if (ranges.length === 0) return 1;
+
+    const distance = Math.min(...ranges.map(range =>
+      age < range.min ? range.min - age : age > range.max ? age - range.max : 0
+    ));
+
+    return distance === 0 ? 1 : distance <= 10 ? 0.75 : 0.4;
+  }
+}
+
+// Exportar instancia singleton
+export const diseaseScoring = new DiseaseScoringService();
+export default diseaseScoring;
@@ -0,0 +1,303 @@
+import { MedicalTextNormalizer, MedicalTimeUtils } from '../utils/medicalUtils';
+import {
+  Disposition,
+  DispositionFactor,
+  DispositionLevel,
+  DispositionReason,
+  EmergencyEvaluation,
+  PopulationProfile,
+  PopulationSummary,
+  RedFlagCheck,
+  ResponseUrgency,
+} from '../types/medical';
+
+type Localized = { es: string; en: string };
+
+// Datos de la consulta con los que se decide la disposición
+export interface DispositionInput {
+  evaluation: EmergencyEvaluation;
+  emergencyDetected?: boolean;
+  urgency?: ResponseUrgency; // Urgencia validada de la respuesta
+  symptoms: string[]; // Nombres canónicos de Symptom
+  message?: string; // Para la duración mencionada en texto libre
+  painLevel?: number; // Escala 1-10
+  duration?: string; // Valores de validateSymptomDuration
+  profile?: PopulationProfile;
+  population?: PopulationSummary | null;
+  medicalHistory?: string[];
+  intakeRedFlags?: string[]; // Señales marcadas en la entrevista guiada
+  redFlagChecks?: RedFlagCheck[]; // Lista de señales de alarma de los síntomas del catálogo
+}
+
+const LEVEL_ORDER: DispositionLevel[] = ['self_care', 'primary_care_72h', 'same_day', 'urgent_care', 'emergency'];
+
+const URGENCY_ORDER: ResponseUrgency[] = ['low', 'medium', 'high', 'emergency'];
+
+// Urgencia mínima de la respuesta para cada disposición
+const LEVEL_URGENCY: Record<DispositionLevel, ResponseUrgency> = {
+  self_care: 'low',
+  primary_care_72h: 'medium',
+  same_day: 'high',
+  urgent_care: 'high',
+  emergency: 'emergency',
+};
+
+const URGENCY_LEVEL: Record<ResponseUrgency, DispositionLevel> = {
+  low: 'self_care',
+  medium: 'primary_care_72h',
+  high: 'same_day',
+  emergency: 'emergency',
+};
+
+const NO_RED_FLAGS = 'none';
+
+/**
+ * Antecedentes que aumentan el riesgo de complicaciones ante síntomas
+ * digestivos; se comparan sobre texto normalizado
+ */
+const HIGH_RISK_CONDITIONS: Array<{ pattern: RegExp; label: Localized }> = [
+  { pattern: /\b(diabet\w*)\b/, label: { es: 'diabetes', en: 'diabetes' } },
+  { pattern: /\b(inmunosupr\w*|inmunodeprimid\w*|vih|sida|immunosuppress\w*|immunocompromised|hiv|aids)\b/, label: { es: 'inmunosupresión', en: 'immunosuppression' } },
+  { pattern: /\b(cancer|quimioterapia|chemotherapy|oncolog\w*)\b/, label: { es: 'cáncer o quimioterapia', en: 'cancer or chemotherapy' } },
+  { pattern: /\b(trasplant\w*|transplant\w*)\b/, label: { es: 'trasplante', en: 'transplant' } },
+  { pattern: /\b(cirrosis|insuficiencia hepatica|cirrhosis|liver failure)\b/, label: { es: 'enfermedad hepática', en: 'liver disease' } },
+  { pattern: /\b(insuficiencia renal|enfermedad renal|dialisis|kidney (disease|failure)|dialysis)\b/, label: { es: 'enfermedad renal', en: 'kidney disease' } },
+  { pattern: /\b(insuficiencia cardiaca|cardiopatia|heart failure|heart disease)\b/, label: { es: 'enfermedad cardiaca', en: 'heart disease' } },
+  { pattern: /\b(crohn|colitis ulcerosa|enfermedad inflamatoria intestinal|ulcerative colitis|inflammatory bowel disease)\b/, label: { es: 'enfermedad inflamatoria intestinal', en: 'inflammatory bowel disease' } },
+  { pattern: /\b(anticoagulad\w*|anticoagulant\w*|warfarina|warfarin)\b/, label: { es: 'tratamiento anticoagulante', en: 'anticoagulant therapy' } },
+];
+
+const LEVEL_TEXT: Record<DispositionLevel, { careSetting: Localized; timeframe: Localized; action: Localized }> = {
+  self_care: {
+    careSetting: { es: 'Cuidados en casa', en: 'Self-care at home' },
+    timeframe: { es: 'Vigile sus síntomas; consulte si empeoran o no mejoran en unos días', en: 'Monitor your symptoms; see a doctor if they worsen or do not improve in a few days' },
+    action: { es: 'Vigile la evolución de sus síntomas en casa', en: 'Monitor your symptoms at home' },
+  },
+  primary_care_72h: {
+    careSetting: { es: 'Consulta con su médico de atención primaria', en: 'Primary care appointment' },
+    timeframe: { es: 'En las próximas 72 horas', en: 'Within the next 72 hours' },
+    action: { es: 'Pida una cita con su médico en los próximos 3 días', en: 'Book an appointment with your doctor within the next 3 days' },
+  },
+  same_day: {
+    careSetting: { es: 'Consulta médica el mismo día', en: 'Same-day medical visit' },
+    timeframe: { es: 'Hoy', en: 'Today' },
+    action: { es: 'Consulte hoy a un médico', en: 'See a doctor today' },
+  },
+  urgent_care: {
+    careSetting: { es: 'Servicio de urgencias o atención urgente', en: 'Urgent care' },
+    timeframe: { es: 'En las próximas horas', en: 'Within the next few hours' },
+    action: { es: 'Acuda a un servicio de urgencias en las próximas horas', en: 'Go to urgent care within the next few hours' },
+  },
+  emergency: {
+    careSetting: { es: 'Urgencias hospitalarias o 911', en: 'Emergency department or 911' },
+    timeframe: { es: 'De inmediato', en: 'Immediately' },
+    action: { es: 'Llame al 911 o acuda a urgencias de inmediato', en: 'Call 911 or go to the emergency department now' },
+  },
+};
+
+const REASON_TEXT = {
+  es: {
+    emergency: 'Señales de alarma que requieren atención inmediata: {signals}.',
+    urgentSignal: 'Señal de alarma que requiere valoración urgente: {signals}.',
+    warningSignal: 'Síntoma que requiere estudio médico: {signals}.',
+    intakeRedFlags: 'Se marcaron señales de alarma en la entrevista guiada.',
+    symptomRedFlags: 'Señales de alarma confirmadas: {flags}.',
+    severityIndicators: 'Indicadores de gravedad: {flags}.',
+    modelUrgency: 'La valoración de la consulta indica urgencia {urgency}.',
+    severePain: 'Dolor intenso ({pain}/10).',
+    acuteSeverePain: 'Dolor fuerte ({pain}/10) de inicio reciente.',
+    moderatePain: 'Dolor moderado ({pain}/10).',
+    persistent: 'Los síntomas llevan más de dos semanas.',
+    infant: 'En lactantes los síntomas digestivos requieren valoración médica el mismo día.',
+    vulnerable: 'Por {factor}, la consulta no debe esperar varios días.',
+    vulnerableFloor: 'Por {factor}, los síntomas deben valorarse con un médico.',
+    none: 'Síntomas leves sin señales de alarma ni factores de riesgo.',
+    geriatric: 'la edad (65 años o más)',
+    pregnancy: 'el embarazo',
+    urgency: { low: 'baja', medium: 'moderada', high: 'alta', emergency: 'de emergencia' },
+  },
+  en: {
+    emergency: 'Warning signs that need immediate care: {signals}.',
+    urgentSignal: 'Warning sign that needs urgent evaluation: {signals}.',
+    warningSignal: 'Symptom that needs a medical work-up: {signals}.',
+    intakeRedFlags: 'Warning signs were reported in the guided interview.',
+    symptomRedFlags: 'Confirmed warning signs: {flags}.',
+    severityIndicators: 'Severity indicators: {flags}.',
+    modelUrgency: 'The consultation assessment indicates {urgency} urgency.',
+    severePain: 'Severe pain ({pain}/10).',
+    acuteSeverePain: 'Strong pain ({pain}/10) that started recently.',
+    moderatePain: 'Moderate pain ({pain}/10).',
+    persistent: 'Symptoms have lasted more than two weeks.',
+    infant: 'In infants, digestive symptoms need a medical evaluation the same day.',
+    vulnerable: 'Because of {factor}, the visit should not wait several days.',
+    vulnerableFloor: 'Because of {factor}, the symptoms should be checked by a doctor.',
+    none: 'Mild symptoms with no warning signs or risk factors.',
+    geriatric: 'age (65 or older)',
+    pregnancy: 'pregnancy',
+    urgency: { low: 'low', medium: 'moderate', high: 'high', emergency: 'emergency' },
+  },
+};
+
+/**
+ * Motor de disposición del triaje: combina señales de alarma, urgencia de la
+ * respuesta, dolor, duración, grupo de edad, embarazo y antecedentes en un
+ * destino estándar (cuidados en casa, atención primaria en 72 h, consulta el
+ * mismo día, urgencias o 911). Cada factor impone un nivel mínimo; la
+ * disposición es el más alto y conserva los motivos.
+ */
+export class DispositionEngine {
+  public assess(input: DispositionInput, language: 'es' | 'en'): Disposition {
+    const text = REASON_TEXT[language];
+    const reasons: DispositionReason[] = [];
+    const add = (factor: DispositionFactor, level: DispositionLevel, message: string) =>
+      reasons.push({ factor, level, message });
+
+    // Señales de alarma de las reglas (incluidas las propias de la población)
+    const signals = (tier: string) => [...new Set(input.evaluation.matches
+      .filter(match => match.tier === tier)
+      .map(match => `"${match.matchedText}"`))].join(', ');
+
+    if (input.emergencyDetected || input.evaluation.isEmergency) {
+      add('emergency_rule', 'emergency', text.emergency.replace('{signals}', signals('critical') || '-'));
+    }
+    if (signals('urgent')) {
+      add('red_flag', 'urgent_care', text.urgentSignal.replace('{signals}', signals('urgent')));
+    }
+    if (signals('warning')) {
+      add('red_flag', 'primary_care_72h', text.warningSignal.replace('{signals}', signals('warning')));
+    }
+    if ((input.intakeRedFlags || []).some(flag => flag !== NO_RED_FLAGS)) {
+      add('red_flag', 'urgent_care', text.intakeRedFlags);
+    }
+
+    // Señales del catálogo confirmadas por el paciente (mencionadas o respondidas con "sí")
+    const confirmed = (input.redFlagChecks || []).filter(check => check.status === 'present');
+    LEVEL_ORDER.forEach(level => {
+      const flags = (kind: RedFlagCheck['kind']) => confirmed
+        .filter(check => check.kind === kind && check.level === level)
+        .map(check => check.label.toLowerCase())
+        .join(', ');
+      if (flags('red_flag')) {
+        add('red_flag', level, text.symptomRedFlags.replace('{flags}', flags('red_flag')));
+      }
+      if (flags('severity_indicator')) {
+        add('red_flag', level, text.severityIndicators.replace('{flags}', flags('severity_indicator')));
+      }
+    });
+
+    if (input.urgency && input.urgency !== 'low') {
+      add('model_urgency', URGENCY_LEVEL[input.urgency], text.modelUrgency.replace('{urgency}', text.urgency[input.urgency]));
+    }
+
+    (input.population?.adjustments || [])
+      .filter(adjustment => adjustment.type === 'urgency_raised')
+      .forEach(adjustment => add('population', URGENCY_LEVEL[adjustment.urgency], adjustment.reason));
+
+    // Dolor y duración: la duración corta no eleva por sí sola la disposición
+    const duration = MedicalTimeUtils.getDurationCategory(
+      input.duration || MedicalTimeUtils.extractDuration(input.message || '') || ''
+    );
+    const pain = input.painLevel;
+    if (pain !== undefined) {
+      if (pain >= 8) {
+        add('pain', 'urgent_care', text.severePain.replace('{pain}', String(pain)));
+      } else if (pain >= 7 && duration === 'acute') {
+        add('pain', 'urgent_care', text.acuteSeverePain.replace('{pain}', String(pain)));
+      } else if (pain >= 6) {
+        add('pain', 'same_day', text.moderatePain.replace('{pain}', String(pain)));
+      } else if (pain >= 4) {
+        add('pain', 'primary_care_72h', text.moderatePain.replace('{pain}', String(pain)));
+      }
+    }
+    if (duration === 'persistent') {
+      add('duration', 'primary_care_72h', text.persistent);
+    }
+
+    // Grupos vulnerables: sin cuidados en casa y sin esperar 72 horas
+    const vulnerable = this.vulnerableFactors(input, language);
+    const hasSymptoms = input.symptoms.length > 0 || reasons.length > 0;
+
+    if (input.profile?.ageCategory === 'infant' && hasSymptoms) {
+      add('age_group', 'same_day', text.infant);
+    }
+
+    const current = this.highest(reasons);
+    vulnerable.forEach(({ factor, label }) => {
+      if (current === 'primary_care_72h') {
+        add(factor, 'same_day', text.vulnerable.replace('{factor}', label));
+      } else if (current === 'self_care' && hasSymptoms) {
+        add(factor, 'primary_care_72h', text.vulnerableFloor.replace('{factor}', label));
+      }
+    });
+
+    const level = this.highest(reasons);
+    const rationale = reasons.length > 0
+      ? [...reasons].sort((a, b) => LEVEL_ORDER.indexOf(b.level) - LEVEL_ORDER.indexOf(a.level))
+      : [{ factor: 'model_urgency' as const, level, message: text.none }];
+
+    return {
+      level,
+      careSetting: LEVEL_TEXT[level].careSetting[language],
+      timeframe: LEVEL_TEXT[level].timeframe[language],
+      rationale,
+      assessedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Eleva la urgencia de la respuesta al mínimo de la disposición y antepone
+   * la acción correspondiente (la respuesta de emergencia tiene sus propias acciones)
+   */
+  public apply(
+    response: { message: string; urgency: ResponseUrgency; actions: string[] },
+    disposition: Disposition,
+    language: 'es' | 'en'
+  ): { message: string; urgency: ResponseUrgency; actions: string[] } {
+    const minimum = LEVEL_URGENCY[disposition.level];
+    const urgency = URGENCY_ORDER.indexOf(minimum) > URGENCY_ORDER.indexOf(response.urgency)
+      ? minimum
+      : response.urgency;
+
+    const action = LEVEL_TEXT[disposition.level].action[language];
+    const actions = disposition.level === 'self_care' || response.actions.includes(action)
+      ? response.actions
+      : [action, ...response.actions];
+
+    return { ...response, urgency, actions };
+  }
+
+  /**
+   * Nivel de riesgo de la conversación equivalente a la disposición
+   */
+  public toRiskLevel(level: DispositionLevel): 'low' | 'medium' | 'high' | 'emergency' {
+    return LEVEL_URGENCY[level];
+  }
+
+  private highest(reasons: DispositionReason[]): DispositionLevel {
+    return reasons.reduce<DispositionLevel>(
+      (current, reason) => LEVEL_ORDER.indexOf(reason.level) > LEVEL_ORDER.indexOf(current) ? reason.level : current,
+      'self_care'
+    );
+  }
+
+  /**
+   * Adulto mayor, embarazo y antecedentes de riesgo
+   */
+  private vulnerableFactors(input: DispositionInput, language: 'es' | 'en'): Array<{ factor: DispositionFactor; label: string }> {
+    const text = REASON_TEXT[language];
+    const history = (input.medicalHistory || []).map(entry => MedicalTextNormalizer.normalize(entry));
+    const conditions = HIGH_RISK_CONDITIONS
+      .filter(({ pattern }) => history.some(entry => pattern.test(entry)))
+      .map(({ label }) => label[language]);
+
+    return [
+      ...(input.profile?.ageCategory === 'geriatric' ? [{ factor: 'age_group' as const, label: text.geriatric }] : []),
+      ...(input.profile?.pregnant ? [{ factor: 'pregnancy' as const, label: text.pregnancy }] : []),
+      ...(conditions.length > 0 ? [{ factor: 'comorbidity' as const, label: conditions.join(', ') }] : []),
+    ];
+  }
+}
+
+// Exportar instancia singleton
+export const dispositionEngine = new DispositionEngine();
+export default dispositionEngine;
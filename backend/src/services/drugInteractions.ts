@@ -0,0 +1,678 @@
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import {
+  ChatMessage,
+  DrugInteraction,
+  DrugInteractionCheck,
+  DrugInteractionSeverity,
+  RecognizedMedication,
+  ResponseUrgency,
+} from '../types/medical';
+
+type Localized = { es: string; en: string };
+
+type DrugClass =
+  | 'ppi'
+  | 'nsaid'
+  | 'salicylate'
+  | 'antiplatelet'
+  | 'anticoagulant'
+  | 'vitamin_k_antagonist'
+  | 'ssri'
+  | 'corticosteroid'
+  | 'antacid'
+  | 'quinolone'
+  | 'qt_prolonging';
+
+// Principio activo con sus nombres genéricos y comerciales (es/en)
+interface IngredientEntry {
+  name: string;
+  aliases: string[];
+  classes: DrugClass[];
+}
+
+// Cada lado es un principio activo o un grupo terapéutico ("class:nsaid")
+interface InteractionRule {
+  id: string;
+  left: string[];
+  right: string[];
+  severity: DrugInteractionSeverity;
+  description: Localized;
+  recommendation: Localized;
+}
+
+interface DuplicationRule {
+  severity: DrugInteractionSeverity;
+  description: Localized;
+  recommendation: Localized;
+}
+
+// Tratamiento candidato tal como está en el catálogo (Treatment)
+export interface CandidateTreatment {
+  id?: number;
+  name: string;
+  activeIngredient?: string | null;
+  contraindications?: string[];
+}
+
+const SEVERITY_ORDER: DrugInteractionSeverity[] = ['minor', 'moderate', 'major', 'contraindicated'];
+
+const SEVERITY_URGENCY: Record<DrugInteractionSeverity, ResponseUrgency> = {
+  contraindicated: 'medium',
+  major: 'medium',
+  moderate: 'low',
+  minor: 'low',
+};
+
+const INGREDIENTS: IngredientEntry[] = [
+  { name: 'omeprazol', aliases: ['omeprazol', 'omeprazole', 'prilosec', 'losec'], classes: ['ppi'] },
+  { name: 'esomeprazol', aliases: ['esomeprazol', 'esomeprazole', 'nexium'], classes: ['ppi'] },
+  { name: 'lansoprazol', aliases: ['lansoprazol', 'lansoprazole', 'prevacid', 'ogastro'], classes: ['ppi'] },
+  { name: 'pantoprazol', aliases: ['pantoprazol', 'pantoprazole', 'protonix'], classes: ['ppi'] },
+  { name: 'rabeprazol', aliases: ['rabeprazol', 'rabeprazole', 'pariet'], classes: ['ppi'] },
+  { name: 'clopidogrel', aliases: ['clopidogrel', 'plavix'], classes: ['antiplatelet'] },
+  { name: 'aspirina', aliases: ['aspirina', 'aspirin', 'acido acetilsalicilico', 'acetylsalicylic acid'], classes: ['salicylate', 'antiplatelet'] },
+  { name: 'subsalicilato de bismuto', aliases: ['subsalicilato de bismuto', 'bismuth subsalicylate', 'pepto bismol', 'peptobismol', 'bismuto', 'bismuth'], classes: ['salicylate'] },
+  { name: 'ibuprofeno', aliases: ['ibuprofeno', 'ibuprofen', 'advil', 'motrin'], classes: ['nsaid'] },
+  { name: 'naproxeno', aliases: ['naproxeno', 'naproxen', 'aleve', 'flanax'], classes: ['nsaid'] },
+  { name: 'diclofenaco', aliases: ['diclofenaco', 'diclofenac', 'voltaren'], classes: ['nsaid'] },
+  { name: 'ketorolaco', aliases: ['ketorolaco', 'ketorolac'], classes: ['nsaid'] },
+  { name: 'warfarina', aliases: ['warfarina', 'warfarin', 'coumadin'], classes: ['anticoagulant', 'vitamin_k_antagonist'] },
+  { name: 'acenocumarol', aliases: ['acenocumarol', 'sintrom'], classes: ['anticoagulant', 'vitamin_k_antagonist'] },
+  { name: 'rivaroxabán', aliases: ['rivaroxaban', 'xarelto'], classes: ['anticoagulant'] },
+  { name: 'apixabán', aliases: ['apixaban', 'eliquis'], classes: ['anticoagulant'] },
+  { name: 'dabigatrán', aliases: ['dabigatran', 'pradaxa'], classes: ['anticoagulant'] },
+  { name: 'enoxaparina', aliases: ['enoxaparina', 'enoxaparin', 'clexane', 'heparina', 'heparin'], classes: ['anticoagulant'] },
+  { name: 'metotrexato', aliases: ['metotrexato', 'methotrexate'], classes: [] },
+  { name: 'litio', aliases: ['litio', 'lithium', 'carbonato de litio'], classes: [] },
+  { name: 'levotiroxina', aliases: ['levotiroxina', 'levothyroxine', 'eutirox', 'synthroid'], classes: [] },
+  { name: 'ciprofloxacino', aliases: ['ciprofloxacino', 'ciprofloxacina', 'ciprofloxacin', 'cipro'], classes: ['quinolone'] },
+  { name: 'levofloxacino', aliases: ['levofloxacino', 'levofloxacin'], classes: ['quinolone', 'qt_prolonging'] },
+  { name: 'antiácidos', aliases: ['antiacido', 'antiacidos', 'antacid', 'antacids', 'hidroxido de aluminio', 'hidroxido de magnesio', 'carbonato de calcio', 'maalox', 'melox', 'tums'], classes: ['antacid'] },
+  { name: 'sucralfato', aliases: ['sucralfato', 'sucralfate'], classes: [] },
+  { name: 'sertralina', aliases: ['sertralina', 'sertraline', 'zoloft'], classes: ['ssri'] },
+  { name: 'fluoxetina', aliases: ['fluoxetina', 'fluoxetine', 'prozac'], classes: ['ssri'] },
+  { name: 'paroxetina', aliases: ['paroxetina', 'paroxetine', 'paxil'], classes: ['ssri'] },
+  { name: 'escitalopram', aliases: ['escitalopram', 'lexapro'], classes: ['ssri', 'qt_prolonging'] },
+  { name: 'citalopram', aliases: ['citalopram', 'celexa'], classes: ['ssri', 'qt_prolonging'] },
+  { name: 'prednisona', aliases: ['prednisona', 'prednisone', 'prednisolona', 'prednisolone'], classes: ['corticosteroid'] },
+  { name: 'dexametasona', aliases: ['dexametasona', 'dexamethasone'], classes: ['corticosteroid'] },
+  { name: 'domperidona', aliases: ['domperidona', 'domperidone', 'motilium'], classes: ['qt_prolonging'] },
+  { name: 'ondansetrón', aliases: ['ondansetron', 'zofran'], classes: ['qt_prolonging'] },
+  { name: 'metoclopramida', aliases: ['metoclopramida', 'metoclopramide', 'primperan', 'reglan'], classes: [] },
+  { name: 'levodopa', aliases: ['levodopa', 'sinemet'], classes: [] },
+  { name: 'claritromicina', aliases: ['claritromicina', 'clarithromycin', 'klaricid'], classes: ['qt_prolonging'] },
+  { name: 'amiodarona', aliases: ['amiodarona', 'amiodarone'], classes: ['qt_prolonging'] },
+  { name: 'simvastatina', aliases: ['simvastatina', 'simvastatin'], classes: [] },
+  { name: 'loperamida', aliases: ['loperamida', 'loperamide', 'imodium'], classes: [] },
+];
+
+/**
+ * Base local de interacciones con relevancia gastrointestinal. Las reglas
+ * por grupo terapéutico se aplican a todos sus principios activos.
+ */
+const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'ppi-clopidogrel',
+    left: ['omeprazol', 'esomeprazol'],
+    right: ['clopidogrel'],
+    severity: 'major',
+    description: {
+      es: 'El omeprazol y el esomeprazol reducen la activación del clopidogrel y pueden disminuir su protección contra infartos y trombosis.',
+      en: 'Omeprazole and esomeprazole reduce clopidogrel activation and may lower its protection against heart attack and thrombosis.',
+    },
+    recommendation: {
+      es: 'No suspenda el clopidogrel; consulte a su médico, que puede preferir otro protector gástrico como pantoprazol.',
+      en: 'Do not stop clopidogrel; ask your doctor, who may prefer another stomach protector such as pantoprazole.',
+    },
+  },
+  {
+    id: 'nsaid-anticoagulant',
+    left: ['class:nsaid', 'class:salicylate'],
+    right: ['class:anticoagulant'],
+    severity: 'major',
+    description: {
+      es: 'Los antiinflamatorios y salicilatos junto con anticoagulantes aumentan mucho el riesgo de sangrado digestivo.',
+      en: 'Anti-inflammatories and salicylates together with anticoagulants greatly increase the risk of gastrointestinal bleeding.',
+    },
+    recommendation: {
+      es: 'Evite esta combinación salvo indicación médica; para el dolor pregunte por alternativas como paracetamol.',
+      en: 'Avoid this combination unless prescribed; ask about alternatives such as acetaminophen for pain.',
+    },
+  },
+  {
+    id: 'nsaid-antiplatelet',
+    left: ['class:nsaid'],
+    right: ['class:antiplatelet'],
+    severity: 'major',
+    description: {
+      es: 'Un antiinflamatorio junto con un antiagregante aumenta el riesgo de úlcera y sangrado digestivo.',
+      en: 'An anti-inflammatory together with an antiplatelet drug increases the risk of ulcers and gastrointestinal bleeding.',
+    },
+    recommendation: {
+      es: 'Consulte a su médico antes de usar antiinflamatorios mientras toma antiagregantes.',
+      en: 'Talk to your doctor before using anti-inflammatories while taking antiplatelet drugs.',
+    },
+  },
+  {
+    id: 'bismuth-salicylate',
+    left: ['subsalicilato de bismuto'],
+    right: ['aspirina'],
+    severity: 'major',
+    description: {
+      es: 'El subsalicilato de bismuto contiene salicilato; junto con aspirina suma dosis y puede causar toxicidad y sangrado.',
+      en: 'Bismuth subsalicylate contains salicylate; with aspirin the doses add up and can cause toxicity and bleeding.',
+    },
+    recommendation: {
+      es: 'No los combine; pregunte a su farmacéutico por otro antidiarreico o protector.',
+      en: 'Do not combine them; ask your pharmacist for another antidiarrheal or stomach protector.',
+    },
+  },
+  {
+    id: 'nsaid-ssri',
+    left: ['class:nsaid', 'aspirina'],
+    right: ['class:ssri'],
+    severity: 'moderate',
+    description: {
+      es: 'Los antidepresivos ISRS junto con antiinflamatorios aumentan el riesgo de sangrado digestivo.',
+      en: 'SSRI antidepressants together with anti-inflammatories increase the risk of gastrointestinal bleeding.',
+    },
+    recommendation: {
+      es: 'Use el antiinflamatorio solo si es necesario y consulte si su médico recomienda un protector gástrico.',
+      en: 'Use the anti-inflammatory only if needed and ask whether your doctor recommends a stomach protector.',
+    },
+  },
+  {
+    id: 'nsaid-corticosteroid',
+    left: ['class:nsaid', 'aspirina'],
+    right: ['class:corticosteroid'],
+    severity: 'moderate',
+    description: {
+      es: 'Los corticoides junto con antiinflamatorios aumentan el riesgo de úlcera gástrica.',
+      en: 'Corticosteroids together with anti-inflammatories increase the risk of stomach ulcers.',
+    },
+    recommendation: {
+      es: 'Consulte a su médico antes de combinarlos; puede indicar un protector gástrico.',
+      en: 'Ask your doctor before combining them; a stomach protector may be indicated.',
+    },
+  },
+  {
+    id: 'nsaid-methotrexate',
+    left: ['class:nsaid', 'aspirina'],
+    right: ['metotrexato'],
+    severity: 'major',
+    description: {
+      es: 'Los antiinflamatorios reducen la eliminación del metotrexato y pueden causar toxicidad grave.',
+      en: 'Anti-inflammatories reduce methotrexate elimination and can cause serious toxicity.',
+    },
+    recommendation: {
+      es: 'No tome antiinflamatorios sin consultar al médico que le indicó el metotrexato.',
+      en: 'Do not take anti-inflammatories without asking the doctor who prescribed methotrexate.',
+    },
+  },
+  {
+    id: 'ppi-methotrexate',
+    left: ['class:ppi'],
+    right: ['metotrexato'],
+    severity: 'moderate',
+    description: {
+      es: 'Los inhibidores de la bomba de protones pueden elevar los niveles de metotrexato, sobre todo en dosis altas.',
+      en: 'Proton pump inhibitors can raise methotrexate levels, especially at high doses.',
+    },
+    recommendation: {
+      es: 'Informe a su médico que toma ambos medicamentos.',
+      en: 'Tell your doctor that you take both medications.',
+    },
+  },
+  {
+    id: 'nsaid-lithium',
+    left: ['class:nsaid'],
+    right: ['litio'],
+    severity: 'major',
+    description: {
+      es: 'Los antiinflamatorios elevan los niveles de litio y pueden causar intoxicación.',
+      en: 'Anti-inflammatories raise lithium levels and can cause toxicity.',
+    },
+    recommendation: {
+      es: 'Evite los antiinflamatorios salvo indicación de su médico.',
+      en: 'Avoid anti-inflammatories unless your doctor advises otherwise.',
+    },
+  },
+  {
+    id: 'binder-levothyroxine',
+    left: ['class:antacid', 'sucralfato'],
+    right: ['levotiroxina'],
+    severity: 'moderate',
+    description: {
+      es: 'Los antiácidos y el sucralfato disminuyen la absorción de la levotiroxina.',
+      en: 'Antacids and sucralfate reduce levothyroxine absorption.',
+    },
+    recommendation: {
+      es: 'Sepárelos al menos 4 horas de la levotiroxina.',
+      en: 'Take them at least 4 hours apart from levothyroxine.',
+    },
+  },
+  {
+    id: 'binder-quinolone',
+    left: ['class:antacid', 'sucralfato'],
+    right: ['class:quinolone'],
+    severity: 'moderate',
+    description: {
+      es: 'Los antiácidos y el sucralfato impiden la absorción de antibióticos como el ciprofloxacino.',
+      en: 'Antacids and sucralfate block the absorption of antibiotics such as ciprofloxacin.',
+    },
+    recommendation: {
+      es: 'Tome el antibiótico 2 horas antes o 6 horas después del antiácido.',
+      en: 'Take the antibiotic 2 hours before or 6 hours after the antacid.',
+    },
+  },
+  {
+    id: 'domperidone-qt',
+    left: ['domperidona'],
+    right: ['claritromicina', 'amiodarona', 'escitalopram', 'citalopram', 'levofloxacino', 'ondansetrón'],
+    severity: 'contraindicated',
+    description: {
+      es: 'La domperidona junto con otros medicamentos que alteran el ritmo cardiaco puede causar arritmias graves.',
+      en: 'Domperidone together with other drugs that affect heart rhythm can cause serious arrhythmias.',
+    },
+    recommendation: {
+      es: 'No los combine; consulte a su médico por otra opción para las náuseas.',
+      en: 'Do not combine them; ask your doctor for another option for nausea.',
+    },
+  },
+  {
+    id: 'qt-prolonging',
+    left: ['class:qt_prolonging'],
+    right: ['class:qt_prolonging'],
+    severity: 'major',
+    description: {
+      es: 'Dos medicamentos que prolongan el intervalo QT aumentan el riesgo de arritmias.',
+      en: 'Two drugs that prolong the QT interval increase the risk of arrhythmias.',
+    },
+    recommendation: {
+      es: 'Consulte a su médico antes de combinarlos, sobre todo si tiene problemas del corazón.',
+      en: 'Ask your doctor before combining them, especially if you have heart problems.',
+    },
+  },
+  {
+    id: 'clarithromycin-simvastatin',
+    left: ['claritromicina'],
+    right: ['simvastatina'],
+    severity: 'contraindicated',
+    description: {
+      es: 'La claritromicina eleva mucho los niveles de simvastatina y puede causar daño muscular grave.',
+      en: 'Clarithromycin greatly raises simvastatin levels and can cause serious muscle damage.',
+    },
+    recommendation: {
+      es: 'Su médico suele suspender la simvastatina mientras dura el antibiótico; no la combine sin indicación.',
+      en: 'Your doctor usually pauses simvastatin during the antibiotic course; do not combine them without advice.',
+    },
+  },
+  {
+    id: 'vka-antibiotic',
+    left: ['class:vitamin_k_antagonist'],
+    right: ['claritromicina', 'class:quinolone'],
+    severity: 'major',
+    description: {
+      es: 'Algunos antibióticos potencian el efecto de la warfarina y el acenocumarol y aumentan el riesgo de sangrado.',
+      en: 'Some antibiotics boost the effect of warfarin and acenocoumarol and increase the risk of bleeding.',
+    },
+    recommendation: {
+      es: 'Avise a quien controla su anticoagulación; puede necesitar un control de INR.',
+      en: 'Tell whoever manages your anticoagulation; you may need an INR check.',
+    },
+  },
+  {
+    id: 'metoclopramide-levodopa',
+    left: ['metoclopramida'],
+    right: ['levodopa'],
+    severity: 'major',
+    description: {
+      es: 'La metoclopramida contrarresta el efecto de la levodopa y puede empeorar los síntomas de Parkinson.',
+      en: 'Metoclopramide counteracts levodopa and can worsen Parkinson symptoms.',
+    },
+    recommendation: {
+      es: 'Evite la metoclopramida; consulte a su médico por otra opción para las náuseas.',
+      en: 'Avoid metoclopramide; ask your doctor for another option for nausea.',
+    },
+  },
+];
+
+// Dos principios activos del mismo grupo terapéutico
+const DUPLICATION_RULES: Partial<Record<DrugClass, DuplicationRule>> = {
+  ppi: {
+    severity: 'minor',
+    description: {
+      es: 'Ambos son inhibidores de la bomba de protones; tomarlos juntos no aporta beneficio.',
+      en: 'Both are proton pump inhibitors; taking them together adds no benefit.',
+    },
+    recommendation: {
+      es: 'Tome solo uno, según la indicación de su médico.',
+      en: 'Take only one, as directed by your doctor.',
+    },
+  },
+  nsaid: {
+    severity: 'major',
+    description: {
+      es: 'Ambos son antiinflamatorios; combinarlos aumenta el riesgo de úlcera y sangrado sin mejorar el alivio.',
+      en: 'Both are anti-inflammatories; combining them increases the risk of ulcers and bleeding without better relief.',
+    },
+    recommendation: {
+      es: 'No combine antiinflamatorios; use uno solo y por el menor tiempo posible.',
+      en: 'Do not combine anti-inflammatories; use a single one for the shortest time possible.',
+    },
+  },
+  anticoagulant: {
+    severity: 'contraindicated',
+    description: {
+      es: 'Dos anticoagulantes juntos aumentan mucho el riesgo de sangrado.',
+      en: 'Two anticoagulants together greatly increase the risk of bleeding.',
+    },
+    recommendation: {
+      es: 'Confirme con su médico cuál debe tomar.',
+      en: 'Confirm with your doctor which one you should take.',
+    },
+  },
+};
+
+// Términos con los que Treatment.contraindications nombra a cada grupo terapéutico
+const CLASS_TERMS: Record<DrugClass, string[]> = {
+  ppi: ['inhibidores de bomba de protones', 'inhibidores de la bomba de protones', 'ibp', 'proton pump inhibitors'],
+  nsaid: ['aine', 'aines', 'antiinflamatorios', 'antiinflamatorios no esteroideos', 'nsaid', 'nsaids'],
+  salicylate: ['salicilatos', 'salicylates'],
+  antiplatelet: ['antiagregantes', 'antiplaquetarios', 'antiplatelet'],
+  anticoagulant: ['anticoagulantes', 'anticoagulacion', 'anticoagulants'],
+  vitamin_k_antagonist: ['antagonistas de la vitamina k', 'cumarinicos'],
+  ssri: ['isrs', 'antidepresivos', 'ssri'],
+  corticosteroid: ['corticoides', 'corticosteroides', 'esteroides', 'corticosteroids'],
+  antacid: ['antiacidos', 'antacids'],
+  quinolone: ['quinolonas', 'fluoroquinolonas', 'quinolones'],
+  qt_prolonging: ['qt largo', 'prolongacion del qt', 'qt prolongation'],
+};
+
+// Las contraindicaciones por alergia no se deducen de la medicación actual
+const ALLERGY_PATTERN = /^(alergia|hipersensibilidad|allergy|hypersensitivity)\b/;
+
+const NEGATION_TOKENS = new Set(['no', 'ni', 'not', 'never', 'nunca', 'deje', 'dejo']);
+
+const CONTRAINDICATION_TEXT: Localized & { recommendation: Localized } = {
+  es: 'El tratamiento está contraindicado con {ingredient}: "{contraindication}".',
+  en: 'The treatment is contraindicated with {ingredient}: "{contraindication}".',
+  recommendation: {
+    es: 'No lo use sin consultar a su médico o farmacéutico.',
+    en: 'Do not use it without asking your doctor or pharmacist.',
+  },
+};
+
+const WARNING_TEXT = {
+  es: {
+    title: 'Posible interacción entre medicamentos:',
+    action: 'Consulte a su médico o farmacéutico antes de seguir tomando esta combinación',
+    severities: { contraindicated: 'contraindicada', major: 'importante', moderate: 'moderada', minor: 'menor' },
+  },
+  en: {
+    title: 'Possible drug interaction:',
+    action: 'Ask your doctor or pharmacist before continuing this combination',
+    severities: { contraindicated: 'contraindicated', major: 'major', moderate: 'moderate', minor: 'minor' },
+  },
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cruza la medicación del paciente con la base local de interacciones (por
+ * principio activo y grupo terapéutico) y con las contraindicaciones de un
+ * tratamiento candidato del catálogo.
+ */
+export class DrugInteractionService {
+  private readonly matchers = INGREDIENTS.map(entry => ({
+    entry,
+    regex: new RegExp(
+      `\\b(${entry.aliases.map(alias => escapeRegex(MedicalTextNormalizer.normalize(alias))).join('|')})\\b`,
+      'g'
+    ),
+  }));
+  private readonly byName = new Map(INGREDIENTS.map(entry => [entry.name, entry]));
+
+  /**
+   * Principios activos mencionados en un texto. Con `skipNegated` se omiten
+   * los precedidos por una negación ("ya no tomo ibuprofeno").
+   */
+  public recognize(text: string, skipNegated = false): string[] {
+    const normalized = MedicalTextNormalizer.normalize(text);
+    const found = new Set<string>();
+
+    this.matchers.forEach(({ entry, regex }) => {
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(normalized)) !== null) {
+        const preceding = normalized.slice(0, match.index).split(' ').filter(Boolean).slice(-3);
+        if (!skipNegated || !preceding.some(token => NEGATION_TOKENS.has(token))) {
+          found.add(entry.name);
+          break;
+        }
+      }
+    });
+
+    return [...found];
+  }
+
+  /**
+   * Interacciones entre los medicamentos indicados y, si se da, con el
+   * tratamiento candidato (incluidas sus contraindicaciones)
+   */
+  public check(medications: string[], treatment: CandidateTreatment | null, language: 'es' | 'en'): DrugInteractionCheck {
+    const recognized: RecognizedMedication[] = [];
+    const unrecognized: string[] = [];
+
+    medications.forEach(input => {
+      const ingredients = this.recognize(input);
+      if (ingredients.length > 0) {
+        recognized.push({ input, ingredients });
+      } else {
+        unrecognized.push(input);
+      }
+    });
+
+    const patientIngredients = [...new Set(recognized.flatMap(medication => medication.ingredients))];
+    const treatmentIngredients = treatment
+      ? this.recognize(`${treatment.activeIngredient || ''} ${treatment.name}`)
+      : [];
+
+    const interactions = [
+      ...this.findInteractions([...new Set([...patientIngredients, ...treatmentIngredients])], language),
+      ...(treatment ? this.findContraindications(treatment, patientIngredients, language) : []),
+    ].sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+
+    return {
+      medications: recognized,
+      unrecognized,
+      ...(treatment && {
+        treatment: {
+          ...(treatment.id !== undefined && { id: treatment.id }),
+          name: treatment.name,
+          ingredients: treatmentIngredients,
+        },
+      }),
+      interactions,
+      highestSeverity: interactions[0]?.severity ?? null,
+    };
+  }
+
+  /**
+   * Principios activos que el paciente menciona en el mensaje o en sus
+   * turnos previos (sin las menciones negadas)
+   */
+  public mentionedInConversation(message: string, history: ChatMessage[]): string[] {
+    const texts = [message, ...history.filter(entry => entry.role === 'user').map(entry => entry.content)];
+    return [...new Set(texts.flatMap(text => this.recognize(text, true)))];
+  }
+
+  /**
+   * Interacciones en las que participa algún medicamento mencionado en el
+   * mensaje actual; el otro puede venir de turnos previos o del contexto
+   * del usuario. Así la advertencia no se repite en cada turno.
+   */
+  public detectInConversation(
+    message: string,
+    history: ChatMessage[],
+    medications: string[],
+    language: 'es' | 'en'
+  ): DrugInteraction[] {
+    const current = this.recognize(message, true);
+    if (current.length === 0) {
+      return [];
+    }
+
+    const previous = [
+      ...history.filter(entry => entry.role === 'user').flatMap(entry => this.recognize(entry.content, true)),
+      ...medications.flatMap(medication => this.recognize(medication)),
+    ];
+
+    return this.findInteractions([...new Set([...current, ...previous])], language)
+      .filter(interaction => interaction.between.some(ingredient => current.includes(ingredient)))
+      .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+  }
+
+  /**
+   * Agrega la advertencia al mensaje; las interacciones importantes o
+   * contraindicadas elevan la urgencia y anteponen la consulta al médico
+   */
+  public apply(
+    response: { message: string; urgency: ResponseUrgency; actions: string[] },
+    interactions: DrugInteraction[],
+    language: 'es' | 'en'
+  ): { message: string; urgency: ResponseUrgency; actions: string[] } {
+    if (interactions.length === 0) {
+      return response;
+    }
+
+    const text = WARNING_TEXT[language];
+    const urgencyOrder: ResponseUrgency[] = ['low', 'medium', 'high', 'emergency'];
+    const urgency = interactions.reduce<ResponseUrgency>(
+      (current, interaction) => urgencyOrder.indexOf(SEVERITY_URGENCY[interaction.severity]) > urgencyOrder.indexOf(current)
+        ? SEVERITY_URGENCY[interaction.severity]
+        : current,
+      response.urgency
+    );
+    const serious = interactions.some(interaction => SEVERITY_ORDER.indexOf(interaction.severity) >= SEVERITY_ORDER.indexOf('major'));
+
+    const lines = interactions.map(interaction =>
+      `- ${interaction.between.join(' + ')} (${text.severities[interaction.severity]}): ${interaction.description} ${interaction.recommendation}`
+    );
+
+    return {
+      message: `${response.message}\n\n${text.title}\n${lines.join('\n')}`,
+      urgency,
+      actions: serious && !response.actions.includes(text.action) ? [text.action, ...response.actions] : response.actions,
+    };
+  }
+
+  /**
+   * Bloque del prompt con las interacciones detectadas
+   */
+  public buildPromptNotes(interactions: DrugInteraction[]): string {
+    return `INTERACCIONES DE MEDICAMENTOS DETECTADAS (la advertencia se agrega al final de tu respuesta; no indiques suspender ni cambiar dosis, remite al médico o farmacéutico):
+${interactions.map(interaction => `- ${interaction.between.join(' + ')} (${interaction.severity}): ${interaction.description}`).join('\n')}`;
+  }
+
+  private classesOf(ingredient: string): DrugClass[] {
+    return this.byName.get(ingredient)?.classes || [];
+  }
+
+  private matchesRef(ingredient: string, refs: string[]): boolean {
+    return refs.some(ref => ref.startsWith('class:')
+      ? this.classesOf(ingredient).includes(ref.slice('class:'.length) as DrugClass)
+      : ref === ingredient);
+  }
+
+  /**
+   * Reglas de la base y duplicidades para cada par de principios activos.
+   * Un par se reporta una sola vez, con la regla más grave.
+   */
+  private findInteractions(ingredients: string[], language: 'es' | 'en'): DrugInteraction[] {
+    const interactions: DrugInteraction[] = [];
+
+    for (let i = 0; i < ingredients.length; i++) {
+      for (let j = i + 1; j < ingredients.length; j++) {
+        const a = ingredients[i]!;
+        const b = ingredients[j]!;
+        const candidates: DrugInteraction[] = [];
+
+        INTERACTION_RULES
+          .filter(rule => (this.matchesRef(a, rule.left) && this.matchesRef(b, rule.right))
+            || (this.matchesRef(b, rule.left) && this.matchesRef(a, rule.right)))
+          .forEach(rule => candidates.push({
+            ruleId: rule.id,
+            kind: 'interaction',
+            severity: rule.severity,
+            between: [a, b],
+            description: rule.description[language],
+            recommendation: rule.recommendation[language],
+          }));
+
+        this.classesOf(a)
+          .filter(drugClass => this.classesOf(b).includes(drugClass) && DUPLICATION_RULES[drugClass])
+          .forEach(drugClass => {
+            const rule = DUPLICATION_RULES[drugClass]!;
+            candidates.push({
+              ruleId: `duplicate-${drugClass}`,
+              kind: 'duplication',
+              severity: rule.severity,
+              between: [a, b],
+              description: rule.description[language],
+              recommendation: rule.recommendation[language],
+            });
+          });
+
+        const worst = candidates.sort((x, y) => SEVERITY_ORDER.indexOf(y.severity) - SEVERITY_ORDER.indexOf(x.severity))[0];
+        if (worst) {
+          interactions.push(worst);
+        }
+      }
+    }
+
+    return interactions;
+  }
+
+  /**
+   * Contraindicaciones del tratamiento que nombran un medicamento del
+   * paciente o su grupo terapéutico ("Uso de anticoagulantes")
+   */
+  private findContraindications(
+    treatment: CandidateTreatment,
+    ingredients: string[],
+    language: 'es' | 'en'
+  ): DrugInteraction[] {
+    const interactions: DrugInteraction[] = [];
+
+    (treatment.contraindications || []).forEach(contraindication => {
+      const normalized = MedicalTextNormalizer.normalize(contraindication);
+      if (!normalized || ALLERGY_PATTERN.test(normalized)) return;
+
+      ingredients
+        .filter(ingredient => {
+          const terms = [
+            ...(this.byName.get(ingredient)?.aliases || []),
+            ...this.classesOf(ingredient).flatMap(drugClass => CLASS_TERMS[drugClass]),
+          ].map(term => MedicalTextNormalizer.normalize(term));
+          return terms.some(term => new RegExp(`\\b${escapeRegex(term)}\\b`).test(normalized));
+        })
+        .forEach(ingredient => interactions.push({
+          ruleId: 'treatment-contraindication',
+          kind: 'contraindication',
+          severity: 'contraindicated',
+          between: [ingredient, treatment.name],
+          description: CONTRAINDICATION_TEXT[language]
+            .replace('{ingredient}', ingredient)
+            .replace('{contraindication}', contraindication),
+          recommendation: CONTRAINDICATION_TEXT.recommendation[language],
+        }));
+    });
+
+    return interactions;
+  }
+}
+
+// Exportar instancia singleton
+export const drugInteractions = new DrugInteractionService();
+export default drugInteractions;
@@ -0,0 +1,89 @@
+import { logger, medicalLogger } from '../utils/logger';
+import { dbService } from './database';
+import {
+  EmergencyEvaluation,
+  EmergencySignal,
+  EmergencySignalAgreement,
+  EmergencySignalSource,
+  ResponseUrgency,
+} from '../types/medical';
+
+// Caracteres del mensaje del paciente que se guardan para la revisión
+const REVIEW_EXCERPT_LENGTH = 200;
+
+/**
+ * Decisión única de emergencia a partir de las reglas sobre el mensaje y de
+ * la urgencia que devolvió el modelo. Las emergencias que solo marcó el modelo
+ * siguen la ruta de emergencia y quedan en cola de revisión: pueden ser
+ * huecos de las reglas.
+ */
+export class EmergencyReviewService {
+  /**
+   * Concilia ambas señales. `modelUrgency` es null si no se consultó al modelo
+   * (emergencia por reglas, respaldo sin IA).
+   */
+  public reconcile(evaluation: EmergencyEvaluation, modelUrgency: ResponseUrgency | null): EmergencySignal {
+    const keywords = evaluation.isEmergency;
+    const model = modelUrgency === 'emergency';
+
+    const source: EmergencySignalSource =
+      keywords && model ? 'both' : keywords ? 'keywords' : model ? 'model' : 'none';
+
+    const agreement: EmergencySignalAgreement =
+      modelUrgency === null ? 'model_not_consulted'
+        : keywords === model ? 'agree'
+        : keywords ? 'keywords_only'
+        : 'model_only';
+
+    return {
+      emergencyDetected: keywords || model,
+      source,
+      agreement,
+      ruleIds: [...new Set(evaluation.matches
+        .filter(match => match.tier === 'critical')
+        .map(match => match.ruleId))],
+      modelUrgency,
+      reviewRequired: agreement === 'model_only',
+    };
+  }
+
+  /**
+   * Registra la emergencia marcada solo por el modelo en la cola de revisión.
+   * Los errores no interrumpen la respuesta al paciente.
+   */
+  public async enqueue(
+    sessionId: string,
+    messageId: string,
+    message: string,
+    evaluation: EmergencyEvaluation,
+    details: { modelRedFlags: string[]; symptoms: string[]; model: string | null }
+  ): Promise<void> {
+    const ruleIds = [...new Set(evaluation.matches.map(match => match.ruleId))];
+
+    medicalLogger.emergency('Emergency flagged only by the model, queued for review', {
+      sessionId,
+      messageId,
+      modelRedFlags: details.modelRedFlags,
+      ruleIds,
+      model: details.model,
+    });
+
+    try {
+      await dbService.createEmergencyReview({
+        sessionId,
+        messageId,
+        messageExcerpt: message.substring(0, REVIEW_EXCERPT_LENGTH),
+        modelRedFlags: details.modelRedFlags,
+        symptoms: details.symptoms,
+        ruleIds,
+        model: details.model,
+      });
+    } catch (error) {
+      logger.error('Error queueing emergency review:', error);
+    }
+  }
+}
+
+// Exportar instancia singleton
+export const emergencyReview = new EmergencyReviewService();
+export default emergencyReview;
@@ -0,0 +1,406 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { dbService, toJsonValue } from './database';
+import {
+  EmergencyRule,
+  EmergencyRuleSet,
+  EmergencyRuleMatch,
+  EmergencyEvaluation,
+  EmergencySeverityTier,
+} from '../types/medical';
+
+// Clave de SystemConfig donde se guardan las reglas editables
+export const EMERGENCY_RULES_CONFIG_KEY = 'emergency_rules';
+
+const TIER_PRIORITY: Record<EmergencySeverityTier, number> = {
+  critical: 3,
+  urgent: 2,
+  warning: 1,
+};
+
+/**
+ * Reglas por defecto. Los patrones regex se evalúan sobre texto normalizado
+ * (minúsculas, sin acentos ni puntuación), por eso se escriben sin acentos.
+ */
+export const DEFAULT_EMERGENCY_RULES: EmergencyRule[] = [
+  // Sangrado digestivo
+  { id: 'gi-bleed-vomit', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\b(vomit\\w*|devolv\\w*|arroj\\w*) (con |de )?sangre\\b', description: 'Vómito con sangre' },
+  { id: 'gi-bleed-vomit-black', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\bvomit\\w* (negro|color cafe|como (cafe|posos de cafe))\\b', description: 'Vómito negro o en posos de café' },
+  { id: 'gi-bleed-stool', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\b(heces|popo|excremento|evacuaciones|deposiciones) (con sangre|negras|con sangre roja)\\b', description: 'Heces con sangre o negras' },
+  { id: 'gi-bleed-stool-2', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\bsangre en (las |la |mis )?(heces|popo|excremento|evacuaciones|deposiciones)\\b', description: 'Sangre en las heces' },
+  { id: 'gi-bleed-heavy', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\bsangrado (rectal )?(abundante|masivo|que no para)\\b', description: 'Sangrado abundante' },
+  { id: 'gi-bleed-en', tier: 'critical', type: 'regex', category: 'bleeding', pattern: '\\b(vomiting|throwing up) blood\\b|\\bblood in (my )?(stool|poop)\\b|\\bblack (tarry )?stools?\\b', description: 'Bleeding (EN)' },
+
+  // Respiratorio y cardiovascular
+  { id: 'resp-cannot-breathe', tier: 'critical', type: 'regex', category: 'respiratory', pattern: '\\bno puedo respirar\\b|\\b(dificultad|falta de aire) (para |al )?respirar\\b|\\bdificultad respiratoria\\b|\\bme ahogo\\b', description: 'Dificultad respiratoria' },
+  { id: 'resp-en', tier: 'critical', type: 'regex', category: 'respiratory', pattern: '\\b(can ?t|cannot) breathe\\b|\\bshortness of breath\\b', description: 'Breathing difficulty (EN)' },
+  { id: 'chest-pain', tier: 'critical', type: 'regex', category: 'cardiovascular', pattern: '\\bdolor (de|en el|del) pecho\\b|\\bdolor toracico\\b|\\bchest pain\\b', description: 'Dolor de pecho' },
+
+  // Neurológico
+  { id: 'neuro-consciousness', tier: 'critical', type: 'regex', category: 'neurological', pattern: '\\bperd\\w* (de |el )?(la )?(conciencia|conocimiento)\\b|\\bdesmay\\w*\\b|\\bpassed out\\b|\\bfainted\\b', description: 'Pérdida de conciencia o desmayo' },
+  { id: 'neuro-seizure', tier: 'critical', type: 'regex', category: 'neurological', pattern: '\\bconvulsi\\w*\\b|\\bseizures?\\b', description: 'Convulsiones' },
+
+  // Abdomen agudo
+  { id: 'abdomen-severe-pain', tier: 'critical', type: 'regex', category: 'pain', pattern: '\\bdolor abdominal (severo|intenso|insoportable)\\b|\\bsevere abdominal pain\\b', description: 'Dolor abdominal severo' },
+  { id: 'abdomen-rigid', tier: 'critical', type: 'regex', category: 'pain', pattern: '\\b(abdomen|panza|estomago) (rigido|duro como (una )?tabla)\\b|\\brigid abdomen\\b', description: 'Abdomen rígido' },
+
+  // Urgentes: requieren atención el mismo día
+  { id: 'pain-persistent', tier: 'urgent', type: 'regex', category: 'pain', pattern: '\\bdolor que no (cede|se quita|para)\\b', description: 'Dolor que no cede' },
+  { id: 'fever-high', tier: 'urgent', type: 'regex', category: 'systemic', pattern: '\\bfiebre (muy )?alta\\b|\\bfiebre de (39|40|41)\\b|\\bhigh fever\\b', description: 'Fiebre alta' },
+  { id: 'dehydration-severe', tier: 'urgent', type: 'regex', category: 'systemic', pattern: '\\bdeshidratacion (severa|grave)\\b|\\bno (he )?orin\\w*\\b', description: 'Deshidratación severa' },
+  { id: 'dizziness-severe', tier: 'urgent', type: 'phrase', category: 'neurological', pattern: 'mareo severo', description: 'Mareo severo' },
+  { id: 'vision-sudden', tier: 'urgent', type: 'phrase', category: 'neurological', pattern: 'vision borrosa repentina', description: 'Visión borrosa repentina' },
+  { id: 'vomit-persistent', tier: 'urgent', type: 'regex', category: 'digestive', pattern: '\\bno (puedo )?(dejo de|paro de) vomitar\\b|\\bvomit\\w* todo lo que (como|tomo)\\b|\\bcan ?t keep (any )?(fluids|liquids|water) down\\b', description: 'Vómito persistente' },
+
+  // Vigilancia
+  { id: 'weight-loss', tier: 'warning', type: 'regex', category: 'systemic', pattern: '\\bperd\\w* (de )?peso sin (razon|motivo|explicacion)\\b|\\bbaje de peso sin\\b', description: 'Pérdida de peso inexplicable' },
+  { id: 'dysphagia', tier: 'warning', type: 'regex', category: 'digestive', pattern: '\\bdificultad (para|al) tragar\\b|\\bdisfagia\\b', description: 'Dificultad para tragar' },
+];
+
+const DEFAULT_RULE_SET: EmergencyRuleSet = {
+  version: 0,
+  rules: DEFAULT_EMERGENCY_RULES,
+};
+
+// Señales de negación que anulan una coincidencia dentro de la misma cláusula
+const NEGATION_CUES = new Set([
+  'no', 'nunca', 'sin', 'ni', 'tampoco', 'jamas', 'niego', 'nada',
+  'not', 'never', 'without', 'dont', 'didnt', 'havent', 'hasnt', 'isnt', 'doesnt',
+]);
+const NEGATION_WINDOW = 4; // Palabras previas a la coincidencia que se revisan
+
+// Conjunciones copulativas: la negación previa no alcanza lo que sigue
+// ("ayer no comí nada y hoy vomito con sangre")
+const NEGATION_SCOPE_BREAKS = new Set(['y', 'e', 'and']);
+
+// Separadores de cláusula: la negación no cruza estos límites
+const CLAUSE_SEPARATORS = /[.;:!?,\n]+|\b(?:pero|aunque|sino|sin embargo|but|although)\b/i;
+
+// Auxiliares y partículas que pueden quedar entre la negación y una señal
+// crítica ("no tengo sangre en las heces", "no tengo nada de dolor de pecho")
+const NEGATION_AUXILIARIES = new Set([
+  'de', 'tengo', 'tiene', 'tenia', 'tenido', 'tuve', 'he', 'ha', 'habia', 'hay', 'hubo', 'me',
+  'presento', 'presentado', 'sentido', 'i', 'have', 'has', 'had', 'any',
+]);
+
+// "nunca había tenido dolor de pecho así": el síntoma es nuevo, no está negado
+const PERFECT_AUXILIARIES = new Set(['he', 'ha', 'habia', 'had']);
+const NOVELTY_MARKERS = /\b(asi|hasta|like this|until)\b/;
+
+const emergencyRuleSchema = z.object({
+  id: z.string().trim().min(1).max(64).regex(/^[a-z0-9_-]+$/i, 'id solo admite letras, números, "-" y "_"'),
+  tier: z.enum(['critical', 'urgent', 'warning']),
+  type: z.enum(['phrase', 'regex']),
+  pattern: z.string().trim().min(2).max(500),
+  category: z.string().trim().max(50).optional(),
+  description: z.string().trim().max(200).optional(),
+  enabled: z.boolean().optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.type !== 'regex') return;
+  try {
+    new RegExp(rule.pattern, 'g');
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: `Regex inválida: ${error instanceof Error ? error.message : 'error de sintaxis'}`,
+    });
+  }
+});
+
+const emergencyRulesSchema = z.array(emergencyRuleSchema).min(1).max(500).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `id duplicado: ${rule.id}` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type EmergencyRulesValidation =
+  | { success: true; rules: EmergencyRule[] }
+  | { success: false; issues: z.ZodIssue[] };
+
+/**
+ * Valida un conjunto de reglas (ids únicos y regex compilables)
+ */
+export function validateEmergencyRules(input: unknown): EmergencyRulesValidation {
+  const result = emergencyRulesSchema.safeParse(input);
+
+  return result.success
+    ? { success: true, rules: result.data as EmergencyRule[] }
+    : { success: false, issues: result.error.errors };
+}
+
+interface CompiledRule {
+  rule: EmergencyRule;
+  regex: RegExp;
+}
+
+/**
+ * Motor único de detección de emergencias. Lo usan el middleware de
+ * emergencias y el servicio de IA; las reglas se editan en SystemConfig.
+ */
+export class EmergencyRuleEngine {
+  private ruleSet: EmergencyRuleSet = DEFAULT_RULE_SET;
+  private source: 'config' | 'default' = 'default';
+  private compiled: CompiledRule[];
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly cacheTtlMs: number;
+
+  constructor() {
+    this.cacheTtlMs = parseInt(process.env['EMERGENCY_RULES_CACHE_TTL_MS'] || '60000');
+    this.compiled = this.compile(this.withEnvKeywords(DEFAULT_RULE_SET.rules));
+  }
+
+  /**
+   * Recarga las reglas de SystemConfig si la caché expiró.
+   * Ante un error se conservan las reglas vigentes.
+   */
+  public async ensureFresh(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadFromConfig().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Evalúa un texto. Con `ruleSet` se prueban reglas candidatas sin guardarlas;
+   * `extraRules` agrega reglas que solo aplican a este texto (p. ej. señales
+   * de alarma del embarazo o de lactantes).
+   */
+  public evaluate(text: string, ruleSet?: EmergencyRuleSet, extraRules: EmergencyRule[] = []): EmergencyEvaluation {
+    const compiled = [
+      ...(ruleSet ? this.compile(this.withEnvKeywords(ruleSet.rules)) : this.compiled),
+      ...this.compile(extraRules),
+    ];
+    const matches: EmergencyRuleMatch[] = [];
+    const negatedMatches: EmergencyRuleMatch[] = [];
+
+    // Decodificar antes de separar: "can&#x27;t" lleva un ";" que cortaría la cláusula
+    MedicalTextNormalizer.decodeEntities(text).split(CLAUSE_SEPARATORS).forEach(rawClause => {
+      const clause = MedicalTextNormalizer.normalize(rawClause || '');
+      if (!clause) return;
+
+      compiled.forEach(({ rule, regex }) => {
+        regex.lastIndex = 0;
+        let found: RegExpExecArray | null;
+
+        while ((found = regex.exec(clause)) !== null) {
+          if (found[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+          }
+
+          const match: EmergencyRuleMatch = {
+            ruleId: rule.id,
+            tier: rule.tier,
+            matchedText: found[0],
+            clause,
+            negated: this.isNegated(clause, found.index, found[0].length, rule.tier),
+            ...(rule.category && { category: rule.category }),
+          };
+
+          (match.negated ? negatedMatches : matches).push(match);
+        }
+      });
+    });
+
+    const highestTier = matches.reduce<EmergencySeverityTier | null>(
+      (highest, match) => (!highest || TIER_PRIORITY[match.tier] > TIER_PRIORITY[highest] ? match.tier : highest),
+      null
+    );
+
+    return {
+      isEmergency: highestTier === 'critical',
+      highestTier,
+      matches,
+      negatedMatches,
+      rulesVersion: ruleSet ? ruleSet.version : this.ruleSet.version,
+      rulesSource: ruleSet ? 'config' : this.source,
+    };
+  }
+
+  /**
+   * Reglas vigentes y su origen
+   */
+  public getRuleSet(): { ruleSet: EmergencyRuleSet; source: 'config' | 'default' } {
+    return { ruleSet: this.ruleSet, source: this.source };
+  }
+
+  /**
+   * Valida y guarda un nuevo conjunto de reglas en SystemConfig
+   */
+  public async saveRules(rules: EmergencyRule[]): Promise<EmergencyRuleSet> {
+    const ruleSet: EmergencyRuleSet = {
+      version: this.ruleSet.version + 1,
+      updatedAt: new Date().toISOString(),
+      rules,
+    };
+
+    await dbService.setSystemConfig(
+      EMERGENCY_RULES_CONFIG_KEY,
+      toJsonValue(ruleSet),
+      'security',
+      'Reglas del motor de detección de emergencias'
+    );
+
+    this.apply(ruleSet, 'config');
+    logger.info('Emergency rules updated', { version: ruleSet.version, rules: rules.length });
+
+    return ruleSet;
+  }
+
+  /**
+   * Usa reglas candidatas en memoria sin guardarlas (evaluación offline).
+   * No se recargan de SystemConfig hasta reiniciar el proceso.
+   */
+  public useCandidate(rules: EmergencyRule[]): EmergencyRuleSet {
+    const ruleSet: EmergencyRuleSet = {
+      version: this.ruleSet.version + 1,
+      updatedAt: new Date().toISOString(),
+      rules,
+    };
+
+    this.apply(ruleSet, 'config');
+    this.loadedAt = Number.POSITIVE_INFINITY;
+
+    return ruleSet;
+  }
+
+  private async loadFromConfig(): Promise<void> {
+    try {
+      const stored = await dbService.getSystemConfig<EmergencyRuleSet>(EMERGENCY_RULES_CONFIG_KEY);
+
+      if (!stored) {
+        this.apply(DEFAULT_RULE_SET, 'default');
+        return;
+      }
+
+      const validation = validateEmergencyRules(stored.rules);
+      if (!validation.success) {
+        logger.error('Stored emergency rules are invalid, keeping current rules', {
+          issues: validation.issues.slice(0, 5),
+        });
+        return;
+      }
+
+      this.apply({ ...stored, rules: validation.rules }, 'config');
+    } catch (error) {
+      logger.warn('Could not load emergency rules from SystemConfig, keeping current rules:', error);
+    } finally {
+      this.loadedAt = Date.now();
+    }
+  }
+
+  private apply(ruleSet: EmergencyRuleSet, source: 'config' | 'default'): void {
+    this.ruleSet = ruleSet;
+    this.source = source;
+    this.compiled = this.compile(this.withEnvKeywords(ruleSet.rules));
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Agrega las palabras de EMERGENCY_KEYWORDS como reglas de frase urgentes.
+   * No son críticas porque suelen ser genéricas (p. ej. "dolor intenso");
+   * las reglas críticas se administran en SystemConfig.
+   */
+  private withEnvKeywords(rules: EmergencyRule[]): EmergencyRule[] {
+    const keywords = (process.env['EMERGENCY_KEYWORDS'] || '')
+      .split(',')
+      .map(keyword => keyword.trim())
+      .filter(Boolean);
+
+    return [
+      ...rules,
+      ...keywords.map((keyword, index) => ({
+        id: `env-keyword-${index + 1}`,
+        tier: 'urgent' as const,
+        type: 'phrase' as const,
+        pattern: keyword,
+        category: 'configured',
+        description: keyword,
+      })),
+    ];
+  }
+
+  private compile(rules: EmergencyRule[]): CompiledRule[] {
+    return rules
+      .filter(rule => rule.enabled !== false)
+      .flatMap(rule => {
+        try {
+          const source = rule.type === 'phrase'
+            ? `\\b${this.escapeRegex(MedicalTextNormalizer.normalize(rule.pattern))}\\b`
+            : rule.pattern;
+          return [{ rule, regex: new RegExp(source, 'g') }];
+        } catch (error) {
+          logger.error('Invalid emergency rule skipped', { ruleId: rule.id, error });
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Una coincidencia está negada si alguna de las palabras previas
+   * dentro de la misma cláusula es una señal de negación. En las reglas
+   * críticas la señal debe ir justo antes (salvo auxiliares); no se
+   * considera negación la duda ("no sé si") ni la novedad ("nunca había
+   * tenido ... así")
+   */
+  private isNegated(clause: string, matchIndex: number, matchLength: number, tier: EmergencySeverityTier): boolean {
+    const tokens = clause
+      .slice(0, matchIndex)
+      .replace(/\b(don|didn|haven|hasn|isn|doesn) t\b/g, '$1t')
+      .split(' ')
+      .filter(Boolean);
+
+    // "nada" cierra la negación ("no comí nada ..."), salvo en "nada de ..."
+    let scopeStart = 0;
+    tokens.forEach((token, index) => {
+      const closesNegation = token === 'nada' && index < tokens.length - 1 && tokens[index + 1] !== 'de';
+      if (NEGATION_SCOPE_BREAKS.has(token) || closesNegation) {
+        scopeStart = index + 1;
+      }
+    });
+
+    const scoped = tokens.slice(scopeStart);
+    let cueIndex = -1;
+    if (tier === 'critical') {
+      let index = scoped.length - 1;
+      while (index >= 0 && NEGATION_AUXILIARIES.has(scoped[index] as string)) index--;
+      cueIndex = index >= 0 && NEGATION_CUES.has(scoped[index] as string) ? index : -1;
+    } else {
+      for (let index = scoped.length - 1; index >= Math.max(0, scoped.length - NEGATION_WINDOW); index--) {
+        if (NEGATION_CUES.has(scoped[index] as string)) {
+          cueIndex = index;
+          break;
+        }
+      }
+    }
+    if (cueIndex < 0) return false;
+
+    const following = scoped.slice(cueIndex + 1);
+    if (following[0] === 'se' && following[1] === 'si') return false;
+
+    const rest = clause.slice(matchIndex + matchLength);
+    return !(PERFECT_AUXILIARIES.has(following[0] ?? '') && NOVELTY_MARKERS.test(rest));
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Exportar instancia singleton
+export const emergencyRules = new EmergencyRuleEngine();
+export default emergencyRules;
@@ -0,0 +1,141 @@
+import {
+  DifferentialDiagnosis,
+  EmergencyEvaluation,
+  FallbackReason,
+  ResponseUrgency,
+} from '../types/medical';
+
+interface FallbackInput {
+  reason: FallbackReason;
+  language: 'es' | 'en';
+  symptoms: string[]; // Nombres canónicos reconocidos en el mensaje
+  differential: DifferentialDiagnosis[];
+  evaluation: EmergencyEvaluation; // Sin coincidencias critical (ya se respondió como emergencia)
+}
+
+export interface FallbackResponse {
+  message: string;
+  suggestedActions: string[];
+  followUpQuestions: string[];
+  possibleCauses: string[];
+  redFlags: string[];
+  urgency: ResponseUrgency;
+}
+
+// Candidatas del diferencial que se mencionan como causas posibles
+const MIN_CONDITION_PROBABILITY = 0.15;
+const MAX_CONDITIONS = 3;
+
+const FALLBACK_TEXT = {
+  es: {
+    intro: {
+      ai_unavailable: 'El asistente no está disponible en este momento. Mientras tanto, esta es una orientación basada en nuestro catálogo clínico y en reglas de seguridad.',
+      token_budget: 'En este momento no puedo generar una respuesta detallada, pero puedo orientarle con la información que compartió.',
+    },
+    symptoms: 'Síntomas que identifiqué: {symptoms}.',
+    noSymptoms: 'No identifiqué síntomas específicos en su mensaje.',
+    conditions: 'Según el catálogo, estos síntomas podrían relacionarse con: {conditions}. Esto no es un diagnóstico.',
+    urgency: {
+      high: 'Mencionó señales que requieren valoración médica hoy mismo ({flags}). Acuda a urgencias o con su médico hoy.',
+      medium: 'Algunas señales que mencionó ({flags}) merecen valoración. Consulte a su médico en los próximos días, o antes si empeoran.',
+      severe: 'Algunas de las causas posibles requieren valoración médica pronta. Consulte a su médico hoy o mañana.',
+    },
+    escalation: 'Busque atención médica si los síntomas empeoran, persisten más de unos días o aparece fiebre alta, sangre en vómito o heces, o dolor intenso. Ante una emergencia llame al 911.',
+    actions: {
+      high: ['Acuda a urgencias o con su médico hoy', 'No coma ni tome medicamentos hasta ser valorado', 'Llame al 911 si los síntomas empeoran'],
+      medium: ['Programe una consulta médica en los próximos días', 'Lleve un registro de sus síntomas', 'Acuda a urgencias si los síntomas empeoran'],
+      low: ['Mantenga una hidratación adecuada', 'Lleve un registro de sus síntomas', 'Consulte a su médico si los síntomas persisten'],
+    },
+    guided: 'Use la entrevista guiada para registrar sus síntomas paso a paso',
+    questions: [
+      '¿Desde cuándo tiene los síntomas?',
+      '¿Qué intensidad tiene la molestia del 1 al 10?',
+      '¿Ha tenido fiebre, vómito o sangre en las heces?',
+    ],
+  },
+  en: {
+    intro: {
+      ai_unavailable: 'The assistant is not available right now. Meanwhile, this is guidance based on our clinical catalog and safety rules.',
+      token_budget: 'I cannot generate a detailed answer right now, but I can guide you with the information you shared.',
+    },
+    symptoms: 'Symptoms I identified: {symptoms}.',
+    noSymptoms: 'I did not identify specific symptoms in your message.',
+    conditions: 'According to the catalog, these symptoms could be related to: {conditions}. This is not a diagnosis.',
+    urgency: {
+      high: 'You mentioned signs that need medical evaluation today ({flags}). Go to the emergency room or see your doctor today.',
+      medium: 'Some signs you mentioned ({flags}) deserve evaluation. See your doctor in the next few days, or sooner if they worsen.',
+      severe: 'Some of the possible causes need prompt medical evaluation. See your doctor today or tomorrow.',
+    },
+    escalation: 'Seek medical care if symptoms worsen, last more than a few days, or if you develop high fever, blood in vomit or stool, or severe pain. In an emergency call 911.',
+    actions: {
+      high: ['Go to the emergency room or see your doctor today', 'Do not eat or take medication until evaluated', 'Call 911 if symptoms worsen'],
+      medium: ['Schedule a medical visit in the next few days', 'Keep a record of your symptoms', 'Go to the emergency room if symptoms worsen'],
+      low: ['Stay well hydrated', 'Keep a record of your symptoms', 'See your doctor if symptoms persist'],
+    },
+    guided: 'Use the guided interview to record your symptoms step by step',
+    questions: [
+      'How long have you had the symptoms?',
+      'How intense is the discomfort from 1 to 10?',
+      'Have you had fever, vomiting or blood in your stool?',
+    ],
+  },
+};
+
+// Gravedad de enfermedad que eleva la urgencia si es la candidata principal
+const SEVERE_DISEASE_LEVELS = new Set(['severe', 'emergency']);
+
+/**
+ * Respuesta de triaje basada en reglas para cuando no se consulta al modelo
+ * (servicio de IA caído o presupuesto de tokens agotado). Usa los síntomas
+ * reconocidos, el diferencial del catálogo y los niveles del motor de
+ * reglas de emergencia.
+ */
+export class FallbackResponderService {
+  public build(input: FallbackInput): FallbackResponse {
+    const text = FALLBACK_TEXT[input.language];
+    const matches = input.evaluation.matches;
+    const urgentFlags = [...new Set(matches.filter(match => match.tier === 'urgent').map(match => match.matchedText))];
+    const warningFlags = [...new Set(matches.filter(match => match.tier === 'warning').map(match => match.matchedText))];
+
+    const conditions = input.differential
+      .filter(candidate => candidate.probability >= MIN_CONDITION_PROBABILITY)
+      .slice(0, MAX_CONDITIONS);
+    const severeTop = !!conditions[0] && SEVERE_DISEASE_LEVELS.has(conditions[0].severityLevel);
+
+    const urgency: ResponseUrgency = urgentFlags.length > 0
+      ? 'high'
+      : warningFlags.length > 0 || severeTop ? 'medium' : 'low';
+
+    const parts = [
+      text.intro[input.reason],
+      input.symptoms.length > 0 ? text.symptoms.replace('{symptoms}', input.symptoms.join(', ')) : text.noSymptoms,
+    ];
+
+    if (conditions.length > 0) {
+      parts.push(text.conditions.replace('{conditions}', conditions.map(candidate => candidate.name).join(', ')));
+    }
+
+    if (urgentFlags.length > 0) {
+      parts.push(text.urgency.high.replace('{flags}', urgentFlags.join(', ')));
+    } else if (warningFlags.length > 0) {
+      parts.push(text.urgency.medium.replace('{flags}', warningFlags.join(', ')));
+    } else if (severeTop) {
+      parts.push(text.urgency.severe);
+    }
+
+    parts.push(text.escalation);
+
+    return {
+      message: parts.join('\n\n'),
+      suggestedActions: [text.guided, ...text.actions[urgency === 'high' ? 'high' : urgency === 'medium' ? 'medium' : 'low']],
+      followUpQuestions: input.symptoms.length < 2 ? text.questions : [],
+      possibleCauses: conditions.map(candidate => candidate.name),
+      redFlags: [...urgentFlags, ...warningFlags],
+      urgency,
+    };
+  }
+}
+
+// Exportar instancia singleton
+export const fallbackResponder = new FallbackResponderService();
+export default fallbackResponder;
@@ -0,0 +1,109 @@
+import { logger } from '../../utils/logger';
+import { CircuitBreakerSnapshot, CircuitState } from '../../types/llm';
+
+/**
+ * Circuit breaker para un servicio externo. Tras `failureThreshold` fallos
+ * consecutivos se abre y rechaza llamadas durante `resetTimeoutMs`; después
+ * permite una única llamada de prueba (half_open) que lo cierra o lo reabre.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastFailure: { at: Date; message: string } | null = null;
+  private totals = { successes: 0, failures: 0, rejected: 0 };
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Indica si se puede hacer una llamada; cuenta las rechazadas
+   */
+  public canRequest(): boolean {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half_open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    this.totals.rejected++;
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.totals.successes++;
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  public recordFailure(error: unknown): void {
+    this.totals.failures++;
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    this.lastFailure = {
+      at: new Date(),
+      message: error instanceof Error ? error.message : String(error),
+    };
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      resetTimeoutMs: this.resetTimeoutMs,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt: this.state === 'open' && this.openedAt !== null
+        ? new Date(this.openedAt + this.resetTimeoutMs).toISOString()
+        : null,
+      lastFailure: this.lastFailure
+        ? { at: this.lastFailure.at.toISOString(), message: this.lastFailure.message }
+        : null,
+      totals: { ...this.totals },
+    };
+  }
+
+  private transition(next: CircuitState): void {
+    const log = next === 'open' ? logger.error.bind(logger) : logger.warn.bind(logger);
+    log(`Circuit breaker ${this.name}: ${this.state} → ${next}`, {
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure?.message,
+    });
+    this.state = next;
+  }
+}
+
+// Circuit breaker compartido por las llamadas al proveedor de IA
+export const llmCircuitBreaker = new CircuitBreaker(
+  'llm',
+  parseInt(process.env['LLM_CIRCUIT_FAILURE_THRESHOLD'] || '5'),
+  parseInt(process.env['LLM_CIRCUIT_RESET_MS'] || '30000')
+);
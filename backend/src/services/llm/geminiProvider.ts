@@ -0,0 +1,163 @@
+import {
+  GoogleGenerativeAI,
+  Content,
+  EnhancedGenerateContentResponse,
+} from '@google/generative-ai';
+import {
+  LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMStreamHandler,
+  LLMFinishReason,
+  LLMUsage,
+  LLMSafetyMetadata,
+} from '../../types/llm';
+
+// La versión actual del SDK no tipa usageMetadata aunque la API sí lo devuelve
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+/**
+ * Adaptador del proveedor Google Gemini
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini';
+  public readonly model: string;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string = 'gemini-pro') {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  /**
+   * Genera una respuesta completa
+   */
+  public async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+
+    const result = await model.generateContent({
+      contents: this.buildContents(request),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+      },
+    });
+
+    return this.toResult(await result.response);
+  }
+
+  /**
+   * Genera una respuesta emitiendo fragmentos de texto conforme llegan
+   */
+  public async stream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResult> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+
+    const result = await model.generateContentStream({
+      contents: this.buildContents(request),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+      },
+    });
+
+    for await (const chunk of result.stream) {
+      const delta = this.safeText(chunk);
+      if (delta) {
+        onDelta(delta);
+      }
+    }
+
+    return this.toResult(await result.response);
+  }
+
+  /**
+   * Convierte la request genérica en contenidos de Gemini.
+   * Esta versión del SDK no soporta instrucciones de sistema, por lo que
+   * el prompt de sistema se antepone al turno actual del usuario.
+   */
+  private buildContents(request: LLMGenerateRequest): Content[] {
+    const contents: Content[] = request.messages.map(message => ({
+      role: message.role,
+      parts: [{ text: message.content }],
+    }));
+
+    const current = contents[contents.length - 1];
+    if (current && current.role === 'user') {
+      current.parts.unshift({ text: request.systemPrompt });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: request.systemPrompt }] });
+    }
+
+    return contents;
+  }
+
+  /**
+   * Normaliza la respuesta de Gemini al formato común
+   */
+  private toResult(response: EnhancedGenerateContentResponse): LLMGenerateResult {
+    const candidate = response.candidates?.[0];
+    const usageMetadata = (response as { usageMetadata?: GeminiUsageMetadata }).usageMetadata;
+
+    const usage: LLMUsage = {
+      promptTokens: usageMetadata?.promptTokenCount || 0,
+      completionTokens: usageMetadata?.candidatesTokenCount || 0,
+      totalTokens: usageMetadata?.totalTokenCount || 0,
+    };
+
+    const ratings = candidate?.safetyRatings || response.promptFeedback?.safetyRatings || [];
+    const safety: LLMSafetyMetadata = {
+      blocked: !!response.promptFeedback?.blockReason || candidate?.finishReason === 'SAFETY',
+      ratings: ratings.map(rating => ({
+        category: String(rating.category),
+        probability: String(rating.probability),
+      })),
+    };
+
+    if (response.promptFeedback?.blockReason) {
+      safety.blockReason = String(response.promptFeedback.blockReason);
+    }
+
+    return {
+      content: this.safeText(response),
+      provider: this.name,
+      model: this.model,
+      finishReason: this.mapFinishReason(candidate?.finishReason),
+      usage,
+      safety,
+    };
+  }
+
+  /**
+   * text() lanza excepción cuando la respuesta fue bloqueada
+   */
+  private safeText(response: EnhancedGenerateContentResponse): string {
+    try {
+      return response.text();
+    } catch {
+      return '';
+    }
+  }
+
+  private mapFinishReason(reason?: string): LLMFinishReason {
+    switch (reason) {
+      case 'STOP':
+        return 'stop';
+      case 'MAX_TOKENS':
+        return 'max_tokens';
+      case 'SAFETY':
+        return 'safety';
+      case 'RECITATION':
+        return 'recitation';
+      case 'OTHER':
+        return 'other';
+      default:
+        return 'unknown';
+    }
+  }
+}
+
+export default GeminiProvider;
@@ -0,0 +1,32 @@
+import { logger } from '../../utils/logger';
+import { LLMProvider, LLMProviderName } from '../../types/llm';
+import { GeminiProvider } from './geminiProvider';
+import { OfflineProvider } from './offlineProvider';
+import { ResilientProvider } from './resilientProvider';
+import { llmCircuitBreaker } from './circuitBreaker';
+
+/**
+ * Crea el proveedor de LLM configurado mediante LLM_PROVIDER.
+ * Los proveedores remotos se envuelven con tiempo límite, reintentos y
+ * circuit breaker.
+ */
+export function createLLMProvider(name?: LLMProviderName): LLMProvider {
+  const providerName = name || (process.env['LLM_PROVIDER'] as LLMProviderName) || 'gemini';
+
+  switch (providerName) {
+    case 'offline':
+      logger.info('🧪 Usando proveedor de IA offline (determinista)');
+      return new OfflineProvider(process.env['LLM_FIXTURES_PATH']);
+
+    case 'gemini':
+      return new ResilientProvider(new GeminiProvider(
+        process.env['GEMINI_API_KEY'] || '',
+        process.env['GEMINI_MODEL'] || 'gemini-pro'
+      ));
+
+    default:
+      throw new Error(`Proveedor de IA no soportado: ${providerName}`);
+  }
+}
+
+export { GeminiProvider, OfflineProvider, ResilientProvider, llmCircuitBreaker };
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { ConversationHistoryUtils } from '../../utils/medicalUtils';
+import {
+  LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMStreamHandler,
+} from '../../types/llm';
+
+// Respuesta fija para mensajes que contienen todas las palabras de "match"
+interface OfflineFixture {
+  id: string;
+  match: string[];
+  response: string;
+  language?: 'es' | 'en';
+}
+
+// Tema médico con texto educativo por idioma
+interface OfflineTopic {
+  id: string;
+  keywords: string[];
+  es: string;
+  en: string;
+  causes: { es: string[]; en: string[] };
+}
+
+const OFFLINE_TOPICS: OfflineTopic[] = [
+  {
+    id: 'reflux',
+    keywords: ['acidez', 'agruras', 'reflujo', 'ardor', 'quemazon', 'heartburn', 'reflux'],
+    es: 'La acidez y el ardor suelen relacionarse con reflujo gastroesofágico o gastritis. Comer porciones pequeñas, evitar acostarse después de comer y reducir irritantes (café, alcohol, picante) suele ayudar.',
+    en: 'Heartburn and burning are often related to acid reflux or gastritis. Smaller meals, not lying down after eating and avoiding irritants (coffee, alcohol, spicy food) usually help.',
+    causes: {
+      es: ['Reflujo gastroesofágico', 'Gastritis'],
+      en: ['Gastroesophageal reflux', 'Gastritis'],
+    },
+  },
+  {
+    id: 'diarrhea',
+    keywords: ['diarrea', 'evacuaciones', 'deposiciones', 'chorro', 'diarrhea'],
+    es: 'La diarrea aguda con frecuencia es de origen infeccioso o alimentario. Lo más importante es mantener la hidratación con suero oral y vigilar signos de deshidratación.',
+    en: 'Acute diarrhea is frequently caused by infections or food. The priority is staying hydrated with oral rehydration solution and watching for signs of dehydration.',
+    causes: {
+      es: ['Gastroenteritis infecciosa', 'Intoxicación alimentaria'],
+      en: ['Infectious gastroenteritis', 'Food poisoning'],
+    },
+  },
+  {
+    id: 'constipation',
+    keywords: ['estrenimiento', 'constipacion', 'no evacuo', 'constipation'],
+    es: 'El estreñimiento suele mejorar aumentando la fibra, el agua y la actividad física. Un cambio persistente en el hábito intestinal merece valoración médica.',
+    en: 'Constipation usually improves with more fiber, water and physical activity. A persistent change in bowel habits deserves medical evaluation.',
+    causes: {
+      es: ['Dieta baja en fibra', 'Hidratación insuficiente'],
+      en: ['Low-fiber diet', 'Insufficient hydration'],
+    },
+  },
+  {
+    id: 'nausea',
+    keywords: ['nausea', 'nauseas', 'vomito', 'vomitos', 'vomitar', 'devolver', 'vomiting'],
+    es: 'Las náuseas y los vómitos pueden deberse a infecciones, irritación gástrica o alimentos. Tome líquidos en sorbos pequeños y frecuentes.',
+    en: 'Nausea and vomiting can be caused by infections, gastric irritation or food. Take fluids in small, frequent sips.',
+    causes: {
+      es: ['Gastroenteritis', 'Irritación gástrica'],
+      en: ['Gastroenteritis', 'Gastric irritation'],
+    },
+  },
+  {
+    id: 'abdominal_pain',
+    keywords: ['dolor', 'duele', 'colico', 'barriga', 'panza', 'estomago', 'abdomen', 'pain'],
+    es: 'El dolor abdominal tiene muchas causas posibles; su ubicación, intensidad y duración ayudan a orientar la valoración.',
+    en: 'Abdominal pain has many possible causes; its location, intensity and duration help guide the evaluation.',
+    causes: {
+      es: ['Dispepsia', 'Gastritis', 'Colitis'],
+      en: ['Dyspepsia', 'Gastritis', 'Colitis'],
+    },
+  },
+  {
+    id: 'bloating',
+    keywords: ['gases', 'hinchazon', 'distension', 'inflamado', 'inflamacion', 'bloating', 'gas'],
+    es: 'Los gases y la distensión suelen relacionarse con la dieta o con trastornos funcionales como el colon irritable.',
+    en: 'Gas and bloating are usually related to diet or functional disorders such as irritable bowel syndrome.',
+    causes: {
+      es: ['Intolerancia alimentaria', 'Síndrome de intestino irritable'],
+      en: ['Food intolerance', 'Irritable bowel syndrome'],
+    },
+  },
+];
+
+const OFFLINE_TEMPLATES = {
+  es: {
+    intro: 'Gracias por compartir sus síntomas. Le comparto información educativa general.',
+    generic: 'Con la información disponible no es posible orientar hacia una causa concreta. Describir la ubicación, intensidad y duración de las molestias ayuda a orientar mejor.',
+    whenToSeek: 'Busque atención médica si los síntomas empeoran, duran más de unos días o aparecen fiebre alta, sangre en vómito o heces, o dolor intenso.',
+    disclaimer: 'Esta información es educativa y no sustituye la valoración de un profesional médico.',
+    catalog: 'Según nuestro catálogo clínico, estas molestias se relacionan con:',
+    actions: [
+      'Mantenga una hidratación adecuada',
+      'Lleve un registro de sus síntomas',
+      'Evite automedicarse',
+      'Consulte a su médico si los síntomas persisten',
+    ],
+    followUp: [
+      '¿Desde cuándo tiene estas molestias?',
+      '¿En qué parte del abdomen siente la molestia?',
+      '¿Ha tenido fiebre o sangre en el vómito o las heces?',
+    ],
+  },
+  en: {
+    intro: 'Thank you for sharing your symptoms. Here is some general educational information.',
+    generic: 'With the information available it is not possible to point to a specific cause. Describing the location, intensity and duration of your symptoms helps.',
+    whenToSeek: 'Seek medical care if symptoms worsen, last more than a few days, or if you develop high fever, blood in vomit or stool, or severe pain.',
+    disclaimer: 'This information is educational and does not replace evaluation by a medical professional.',
+    catalog: 'According to our clinical catalog, these symptoms are related to:',
+    actions: [
+      'Stay well hydrated',
+      'Keep a record of your symptoms',
+      'Avoid self-medicating',
+      'See your doctor if symptoms persist',
+    ],
+    followUp: [
+      'How long have you had these symptoms?',
+      'Where in your abdomen do you feel the discomfort?',
+      'Have you had fever or blood in vomit or stool?',
+    ],
+  },
+};
+
+/**
+ * Proveedor determinista sin red, basado en reglas y fixtures.
+ * Permite ejecutar el flujo completo del chat en desarrollo local, CI y demos.
+ */
+export class OfflineProvider implements LLMProvider {
+  public readonly name = 'offline';
+  public readonly model = 'offline-rules-v1';
+  private fixtures: OfflineFixture[];
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = fixturesPath ? this.loadFixtures(fixturesPath) : [];
+  }
+
+  /**
+   * Genera una respuesta reproducible para la misma entrada
+   */
+  public async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    const content = this.buildResponse(request);
+    const promptText = [request.systemPrompt, ...request.messages.map(m => m.content)].join('\n');
+
+    const promptTokens = ConversationHistoryUtils.estimateTokens(promptText);
+    const completionTokens = ConversationHistoryUtils.estimateTokens(content);
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      finishReason: 'stop',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      safety: {
+        blocked: false,
+        ratings: [],
+      },
+    };
+  }
+
+  /**
+   * Emite la respuesta palabra por palabra
+   */
+  public async stream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResult> {
+    const result = await this.generate(request);
+
+    result.content.split(/(?<=\s)/).forEach(delta => onDelta(delta));
+
+    return result;
+  }
+
+  /**
+   * Construye la respuesta a partir de fixtures o de las reglas por tema.
+   * Con responseFormat 'json' devuelve el sobre estructurado.
+   */
+  private buildResponse(request: LLMGenerateRequest): string {
+    const language = request.context?.language || 'es';
+    const lastMessage = request.messages[request.messages.length - 1];
+    const userText = this.normalize([
+      request.context?.userMessage || lastMessage?.content || '',
+      ...(request.context?.extractedSymptoms || []),
+    ].join(' '));
+
+    const fixture = this.fixtures.find(candidate =>
+      (!candidate.language || candidate.language === language) &&
+      candidate.match.every(keyword => userText.includes(this.normalize(keyword)))
+    );
+
+    const asJson = request.responseFormat === 'json';
+
+    if (fixture) {
+      // Los fixtures pueden traer el sobre JSON completo o solo el texto
+      return asJson && !fixture.response.trim().startsWith('{')
+        ? JSON.stringify(this.buildEnvelope(fixture.response, [], request))
+        : fixture.response;
+    }
+
+    const template = OFFLINE_TEMPLATES[language];
+    const topics = OFFLINE_TOPICS.filter(topic =>
+      topic.keywords.some(keyword => userText.includes(keyword))
+    );
+
+    const body = topics.length > 0
+      ? topics.map(topic => topic[language]).join('\n\n')
+      : template.generic;
+
+    // Registros del catálogo clínico recuperados para esta consulta
+    const catalogDiseases = (request.context?.catalog || []).filter(record => record.type === 'disease');
+    const catalogLine = catalogDiseases.length > 0
+      ? `${template.catalog} ${catalogDiseases.map(record => record.name).join(', ')}.`
+      : '';
+
+    const message = [template.intro, catalogLine, body, template.whenToSeek, template.disclaimer]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return asJson
+      ? JSON.stringify(this.buildEnvelope(message, topics, request))
+      : message;
+  }
+
+  private buildEnvelope(message: string, topics: OfflineTopic[], request: LLMGenerateRequest) {
+    const language = request.context?.language || 'es';
+    const template = OFFLINE_TEMPLATES[language];
+    const catalog = (request.context?.catalog || []).filter(record =>
+      record.type === 'disease' || record.type === 'symptom'
+    );
+
+    return {
+      message,
+      possibleCauses: [...new Set([
+        ...catalog.filter(record => record.type === 'disease').map(record => record.name),
+        ...topics.flatMap(topic => topic.causes[language]),
+      ])],
+      recommendedActions: template.actions,
+      urgency: topics.length > 1 ? 'medium' : 'low',
+      followUpQuestions: template.followUp,
+      redFlagsMentioned: [],
+      citations: catalog.map(record => record.ref),
+    };
+  }
+
+  /**
+   * Carga fixtures desde un archivo JSON
+   */
+  private loadFixtures(fixturesPath: string): OfflineFixture[] {
+    try {
+      const absolutePath = path.resolve(fixturesPath);
+      const fixtures = JSON.parse(fs.readFileSync(absolutePath, 'utf8'));
+
+      if (!Array.isArray(fixtures)) {
+        throw new Error('El archivo de fixtures debe contener un array');
+      }
+
+      logger.info(`Offline provider: ${fixtures.length} fixtures cargados`, { path: absolutePath });
+      return fixtures;
+    } catch (error) {
+      logger.error('Error loading offline provider fixtures:', error);
+      return [];
+    }
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '');
+  }
+}
+
+export default OfflineProvider;
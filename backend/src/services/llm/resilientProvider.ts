@@ -0,0 +1,175 @@
+import { logger } from '../../utils/logger';
+import { AIError } from '../../middleware/errorHandler';
+import {
+  LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMStreamHandler,
+} from '../../types/llm';
+import { CircuitBreaker, llmCircuitBreaker } from './circuitBreaker';
+
+interface ResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Códigos HTTP que justifican reintentar (límite de tasa y errores del servidor)
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * Envuelve un proveedor con tiempo límite por llamada, reintentos acotados
+ * con backoff exponencial y jitter, y un circuit breaker. Si la llamada no
+ * puede completarse lanza AIError para que el chat use la respuesta de
+ * respaldo basada en reglas.
+ */
+export class ResilientProvider implements LLMProvider {
+  public readonly name: string;
+  public readonly model: string;
+  private readonly options: ResilienceOptions;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly breaker: CircuitBreaker = llmCircuitBreaker,
+    options?: Partial<ResilienceOptions>
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.options = {
+      timeoutMs: parseInt(process.env['LLM_TIMEOUT_MS'] || '20000'),
+      maxRetries: parseInt(process.env['LLM_MAX_RETRIES'] || '2'),
+      baseDelayMs: parseInt(process.env['LLM_RETRY_BASE_DELAY_MS'] || '500'),
+      maxDelayMs: 5000,
+      ...options,
+    };
+  }
+
+  public async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+    return this.execute('generate', () => this.inner.generate(request), () => true);
+  }
+
+  /**
+   * El plazo cuenta hasta el primer fragmento y entre fragmentos, no sobre la
+   * respuesta completa. Solo se reintenta si aún no se emitió ningún fragmento,
+   * y los fragmentos tardíos de un intento descartado no llegan al cliente.
+   */
+  public async stream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResult> {
+    let emitted = false;
+
+    return this.execute(
+      'stream',
+      (keepAlive, attempt) => this.inner.stream(request, delta => {
+        if (attempt.superseded) return;
+        keepAlive();
+        emitted = true;
+        onDelta(delta);
+      }),
+      () => !emitted
+    );
+  }
+
+  /**
+   * `keepAlive` reinicia el plazo del intento; `attempt.superseded` pasa a
+   * true cuando el intento falla o vence, para ignorar lo que emita después
+   */
+  private async execute(
+    operation: string,
+    call: (keepAlive: () => void, attempt: { superseded: boolean }) => Promise<LLMGenerateResult>,
+    canRetry: () => boolean
+  ): Promise<LLMGenerateResult> {
+    if (!this.breaker.canRequest()) {
+      throw new AIError('AI service unavailable: circuit open', undefined, this.model);
+    }
+
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      const state = { superseded: false };
+
+      try {
+        const result = await this.withTimeout(keepAlive => call(keepAlive, state));
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        state.superseded = true;
+        lastError = error;
+        const retry = attempt < this.options.maxRetries && canRetry() && this.isRetryable(error);
+
+        logger.warn(`LLM ${operation} failed`, {
+          provider: this.name,
+          attempt: attempt + 1,
+          retry,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        if (!retry) break;
+        await this.sleep(this.backoff(attempt));
+      }
+    }
+
+    this.breaker.recordFailure(lastError);
+    throw new AIError(
+      `AI service unavailable: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+      undefined,
+      this.model
+    );
+  }
+
+  /**
+   * El SDK no admite cancelación: al vencer el plazo se descarta la respuesta.
+   * Cada llamada a `keepAlive` vuelve a contar el plazo desde cero.
+   */
+  private withTimeout<T>(run: (keepAlive: () => void) => Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    let expire: (error: LLMTimeoutError) => void = () => undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      expire = reject;
+    });
+    const arm = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => expire(new LLMTimeoutError(this.options.timeoutMs)), this.options.timeoutMs);
+    };
+
+    arm();
+    return Promise.race([run(arm), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Errores de red, tiempo límite, límite de tasa y 5xx; el resto (p. ej.
+   * clave inválida o request mal formada) no mejora al reintentar
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof LLMTimeoutError) return true;
+
+    const status = (error as { status?: number })?.status
+      ?? Number((error instanceof Error ? error.message : '').match(/\[(\d{3})[ \]]/)?.[1]);
+
+    if (status && !Number.isNaN(status)) {
+      return RETRYABLE_STATUS.has(status);
+    }
+
+    // Fallos de red sin respuesta HTTP (fetch failed, ECONNRESET...)
+    return true;
+  }
+
+  /**
+   * Backoff exponencial con jitter (mitad fija, mitad aleatoria) para no
+   * sincronizar los reintentos de varias solicitudes
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
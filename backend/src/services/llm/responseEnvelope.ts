@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { AIResponseEnvelope } from '../../types/medical';
+
+// Normaliza listas: recorta espacios, descarta vacíos y limita a 5 elementos
+const stringList = z
+  .array(z.string())
+  .default([])
+  .transform(items => items.map(item => item.trim()).filter(Boolean).slice(0, 5));
+
+export const responseEnvelopeSchema: z.ZodType<AIResponseEnvelope, z.ZodTypeDef, unknown> = z.object({
+  message: z.string().trim().min(1, 'message no puede estar vacío'),
+  possibleCauses: stringList,
+  recommendedActions: stringList,
+  urgency: z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['low', 'medium', 'high', 'emergency'])
+  ),
+  followUpQuestions: stringList,
+  redFlagsMentioned: stringList,
+  citations: z
+    .array(z.string())
+    .default([])
+    .transform(refs => [...new Set(refs.map(ref => ref.trim().toLowerCase()).filter(Boolean))]),
+});
+
+export type EnvelopeParseResult =
+  | { success: true; envelope: AIResponseEnvelope }
+  | { success: false; error: string };
+
+// Instrucciones de formato que se agregan al prompt del usuario
+export const RESPONSE_ENVELOPE_INSTRUCTIONS = `FORMATO DE SALIDA OBLIGATORIO:
+Responde ÚNICAMENTE con un objeto JSON válido, sin texto antes ni después y sin bloques de código, con estas claves en este orden:
+{
+  "message": "respuesta completa para el paciente, en el idioma indicado, incluyendo disclaimer médico",
+  "possibleCauses": ["posibles causas comunes, sin diagnosticar"],
+  "recommendedActions": ["acciones concretas recomendadas"],
+  "urgency": "low | medium | high | emergency",
+  "followUpQuestions": ["preguntas para aclarar los síntomas"],
+  "redFlagsMentioned": ["signos de alarma presentes en el mensaje del paciente"],
+  "citations": ["ids del catálogo clínico en los que te basaste, p. ej. disease:3"]
+}
+Usa "urgency": "emergency" solo si los síntomas requieren atención inmediata (911).`;
+
+/**
+ * Extrae y valida el sobre JSON de la respuesta del modelo.
+ * Tolera bloques de código y texto alrededor del objeto.
+ */
+export function parseResponseEnvelope(raw: string): EnvelopeParseResult {
+  const candidate = extractJsonObject(raw);
+
+  if (!candidate) {
+    return { success: false, error: 'La respuesta no contiene un objeto JSON' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(candidate);
+  } catch (error) {
+    return {
+      success: false,
+      error: `JSON inválido: ${error instanceof Error ? error.message : 'error de sintaxis'}`,
+    };
+  }
+
+  const result = responseEnvelopeSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.errors
+        .map(issue => `${issue.path.join('.') || 'raíz'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+
+  return { success: true, envelope: result.data };
+}
+
+/**
+ * Prompt para pedir al modelo que corrija una respuesta malformada
+ */
+export function buildRepairPrompt(raw: string, error: string): string {
+  return `Tu respuesta anterior no cumple el formato requerido (${error}).
+
+Reescribe el MISMO contenido como un único objeto JSON válido, sin agregar información médica nueva.
+
+${RESPONSE_ENVELOPE_INSTRUCTIONS}
+
+RESPUESTA ANTERIOR:
+${raw.substring(0, 4000)}`;
+}
+
+function extractJsonObject(raw: string): string | null {
+  const withoutFences = raw.replace(/```(?:json)?/gi, '');
+  const start = withoutFences.indexOf('{');
+  const end = withoutFences.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  return withoutFences.slice(start, end + 1);
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+};
+
+/**
+ * Decodifica de forma incremental el campo "message" mientras el sobre JSON
+ * llega por fragmentos, para que el streaming muestre texto y no JSON crudo.
+ */
+export class EnvelopeMessageStreamer {
+  private buffer = '';
+  private state: 'seeking' | 'reading' | 'done' = 'seeking';
+  private pendingEscape = '';
+
+  /**
+   * Recibe un fragmento crudo y devuelve el texto nuevo del mensaje
+   */
+  public push(chunk: string): string {
+    if (this.state === 'done') {
+      return '';
+    }
+
+    let input = chunk;
+
+    if (this.state === 'seeking') {
+      this.buffer += chunk;
+      const match = /"message"\s*:\s*"/.exec(this.buffer);
+      if (!match) {
+        return '';
+      }
+
+      this.state = 'reading';
+      input = this.buffer.slice(match.index + match[0].length);
+      this.buffer = '';
+    }
+
+    let output = '';
+
+    for (const char of input) {
+      if (this.pendingEscape) {
+        this.pendingEscape += char;
+
+        if (this.pendingEscape.startsWith('\\u')) {
+          if (this.pendingEscape.length < 6) continue;
+          const code = parseInt(this.pendingEscape.slice(2), 16);
+          if (!Number.isNaN(code)) {
+            output += String.fromCharCode(code);
+          }
+        } else {
+          output += JSON_ESCAPES[char] ?? char;
+        }
+
+        this.pendingEscape = '';
+        continue;
+      }
+
+      if (char === '\\') {
+        this.pendingEscape = char;
+      } else if (char === '"') {
+        this.state = 'done';
+        break;
+      } else {
+        output += char;
+      }
+    }
+
+    return output;
+  }
+}
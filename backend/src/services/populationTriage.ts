@@ -0,0 +1,375 @@
+import { MedicalDataValidator, MedicalTextNormalizer } from '../utils/medicalUtils';
+import {
+  ChatMessage,
+  ChatRequest,
+  EmergencyEvaluation,
+  EmergencyRule,
+  EmergencySeverityTier,
+  PopulationAdjustment,
+  PopulationGroup,
+  PopulationProfile,
+  PopulationSummary,
+  ResponseUrgency,
+} from '../types/medical';
+
+type Localized = { es: string; en: string };
+
+// Urgencia mínima cuando la población presenta alguno de los síntomas
+interface PopulationUrgencyRule {
+  id: string;
+  population: PopulationGroup;
+  symptoms: string[]; // Nombres canónicos de Symptom
+  urgency: ResponseUrgency;
+  reason: Localized;
+}
+
+// Señal de alarma que solo se evalúa en una población
+interface PopulationRedFlag {
+  population: PopulationGroup;
+  rule: EmergencyRule;
+  reason: Localized;
+}
+
+const URGENCY_ORDER: ResponseUrgency[] = ['low', 'medium', 'high', 'emergency'];
+
+const TIER_URGENCY: Record<EmergencySeverityTier, ResponseUrgency> = {
+  critical: 'emergency',
+  urgent: 'high',
+  warning: 'medium',
+};
+
+const POPULATION_LABELS: Record<PopulationGroup, Localized> = {
+  infant: { es: 'lactante (menor de 2 años)', en: 'infant (under 2 years)' },
+  pediatric: { es: 'paciente pediátrico', en: 'pediatric patient' },
+  adult: { es: 'adulto', en: 'adult' },
+  geriatric: { es: 'adulto mayor (65 años o más)', en: 'older adult (65 or older)' },
+  pregnancy: { es: 'embarazo', en: 'pregnancy' },
+};
+
+const URGENCY_RULES: PopulationUrgencyRule[] = [
+  {
+    id: 'infant-gi-losses',
+    population: 'infant',
+    symptoms: ['Vómitos', 'Diarrea', 'Deshidratación'],
+    urgency: 'high',
+    reason: {
+      es: 'En lactantes el vómito o la diarrea pueden causar deshidratación en pocas horas; requiere valoración médica hoy.',
+      en: 'In infants, vomiting or diarrhea can cause dehydration within hours; they need a medical evaluation today.',
+    },
+  },
+  {
+    id: 'infant-fever',
+    population: 'infant',
+    symptoms: ['Fiebre'],
+    urgency: 'high',
+    reason: {
+      es: 'La fiebre en un lactante requiere valoración médica hoy.',
+      en: 'Fever in an infant needs a medical evaluation today.',
+    },
+  },
+  {
+    id: 'pediatric-gi-losses',
+    population: 'pediatric',
+    symptoms: ['Vómitos', 'Diarrea', 'Deshidratación'],
+    urgency: 'medium',
+    reason: {
+      es: 'Los niños se deshidratan antes que los adultos con vómito o diarrea; vigile que beba líquidos y orine con normalidad.',
+      en: 'Children become dehydrated sooner than adults with vomiting or diarrhea; make sure they drink fluids and urinate normally.',
+    },
+  },
+  {
+    id: 'geriatric-abdominal-pain',
+    population: 'geriatric',
+    symptoms: ['Dolor abdominal', 'Dolor abdominal severo'],
+    urgency: 'high',
+    reason: {
+      es: 'En mayores de 65 años el dolor abdominal puede deberse a causas graves con pocos síntomas; requiere valoración médica hoy.',
+      en: 'In people over 65, abdominal pain can come from serious causes with few symptoms; it needs a medical evaluation today.',
+    },
+  },
+  {
+    id: 'geriatric-gi-losses',
+    population: 'geriatric',
+    symptoms: ['Vómitos', 'Diarrea'],
+    urgency: 'medium',
+    reason: {
+      es: 'En adultos mayores el vómito o la diarrea deshidratan con facilidad y pueden alterar medicamentos habituales.',
+      en: 'In older adults, vomiting or diarrhea dehydrate easily and can affect regular medications.',
+    },
+  },
+  {
+    id: 'pregnancy-abdominal-pain',
+    population: 'pregnancy',
+    symptoms: ['Dolor abdominal', 'Dolor abdominal severo'],
+    urgency: 'high',
+    reason: {
+      es: 'El dolor abdominal durante el embarazo debe valorarlo un médico hoy.',
+      en: 'Abdominal pain during pregnancy should be evaluated by a doctor today.',
+    },
+  },
+  {
+    id: 'pregnancy-vomiting',
+    population: 'pregnancy',
+    symptoms: ['Vómitos', 'Deshidratación'],
+    urgency: 'medium',
+    reason: {
+      es: 'Los vómitos persistentes en el embarazo pueden causar deshidratación; consulte a su médico u obstetra.',
+      en: 'Persistent vomiting in pregnancy can cause dehydration; contact your doctor or obstetrician.',
+    },
+  },
+];
+
+/**
+ * Señales de alarma propias de cada población. Los patrones se evalúan sobre
+ * texto normalizado (minúsculas, sin acentos ni puntuación).
+ */
+const RED_FLAGS: PopulationRedFlag[] = [
+  {
+    population: 'pregnancy',
+    rule: { id: 'pregnancy-vaginal-bleeding', tier: 'critical', type: 'regex', category: 'pregnancy', pattern: '\\bsangrado vaginal\\b|\\bsangr\\w* (por|de) (la )?vagina\\b|\\bvaginal bleeding\\b', description: 'Sangrado vaginal en el embarazo' },
+    reason: { es: 'Sangrado vaginal durante el embarazo.', en: 'Vaginal bleeding during pregnancy.' },
+  },
+  {
+    population: 'pregnancy',
+    rule: { id: 'pregnancy-fetal-movement', tier: 'critical', type: 'regex', category: 'pregnancy', pattern: '\\b(el |mi )?bebe (ya )?no se mueve\\b|\\bno siento (que se mueva )?(al|a mi) bebe\\b|\\bbaby (is not|isn t|stopped|has stopped) moving\\b', description: 'Disminución de movimientos fetales' },
+    reason: { es: 'Disminución de los movimientos del bebé.', en: 'Reduced baby movements.' },
+  },
+  {
+    population: 'pregnancy',
+    rule: { id: 'pregnancy-preeclampsia', tier: 'urgent', type: 'regex', category: 'pregnancy', pattern: '\\bdolor de cabeza (muy )?(fuerte|intenso|severo)\\b|\\bvision borrosa\\b|\\bhinchazon (de|en) (la )?cara\\b|\\bsevere headache\\b|\\bblurr(ed|y) vision\\b', description: 'Signos de preeclampsia' },
+    reason: { es: 'Dolor de cabeza intenso, visión borrosa o hinchazón de la cara en el embarazo pueden indicar preeclampsia.', en: 'Severe headache, blurred vision or facial swelling in pregnancy can indicate preeclampsia.' },
+  },
+  {
+    population: 'pregnancy',
+    rule: { id: 'pregnancy-fluid-leak', tier: 'urgent', type: 'regex', category: 'pregnancy', pattern: '\\brompi\\w* (la )?fuente\\b|\\bsalida de liquido\\b|\\bwater (broke|has broken)\\b', description: 'Salida de líquido amniótico' },
+    reason: { es: 'Posible salida de líquido amniótico.', en: 'Possible leak of amniotic fluid.' },
+  },
+  {
+    population: 'infant',
+    rule: { id: 'infant-lethargy', tier: 'critical', type: 'regex', category: 'pediatric', pattern: '\\baletargad[oa]\\b|\\bno despierta\\b|\\bno reacciona\\b|\\blethargic\\b|\\bunresponsive\\b', description: 'Lactante aletargado o que no reacciona' },
+    reason: { es: 'Un lactante aletargado o que no reacciona.', en: 'An infant who is lethargic or unresponsive.' },
+  },
+  {
+    population: 'infant',
+    rule: { id: 'infant-bilious-vomit', tier: 'critical', type: 'regex', category: 'pediatric', pattern: '\\bvomit\\w* verde\\b|\\bgreen vomit\\b', description: 'Vómito verde en lactante' },
+    reason: { es: 'Vómito verde (bilioso) en un lactante.', en: 'Green (bilious) vomit in an infant.' },
+  },
+  {
+    population: 'infant',
+    rule: { id: 'infant-dry-diapers', tier: 'urgent', type: 'regex', category: 'pediatric', pattern: '\\bno (ha )?moja\\w* (el |los )?panal\\w*\\b|\\bpanal\\w* secos?\\b|\\bno wet diapers?\\b|\\bdry diapers?\\b', description: 'Pañales secos' },
+    reason: { es: 'Pañales secos por varias horas, señal de deshidratación.', en: 'Dry diapers for several hours, a sign of dehydration.' },
+  },
+  {
+    population: 'infant',
+    rule: { id: 'infant-sunken-fontanelle', tier: 'urgent', type: 'regex', category: 'pediatric', pattern: '\\bmollera hundida\\b|\\bsunken (soft spot|fontanelle)\\b', description: 'Fontanela hundida' },
+    reason: { es: 'Mollera hundida, señal de deshidratación.', en: 'Sunken soft spot, a sign of dehydration.' },
+  },
+];
+
+// Señales de población en el mensaje (texto normalizado)
+const PREGNANCY_PATTERN = /\b(embarazada|embarazo|encinta|gestacion|pregnant|pregnancy)\b/;
+const INFANT_PATTERN = /\b(mi|nuestro|nuestra|my|our) (bebe|bebito|bebita|baby|infant|newborn)\b|\b(lactante|recien nacid[oa])\b/;
+const AGE_PATTERNS = [
+  /\btengo (\d{1,3}) (anos)\b/,
+  /\b(?:hijo|hija|nino|nina|bebe|bebito|bebita) (?:de|tiene) (\d{1,2}) (anos|meses)\b/,
+  /\b(?:i m|im|i am) (\d{1,3}) (years?) old\b/,
+  /\b(?:son|daughter|child|baby) is (\d{1,2}) (years?|months?) old\b/,
+];
+const NEGATION_TOKENS = new Set(['no', 'not', 'nunca', 'never']);
+
+const EXPLANATION_TEXT = {
+  es: {
+    title: 'Consideraciones por edad o embarazo:',
+    action: 'Acuda a valoración médica hoy',
+  },
+  en: {
+    title: 'Age or pregnancy considerations:',
+    action: 'Get a medical evaluation today',
+  },
+};
+
+/**
+ * Ajustes de triaje por población: edad (lactante, pediátrico, adulto mayor)
+ * y embarazo. Baja los umbrales de derivación y agrega señales de alarma
+ * propias de cada población. Cada ajuste se explica en la respuesta y en sus
+ * metadatos; los tratamientos los filtra treatmentSafety.
+ */
+export class PopulationTriageService {
+  /**
+   * Perfil del paciente: el contexto de usuario tiene prioridad sobre lo que
+   * se menciona en el mensaje o en los turnos previos
+   */
+  public resolveProfile(
+    message: string,
+    userContext?: ChatRequest['userContext'],
+    history: ChatMessage[] = []
+  ): PopulationProfile {
+    const texts = [message, ...history.filter(entry => entry.role === 'user').map(entry => entry.content).reverse()]
+      .map(text => MedicalTextNormalizer.normalize(text || ''))
+      .filter(Boolean);
+
+    const profile: PopulationProfile = { ageCategory: null, pregnant: false, sources: {} };
+
+    const mentionedAge = userContext?.age === undefined ? this.findAge(texts) : undefined;
+    const age = userContext?.age ?? mentionedAge;
+    if (age !== undefined) {
+      const validation = MedicalDataValidator.validateAge(age);
+      if (validation.category !== 'invalid') {
+        profile.age = age;
+        profile.ageCategory = validation.category;
+        profile.sources.age = userContext?.age !== undefined ? 'user_context' : 'message';
+      }
+    } else if (texts.some(text => INFANT_PATTERN.test(text))) {
+      profile.ageCategory = 'infant';
+      profile.sources.age = 'message';
+    }
+
+    const mentionedPregnancy = userContext?.pregnant === undefined ? this.findPregnancy(texts) : undefined;
+    if (userContext?.pregnant !== undefined) {
+      profile.pregnant = userContext.pregnant;
+      profile.sources.pregnancy = 'user_context';
+    } else if (mentionedPregnancy !== undefined) {
+      profile.pregnant = mentionedPregnancy;
+      profile.sources.pregnancy = 'message';
+    }
+
+    return profile;
+  }
+
+  /**
+   * Reglas de alarma que se agregan al motor de emergencias para este perfil
+   */
+  public redFlagRules(profile: PopulationProfile): EmergencyRule[] {
+    const groups = this.groupsOf(profile);
+    return RED_FLAGS.filter(flag => groups.includes(flag.population)).map(flag => flag.rule);
+  }
+
+  /**
+   * Ajustes de urgencia y señales de alarma de la población. Devuelve null
+   * si no se conoce la edad ni el embarazo.
+   */
+  public assess(
+    profile: PopulationProfile,
+    symptoms: string[],
+    evaluation: EmergencyEvaluation,
+    language: 'es' | 'en'
+  ): PopulationSummary | null {
+    if (!profile.ageCategory && !profile.pregnant) {
+      return null;
+    }
+
+    const groups = this.groupsOf(profile);
+    const adjustments: PopulationAdjustment[] = [];
+
+    URGENCY_RULES
+      .filter(rule => groups.includes(rule.population) && rule.symptoms.some(symptom => symptoms.includes(symptom)))
+      .forEach(rule => adjustments.push({
+        ruleId: rule.id,
+        type: 'urgency_raised',
+        population: rule.population,
+        reason: rule.reason[language],
+        urgency: rule.urgency,
+      }));
+
+    const matched = new Set(evaluation.matches.map(match => match.ruleId));
+    RED_FLAGS
+      .filter(flag => groups.includes(flag.population) && matched.has(flag.rule.id))
+      .forEach(flag => adjustments.push({
+        ruleId: flag.rule.id,
+        type: 'red_flag',
+        population: flag.population,
+        reason: flag.reason[language],
+        urgency: TIER_URGENCY[flag.rule.tier],
+      }));
+
+    return { profile, adjustments };
+  }
+
+  /**
+   * Eleva la urgencia al mínimo que imponen los ajustes y agrega su
+   * explicación al mensaje
+   */
+  public apply(
+    response: { message: string; urgency: ResponseUrgency; actions: string[] },
+    population: PopulationSummary,
+    language: 'es' | 'en'
+  ): { message: string; urgency: ResponseUrgency; actions: string[] } {
+    const text = EXPLANATION_TEXT[language];
+    const urgency = population.adjustments.reduce<ResponseUrgency>(
+      (current, adjustment) => URGENCY_ORDER.indexOf(adjustment.urgency) > URGENCY_ORDER.indexOf(current)
+        ? adjustment.urgency
+        : current,
+      response.urgency
+    );
+
+    const lines = population.adjustments.map(adjustment => `- ${adjustment.reason}`);
+
+    const raisedToHigh = URGENCY_ORDER.indexOf(urgency) >= URGENCY_ORDER.indexOf('high')
+      && URGENCY_ORDER.indexOf(response.urgency) < URGENCY_ORDER.indexOf('high');
+
+    return {
+      message: lines.length > 0 ? `${response.message}\n\n${text.title}\n${lines.join('\n')}` : response.message,
+      urgency,
+      actions: raisedToHigh && !response.actions.includes(text.action) ? [text.action, ...response.actions] : response.actions,
+    };
+  }
+
+  /**
+   * Bloque del prompt con la población y los ajustes obligatorios
+   */
+  public buildPromptNotes(population: PopulationSummary): string {
+    const { profile, adjustments } = population;
+    const groups = this.groupsOf(profile).map(group => POPULATION_LABELS[group].es);
+
+    let notes = `POBLACIÓN DEL PACIENTE: ${groups.join(', ')}. Adapta las recomendaciones a esta población.`;
+
+    if (adjustments.length > 0) {
+      notes += `\nAJUSTES DE TRIAJE (la urgencia no puede ser menor a la indicada):
+${adjustments.map(adjustment => `- ${adjustment.reason} (urgencia mínima: ${adjustment.urgency})`).join('\n')}`;
+    }
+
+    return notes;
+  }
+
+  private groupsOf(profile: PopulationProfile): PopulationGroup[] {
+    return [
+      ...(profile.ageCategory ? [profile.ageCategory] : []),
+      ...(profile.pregnant ? ['pregnancy' as const] : []),
+    ];
+  }
+
+  /**
+   * Edad mencionada ("tengo 70 años", "mi hijo de 8 meses"); en meses se
+   * convierte a años cumplidos
+   */
+  private findAge(texts: string[]): number | undefined {
+    for (const text of texts) {
+      for (const pattern of AGE_PATTERNS) {
+        const match = text.match(pattern);
+        if (match?.[1]) {
+          const value = parseInt(match[1]);
+          return /^(meses|months?)$/.test(match[2] || '') ? Math.floor(value / 12) : value;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Embarazo mencionado; "no estoy embarazada" cuenta como respuesta negativa
+   */
+  private findPregnancy(texts: string[]): boolean | undefined {
+    for (const text of texts) {
+      const match = PREGNANCY_PATTERN.exec(text);
+      if (match) {
+        const preceding = text.slice(0, match.index).split(' ').filter(Boolean).slice(-3);
+        return !preceding.some(token => NEGATION_TOKENS.has(token));
+      }
+    }
+    return undefined;
+  }
+}
+
+// Exportar instancia singleton
+export const populationTriage = new PopulationTriageService();
+export default populationTriage;
@@ -0,0 +1,408 @@
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { logger } from '../utils/logger';
+import { catalogRetrieval, CatalogSnapshot } from './catalogRetrieval';
+import { emergencyRules } from './emergencyRules';
+import {
+  ChatMessage,
+  DispositionLevel,
+  EmergencyRule,
+  EmergencyRuleSet,
+  RedFlagCheck,
+  RedFlagCheckKind,
+  RedFlagCheckStatus,
+  RedFlagChecklist,
+} from '../types/medical';
+
+type Localized = { es: string; en: string };
+
+// Señal de alarma conocida: reconoce tanto el texto del catálogo como el del paciente
+interface RedFlagDefinition {
+  id: string;
+  pattern: string; // Regex sobre texto normalizado
+  level: DispositionLevel;
+  label: Localized;
+  question: Localized;
+  // Frase que reconocen las reglas critical: un "sí" se evalúa como si el paciente la hubiera dicho
+  statement?: string;
+}
+
+interface ResolvedCheck {
+  check: RedFlagCheck;
+  rule: EmergencyRule;
+  question: string;
+  statement?: string;
+}
+
+// Resultado del turno: la lista y las respuestas afirmativas que deben pasar por las reglas de emergencia
+export interface RedFlagEvaluation {
+  checklist: RedFlagChecklist;
+  statements: string[];
+}
+
+const LEVEL_ORDER: DispositionLevel[] = ['self_care', 'primary_care_72h', 'same_day', 'urgent_care', 'emergency'];
+
+const MAX_CHECKS = 12;
+
+// Señales del catálogo sin definición conocida e indicadores de gravedad
+const CATALOG_RED_FLAG_LEVEL: DispositionLevel = 'urgent_care';
+const SEVERITY_INDICATOR_LEVEL: DispositionLevel = 'same_day';
+
+// Solo se usa como contenedor de las reglas de la lista; no agrega reglas propias
+const EMPTY_RULE_SET: EmergencyRuleSet = { version: -1, rules: [] };
+
+// Respuesta breve a la pregunta del turno anterior (primera cláusula del mensaje)
+const YES_REPLY = /^(si|sip|claro|correcto|afirmativo|asi es|yes|yeah|yep)( (tengo|la tengo|lo tengo|las tengo|los tengo|doctor|doctora|i do|i have))?$/;
+const NO_REPLY = /^(no|nop|negativo|para nada|nope)( (tengo|la tengo|lo tengo|nada|doctor|doctora|i don t|i do not))?$/;
+const CLAUSE_SEPARATORS = /[.;:!?,\n]+/;
+
+const RED_FLAG_DEFINITIONS: RedFlagDefinition[] = [
+  {
+    id: 'rigid-abdomen',
+    pattern: '\\b(abdomen|panza|barriga|estomago) (rigido|duro)\\b|\\bduro como (una )?tabla\\b|\\brigidez abdominal\\b|\\brigid abdomen\\b|\\babdominal rigidity\\b',
+    level: 'emergency',
+    label: { es: 'Abdomen rígido', en: 'Rigid abdomen' },
+    question: { es: '¿Tiene el abdomen duro o rígido, como una tabla?', en: 'Is your abdomen hard or rigid, like a board?' },
+    statement: 'abdomen rigido',
+  },
+  {
+    id: 'blood-in-stool',
+    pattern: '\\bsangre en (las |la |mis )?(heces|popo|evacuaciones|deposiciones)\\b|\\b(heces|popo|evacuaciones|deposiciones|diarrea) (con sangre|negras)\\b|\\bsangrado rectal\\b|\\brectorragia\\b|\\bmelena\\b|\\bblood in (my )?(stool|poop)\\b|\\bbloody (stool|diarrh?ea)\\b|\\bblack stools?\\b',
+    level: 'emergency',
+    label: { es: 'Sangre en las heces', en: 'Blood in the stool' },
+    question: { es: '¿Ha visto sangre en las heces o heces negras?', en: 'Have you seen blood in your stool or black stools?' },
+    statement: 'sangre en las heces',
+  },
+  {
+    id: 'blood-in-vomit',
+    pattern: '\\b(vomit\\w*|devolv\\w*) (con |de )?sangre\\b|\\bsangre en (el )?vomito\\b|\\bhematemesis\\b|\\bvomiting blood\\b|\\bblood in (my )?vomit\\b',
+    level: 'emergency',
+    label: { es: 'Vómito con sangre', en: 'Vomiting blood' },
+    question: { es: '¿Ha vomitado sangre o algo parecido a posos de café?', en: 'Have you vomited blood or something like coffee grounds?' },
+    statement: 'vomito con sangre',
+  },
+  {
+    id: 'fever',
+    pattern: '\\bfiebre\\b|\\bcalentura\\b|\\btemperatura (alta|elevada)\\b|\\bfever\\b',
+    level: 'urgent_care',
+    label: { es: 'Fiebre', en: 'Fever' },
+    question: { es: '¿Tiene fiebre (38 °C o más)?', en: 'Do you have a fever (38 °C / 100.4 °F or higher)?' },
+  },
+  {
+    id: 'dehydration',
+    pattern: '\\bdeshidrata\\w*\\b|\\bboca (muy )?seca\\b|\\bmucha sed\\b|\\bsed excesiva\\b|\\borina (muy )?oscura\\b|\\b(casi )?no (he )?orin\\w*\\b|\\bdehydrat\\w*\\b|\\bvery thirsty\\b|\\bdark urine\\b',
+    level: 'urgent_care',
+    label: { es: 'Signos de deshidratación', en: 'Signs of dehydration' },
+    question: { es: '¿Tiene la boca muy seca, mucha sed o la orina escasa y oscura?', en: 'Do you have a very dry mouth, strong thirst, or little and dark urine?' },
+  },
+  {
+    id: 'persistent-vomiting',
+    pattern: '\\bvomitos? (persistentes?|continuos?)\\b|\\bno (puedo )?(dejo|paro) de vomitar\\b|\\bvomit\\w* todo\\b|\\bno (tolero|retengo) (los )?liquidos\\b|\\bpersistent vomiting\\b|\\bcan ?t keep (any )?(fluids|liquids|water) down\\b',
+    level: 'urgent_care',
+    label: { es: 'Vómitos persistentes', en: 'Persistent vomiting' },
+    question: { es: '¿Vomita todo lo que toma, incluso los líquidos?', en: 'Are you vomiting everything you drink, even liquids?' },
+  },
+  {
+    id: 'severe-pain',
+    pattern: '\\bdolor (muy )?(intenso|severo|insoportable|fuerte)\\b|\\bsevere pain\\b|\\bunbearable pain\\b',
+    level: 'urgent_care',
+    label: { es: 'Dolor intenso', en: 'Severe pain' },
+    question: { es: '¿El dolor es tan intenso que no le deja hacer sus actividades?', en: 'Is the pain so severe that it stops you from doing your usual activities?' },
+  },
+  {
+    id: 'jaundice',
+    pattern: '\\bictericia\\b|\\b(piel|ojos) amarill\\w*\\b|\\bjaundice\\b|\\byellow (skin|eyes)\\b',
+    level: 'same_day',
+    label: { es: 'Piel u ojos amarillos', en: 'Yellow skin or eyes' },
+    question: { es: '¿Ha notado la piel o los ojos amarillos?', en: 'Have you noticed yellowing of your skin or eyes?' },
+  },
+  {
+    id: 'weight-loss',
+    pattern: '\\bperdida de peso\\b|\\bperd\\w* (de )?peso\\b|\\bbaj\\w* de peso\\b|\\badelgaz\\w*\\b|\\bweight loss\\b|\\blos(t|ing) weight\\b',
+    level: 'primary_care_72h',
+    label: { es: 'Pérdida de peso sin causa', en: 'Unexplained weight loss' },
+    question: { es: '¿Ha perdido peso sin proponérselo?', en: 'Have you lost weight without trying?' },
+  },
+  {
+    id: 'dysphagia',
+    pattern: '\\bdisfagia\\b|\\bdificultad (para|al) tragar\\b|\\b(me )?cuesta tragar\\b|\\b(trouble|difficulty) swallowing\\b',
+    level: 'primary_care_72h',
+    label: { es: 'Dificultad para tragar', en: 'Difficulty swallowing' },
+    question: { es: '¿Le cuesta tragar o siente que la comida se atora?', en: 'Do you have trouble swallowing or feel food getting stuck?' },
+  },
+];
+
+const TEXT = {
+  es: { genericQuestion: '¿Presenta {label}?', answerHint: 'Responda sí o no.' },
+  en: { genericQuestion: 'Do you have {label}?', answerHint: 'Please answer yes or no.' },
+};
+
+const PROMPT_STATUS: Record<RedFlagCheckStatus, string> = {
+  present: 'PRESENTES',
+  absent: 'DESCARTADAS',
+  unknown: 'SIN CONFIRMAR',
+};
+
+/**
+ * Revisión de las señales de alarma (Symptom.redFlags) y los indicadores de
+ * gravedad (Symptom.severityIndicators) de los síntomas del catálogo
+ * mencionados en la conversación. Cada señal queda presente, descartada o
+ * sin confirmar; las sin confirmar se preguntan de una en una con preguntas
+ * sí/no y el estado se conserva en los metadatos de cada respuesta.
+ */
+export class RedFlagCheckService {
+  /**
+   * Estado de la lista en este turno. Devuelve null si ningún síntoma de la
+   * conversación tiene señales de alarma en el catálogo o si el catálogo no
+   * está disponible: la detección de emergencias no debe depender de él.
+   */
+  public async evaluate(
+    message: string,
+    symptoms: string[],
+    history: ChatMessage[],
+    language: 'es' | 'en'
+  ): Promise<RedFlagEvaluation | null> {
+    let catalog: CatalogSnapshot;
+    try {
+      catalog = await catalogRetrieval.getSnapshot();
+    } catch (error) {
+      logger.warn('Symptom catalog unavailable, skipping red-flag checks:', error);
+      return null;
+    }
+
+    const resolved = this.resolveChecks(catalog.symptoms, symptoms, language);
+
+    if (resolved.length === 0) {
+      return null;
+    }
+
+    const previous = this.previousChecklist(history);
+    const previousById = new Map((previous?.checks || []).map(check => [check.id, check]));
+    const rules = resolved.map(({ rule }) => rule);
+    const mentioned = this.detect(message, rules);
+    const reply = this.parseReply(message);
+    const statements: string[] = [];
+
+    // Señales nuevas en la lista: se buscan también en los mensajes anteriores
+    const earlier = resolved.some(({ check }) => !previousById.has(check.id))
+      ? history.filter(entry => entry.role === 'user').map(entry => this.detect(entry.content, rules))
+      : [];
+
+    const checks = resolved.map(({ check, statement }) => {
+      const prior = previousById.get(check.id);
+      let status: RedFlagCheckStatus = prior?.status ?? 'unknown';
+      let confirmedBy = prior?.confirmedBy;
+
+      if (!prior) {
+        earlier.forEach(detected => {
+          const found = detected.get(check.id);
+          if (found) {
+            status = found;
+            confirmedBy = found === 'present' ? 'message' : undefined;
+          }
+        });
+      }
+
+      const found = mentioned.get(check.id);
+      if (found) {
+        status = found;
+        confirmedBy = found === 'present' ? 'message' : undefined;
+      } else if (reply && previous?.pendingCheckId === check.id) {
+        status = reply === 'yes' ? 'present' : 'absent';
+        confirmedBy = reply === 'yes' ? 'answer' : undefined;
+        if (reply === 'yes' && statement) {
+          statements.push(statement);
+        }
+      }
+
+      return {
+        ...check,
+        status,
+        asked: prior?.asked ?? false,
+        ...(confirmedBy && { confirmedBy }),
+      };
+    });
+
+    // Siguiente pregunta: la señal sin confirmar de mayor nivel que aún no se preguntó
+    const next = resolved
+      .filter(({ check }) => {
+        const current = checks.find(entry => entry.id === check.id)!;
+        return current.kind === 'red_flag' && current.status === 'unknown' && !current.asked;
+      })
+      .sort((a, b) => LEVEL_ORDER.indexOf(b.check.level) - LEVEL_ORDER.indexOf(a.check.level))[0];
+
+    if (next) {
+      checks.find(entry => entry.id === next.check.id)!.asked = true;
+    }
+
+    return {
+      checklist: {
+        checks,
+        pendingCheckId: next?.check.id ?? null,
+        question: next ? `${next.question} ${TEXT[language].answerHint}` : null,
+      },
+      statements,
+    };
+  }
+
+  /**
+   * Señales confirmadas (presentes) de la lista
+   */
+  public confirmed(checklist: RedFlagChecklist | null | undefined): RedFlagCheck[] {
+    return (checklist?.checks || []).filter(check => check.status === 'present');
+  }
+
+  /**
+   * Agrega la pregunta pendiente al final de la respuesta y al inicio de las
+   * preguntas de seguimiento
+   */
+  public apply(
+    response: { message: string; followUpQuestions: string[] },
+    checklist: RedFlagChecklist
+  ): { message: string; followUpQuestions: string[] } {
+    if (!checklist.question) {
+      return response;
+    }
+
+    return {
+      message: `${response.message}\n\n${checklist.question}`,
+      followUpQuestions: [checklist.question, ...response.followUpQuestions],
+    };
+  }
+
+  /**
+   * Lista sin pregunta pendiente, para respuestas de emergencia: la señal que
+   * se iba a preguntar vuelve a quedar disponible para un turno posterior
+   */
+  public withoutQuestion(checklist: RedFlagChecklist): RedFlagChecklist {
+    return {
+      checks: checklist.checks.map(check =>
+        check.id === checklist.pendingCheckId ? { ...check, asked: false } : check
+      ),
+      pendingCheckId: null,
+      question: null,
+    };
+  }
+
+  /**
+   * Bloque del prompt con el estado de las señales de alarma
+   */
+  public buildPromptNotes(checklist: RedFlagChecklist): string {
+    const labels = (status: RedFlagCheckStatus) =>
+      checklist.checks.filter(check => check.status === status).map(check => check.label).join(', ');
+
+    return [
+      'SEÑALES DE ALARMA DE LOS SÍNTOMAS (lista de verificación; la pregunta pendiente se agrega al final de tu respuesta, no la repitas):',
+      ...(['present', 'absent', 'unknown'] as const)
+        .filter(status => labels(status))
+        .map(status => `${PROMPT_STATUS[status]}: ${labels(status)}`),
+    ].join('\n');
+  }
+
+  /**
+   * Señales e indicadores de los síntomas mencionados, sin duplicar las que
+   * comparten varios síntomas
+   */
+  private resolveChecks(catalogSymptoms: any[], symptoms: string[], language: 'es' | 'en'): ResolvedCheck[] {
+    const resolved: ResolvedCheck[] = [];
+    const names = new Set(symptoms.map(name => MedicalTextNormalizer.normalize(name)));
+
+    catalogSymptoms
+      .filter(symptom => names.has(MedicalTextNormalizer.normalize(symptom.name || '')))
+      .forEach(symptom => {
+        const entries: Array<[RedFlagCheckKind, string]> = [
+          ...(symptom.redFlags || []).map((label: string) => ['red_flag', label] as [RedFlagCheckKind, string]),
+          ...(symptom.severityIndicators || []).map((label: string) => ['severity_indicator', label] as [RedFlagCheckKind, string]),
+        ];
+
+        entries.forEach(([kind, label]) => {
+          const normalized = MedicalTextNormalizer.normalize(label);
+          if (!normalized) return;
+
+          const definition = RED_FLAG_DEFINITIONS.find(entry => new RegExp(entry.pattern).test(normalized));
+          const id = definition?.id ?? `catalog-${normalized.replace(/ /g, '-')}`;
+          const existing = resolved.find(entry => entry.check.id === id);
+
+          if (existing) {
+            if (!existing.check.symptoms.includes(symptom.name)) {
+              existing.check.symptoms.push(symptom.name);
+            }
+            return;
+          }
+
+          if (resolved.length >= MAX_CHECKS) return;
+
+          const displayLabel = definition ? definition.label[language] : label;
+          resolved.push({
+            check: {
+              id,
+              kind,
+              label: displayLabel,
+              symptoms: [symptom.name],
+              status: 'unknown',
+              level: kind === 'severity_indicator'
+                ? SEVERITY_INDICATOR_LEVEL
+                : definition?.level ?? CATALOG_RED_FLAG_LEVEL,
+              asked: false,
+            },
+            rule: definition
+              ? { id, tier: 'warning', type: 'regex', pattern: definition.pattern, description: displayLabel }
+              : { id, tier: 'warning', type: 'phrase', pattern: label, description: displayLabel },
+            question: definition
+              ? definition.question[language]
+              : TEXT[language].genericQuestion.replace('{label}', label.charAt(0).toLowerCase() + label.slice(1)),
+            ...(definition?.statement && { statement: definition.statement }),
+          });
+        });
+      });
+
+    return resolved;
+  }
+
+  /**
+   * Señales mencionadas en un texto: presentes o negadas ("no tengo fiebre")
+   */
+  private detect(text: string, rules: EmergencyRule[]): Map<string, RedFlagCheckStatus> {
+    const ids = new Set(rules.map(rule => rule.id));
+    const evaluation = emergencyRules.evaluate(text || '', EMPTY_RULE_SET, rules);
+    const detected = new Map<string, RedFlagCheckStatus>();
+
+    evaluation.negatedMatches
+      .filter(match => ids.has(match.ruleId))
+      .forEach(match => detected.set(match.ruleId, 'absent'));
+    evaluation.matches
+      .filter(match => ids.has(match.ruleId))
+      .forEach(match => detected.set(match.ruleId, 'present'));
+
+    return detected;
+  }
+
+  /**
+   * "Sí" o "no" como respuesta a la pregunta del turno anterior
+   */
+  private parseReply(message: string): 'yes' | 'no' | null {
+    const firstClause = (message || '')
+      .split(CLAUSE_SEPARATORS)
+      .map(clause => MedicalTextNormalizer.normalize(clause))
+      .find(Boolean) || '';
+
+    if (YES_REPLY.test(firstClause)) return 'yes';
+    if (NO_REPLY.test(firstClause)) return 'no';
+    return null;
+  }
+
+  /**
+   * Lista guardada en la respuesta más reciente que la incluye. La pregunta
+   * pendiente solo vale si esa respuesta es la última del asistente.
+   */
+  private previousChecklist(history: ChatMessage[]): RedFlagChecklist | null {
+    const replies = history.filter(entry => entry.role === 'assistant').reverse();
+    const index = replies.findIndex(entry => entry.metadata?.redFlagChecklist);
+    const checklist = index >= 0 ? replies[index]!.metadata!.redFlagChecklist! : null;
+
+    return checklist && index > 0 ? { ...checklist, pendingCheckId: null } : checklist;
+  }
+}
+
+// Exportar instancia singleton
+export const redFlagChecks = new RedFlagCheckService();
+export default redFlagChecks;
@@ -0,0 +1,108 @@
+import { dbService } from './database';
+import { logger, medicalLogger } from '../utils/logger';
+import { ConversationRiskLevel, DispositionLevel, RiskEscalationType } from '../types/medical';
+
+const RISK_ORDER: ConversationRiskLevel[] = ['low', 'medium', 'high', 'emergency'];
+
+// Resultado de comparar el turno con el anterior y con el máximo alcanzado
+export interface RiskTransition {
+  riskLevel: ConversationRiskLevel;
+  previousRiskLevel: ConversationRiskLevel | null;
+  escalation: RiskEscalationType | null;
+  highestRiskLevel: ConversationRiskLevel;
+  highestRaised: boolean; // El turno supera el máximo previo
+}
+
+/**
+ * Trayectoria del riesgo de una conversación: Conversation.riskLevel refleja
+ * el último turno, highestRiskLevel el máximo alcanzado y cada turno queda en
+ * RiskSnapshot con los síntomas y reglas que lo determinaron. Las
+ * escalaciones (bajo → alto, cualquier nivel → emergencia) se registran aparte.
+ */
+export class RiskTrajectoryService {
+  /**
+   * Compara el riesgo del turno con el del turno anterior y el máximo previo
+   */
+  public transition(
+    riskLevel: ConversationRiskLevel,
+    previousRiskLevel: ConversationRiskLevel | null,
+    previousHighest: ConversationRiskLevel | null
+  ): RiskTransition {
+    const escalation: RiskEscalationType | null =
+      riskLevel === 'emergency' && previousRiskLevel !== 'emergency' ? 'to_emergency'
+        : riskLevel === 'high' && previousRiskLevel === 'low' ? 'low_to_high'
+        : null;
+
+    const highestRaised = !previousHighest || this.isHigher(riskLevel, previousHighest);
+
+    return {
+      riskLevel,
+      previousRiskLevel,
+      escalation,
+      highestRiskLevel: highestRaised ? riskLevel : previousHighest!,
+      highestRaised,
+    };
+  }
+
+  /**
+   * Guarda el snapshot del turno y, si hubo escalación, la registra en el
+   * log médico y en ActivityLog. Los errores no interrumpen la consulta.
+   */
+  public async record(
+    conversation: { id: string; sessionId: string },
+    messageId: string,
+    transition: RiskTransition,
+    details: { dispositionLevel?: DispositionLevel; symptoms: string[]; ruleIds: string[] }
+  ): Promise<void> {
+    try {
+      await dbService.saveRiskSnapshot({
+        conversationId: conversation.id,
+        messageId,
+        riskLevel: transition.riskLevel,
+        previousRiskLevel: transition.previousRiskLevel,
+        dispositionLevel: details.dispositionLevel ?? null,
+        escalation: transition.escalation,
+        symptoms: details.symptoms,
+        ruleIds: details.ruleIds,
+      });
+    } catch (error) {
+      logger.error('Error saving risk snapshot:', error);
+    }
+
+    if (!transition.escalation) return;
+
+    medicalLogger.emergency(`Risk escalated (${transition.escalation})`, {
+      sessionId: conversation.sessionId,
+      from: transition.previousRiskLevel,
+      to: transition.riskLevel,
+      symptoms: details.symptoms,
+      ruleIds: details.ruleIds,
+    });
+
+    try {
+      await dbService.logActivity({
+        sessionId: conversation.sessionId,
+        action: 'risk_escalated',
+        details: {
+          escalation: transition.escalation,
+          from: transition.previousRiskLevel,
+          to: transition.riskLevel,
+          messageId,
+          ...(details.dispositionLevel && { dispositionLevel: details.dispositionLevel }),
+          symptoms: details.symptoms,
+          ruleIds: details.ruleIds,
+        },
+      });
+    } catch (error) {
+      logger.error('Error logging risk escalation:', error);
+    }
+  }
+
+  public isHigher(level: ConversationRiskLevel, than: ConversationRiskLevel): boolean {
+    return RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(than);
+  }
+}
+
+// Exportar instancia singleton
+export const riskTrajectory = new RiskTrajectoryService();
+export default riskTrajectory;
@@ -0,0 +1,246 @@
+import { logger, medicalLogger } from '../utils/logger';
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { dbService } from './database';
+import {
+  SafetyContext,
+  SafetyEvaluation,
+  SafetyRuleType,
+  SafetyViolation,
+} from '../types/medical';
+
+interface SafetyRule {
+  id: string;
+  type: SafetyRuleType;
+  description: string;
+  // Expresión sobre texto normalizado (minúsculas, sin acentos ni puntuación)
+  pattern?: RegExp;
+  // Patrón dinámico a partir del contexto (p. ej. nombres de enfermedades)
+  buildPattern?: (context: SafetyContext) => RegExp | null;
+  // Reglas de escalamiento: se violan cuando el patrón NO aparece
+  required?: boolean;
+  // Solo se evalúa si hay señales de alarma o urgencia alta
+  onlyWithRedFlags?: boolean;
+  // Ignorar coincidencias precedidas por condicionales o negaciones
+  hedgeAware?: boolean;
+}
+
+// Condiciones que convierten una afirmación en hipótesis ("si tienes gastritis")
+const HEDGE_CUES = new Set([
+  'si', 'no', 'podria', 'puede', 'pueda', 'quizas', 'quiza', 'posible', 'posiblemente', 'descartar', 'probable',
+  'if', 'not', 'may', 'might', 'could', 'possible', 'possibly', 'rule',
+]);
+const HEDGE_WINDOW = 4;
+
+// Diagnósticos frecuentes que no deben afirmarse aunque no estén en el catálogo recuperado
+const COMMON_DIAGNOSES = [
+  'gastritis', 'ulcera', 'ulcera peptica', 'colitis', 'apendicitis', 'pancreatitis', 'colecistitis', 'reflujo',
+  'erge', 'hepatitis', 'cancer', 'gastroenteritis', 'diverticulitis', 'enfermedad de crohn', 'hemorroides',
+  'sindrome de intestino irritable', 'colon irritable', 'intoxicacion', 'infeccion',
+  'ulcer', 'appendicitis', 'reflux', 'gerd', 'ibs', 'irritable bowel syndrome', 'food poisoning', 'infection',
+];
+
+const SAFETY_RULES: SafetyRule[] = [
+  // Diagnósticos definitivos
+  {
+    id: 'diagnosis-you-have',
+    type: 'definitive_diagnosis',
+    description: 'Afirma que el paciente tiene una enfermedad concreta',
+    buildPattern: (context) => {
+      const names = [...new Set([...COMMON_DIAGNOSES, ...context.diseaseNames.map(name => MedicalTextNormalizer.normalize(name))])]
+        .filter(Boolean)
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      return new RegExp(
+        `\\b(usted |tu )?(tiene|tienes|padece|padeces|sufre de|sufres de|presenta|presentas|you have|you are suffering from|you suffer from) (una |un |de |a |an )?(cuadro de )?(${names.join('|')})\\b`,
+        'g'
+      );
+    },
+    hedgeAware: true,
+  },
+  {
+    id: 'diagnosis-statement',
+    type: 'definitive_diagnosis',
+    description: 'Emite un diagnóstico explícito',
+    pattern: /\b(tu|su) diagnostico (es|seria)\b|\b(definitivamente|sin duda|con certeza|con seguridad) (es|se trata de|tiene|tienes|padece|padeces)\b|\byour diagnosis is\b|\b(definitely|certainly|without a doubt) (is|have|has)\b/g,
+    hedgeAware: true,
+  },
+
+  // Dosis con nivel de prescripción
+  {
+    id: 'dosing-amount',
+    type: 'prescription_dosing',
+    description: 'Indica una dosis con cantidad y unidad',
+    pattern: /\b\d+ ?(mg|mcg|g|gr|ml|ui|iu|gotas|drops)\b/g,
+  },
+  {
+    id: 'dosing-frequency',
+    type: 'prescription_dosing',
+    description: 'Indica una pauta de administración',
+    pattern: /\bcada \d+ (horas|hrs|h)\b|\b\d+ (veces|tomas) al dia\b|\bevery \d+ hours\b|\b\d+ times (a|per) day\b|\b(tome|toma|tomar|take) \d+ (tabletas|pastillas|capsulas|comprimidos|tablets|pills|capsules)\b/g,
+  },
+
+  // Minimización de señales de alarma
+  {
+    id: 'minimize-red-flags',
+    type: 'red_flag_minimization',
+    description: 'Resta importancia a síntomas de alarma',
+    pattern: /\bno es (nada )?(grave|serio|preocupante)\b|\bno (se|te) preocupe(s)?\b|\bes (algo )?normal\b|\bno (hace falta|es necesario|necesita|necesitas) (ir|acudir|consultar|ver)\b|\bpuede esperar\b|\bse (le |te )?(quitara|pasara) solo\b|\bnothing to worry\b|\bnot (serious|a concern)\b|\bno need to (see|go|visit)\b|\bcan wait\b/g,
+    onlyWithRedFlags: true,
+    hedgeAware: false,
+  },
+
+  // Falta de indicación de dónde y cuándo buscar atención
+  {
+    id: 'escalation-advice',
+    type: 'missing_escalation',
+    description: 'No indica buscar atención médica ante señales de alarma',
+    pattern: /\b(atencion medica|urgencias|emergencias?|911|acuda|acudir|busque atencion|hospital|medico|doctor|seek (medical|immediate)|emergency room|call 911|see a doctor)\b/,
+    required: true,
+    onlyWithRedFlags: true,
+  },
+];
+
+// Instrucción para la regeneración según el tipo de regla infringida
+const REWRITE_INSTRUCTIONS: Record<SafetyRuleType, string> = {
+  definitive_diagnosis: 'No afirmes que el paciente tiene una enfermedad; menciona causas posibles con lenguaje condicional ("podría relacionarse con").',
+  prescription_dosing: 'No indiques dosis, cantidades ni frecuencias de medicamentos; remite al médico o farmacéutico para la pauta.',
+  red_flag_minimization: 'No restes importancia a las señales de alarma reportadas; explica por qué requieren valoración.',
+  missing_escalation: 'Indica de forma explícita cuándo y dónde buscar atención médica (urgencias o 911 si empeoran).',
+};
+
+const SAFE_FALLBACK = {
+  es: {
+    message: 'No puedo darle una orientación segura con la información disponible. Un profesional de la salud puede valorar sus síntomas de forma directa.',
+    redFlags: 'Los síntomas que menciona ({flags}) pueden requerir atención médica pronta. Acuda a urgencias o llame al 911 si empeoran o aparecen nuevos síntomas.',
+    escalation: 'Busque atención médica si los síntomas empeoran, persisten más de unos días o aparece fiebre alta, sangre en vómito o heces, o dolor intenso.',
+    actions: ['Consulte a un profesional de la salud', 'No se automedique', 'Acuda a urgencias si los síntomas empeoran'],
+  },
+  en: {
+    message: 'I cannot give you safe guidance with the information available. A health professional can evaluate your symptoms directly.',
+    redFlags: 'The symptoms you mention ({flags}) may need prompt medical attention. Go to the emergency room or call 911 if they worsen or new symptoms appear.',
+    escalation: 'Seek medical care if symptoms worsen, last more than a few days, or if you develop high fever, blood in vomit or stool, or severe pain.',
+    actions: ['See a health professional', 'Do not self-medicate', 'Go to the emergency room if symptoms worsen'],
+  },
+};
+
+/**
+ * Política de seguridad posterior a la generación: detecta diagnósticos
+ * definitivos, dosis con nivel de prescripción, minimización de señales de
+ * alarma y falta de indicaciones de escalamiento. Cada tipo de regla tiene
+ * su propia instrucción de reescritura y todas las intervenciones se registran.
+ */
+export class SafetyPolicyService {
+  /**
+   * Evalúa un texto generado contra las reglas de la política
+   */
+  public evaluate(text: string, context: SafetyContext): SafetyEvaluation {
+    const normalized = MedicalTextNormalizer.normalize(text);
+    const tokens = normalized.split(' ');
+    const hasRedFlags = context.redFlags.length > 0 || context.urgency === 'high' || context.urgency === 'emergency';
+    const violations: SafetyViolation[] = [];
+
+    SAFETY_RULES.forEach(rule => {
+      if (rule.onlyWithRedFlags && !hasRedFlags) return;
+
+      const pattern = rule.buildPattern ? rule.buildPattern(context) : rule.pattern;
+      if (!pattern) return;
+
+      if (rule.required) {
+        if (!new RegExp(pattern.source).test(normalized)) {
+          violations.push({ ruleId: rule.id, type: rule.type, description: rule.description, matchedText: '' });
+        }
+        return;
+      }
+
+      const regex = new RegExp(pattern.source, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(normalized)) !== null) {
+        if (!rule.hedgeAware || !this.isHedged(tokens, normalized, match.index)) {
+          violations.push({ ruleId: rule.id, type: rule.type, description: rule.description, matchedText: match[0] });
+          break;
+        }
+      }
+    });
+
+    return { safe: violations.length === 0, violations };
+  }
+
+  /**
+   * Instrucciones para regenerar la respuesta sin las violaciones detectadas
+   */
+  public buildRewriteInstructions(violations: SafetyViolation[]): string {
+    const types = [...new Set(violations.map(violation => violation.type))];
+
+    return `REVISIÓN DE SEGURIDAD: una versión anterior de tu respuesta infringió la política clínica. Reescribe la respuesta completa (mismo formato JSON) cumpliendo:
+${types.map(type => `- ${REWRITE_INSTRUCTIONS[type]}`).join('\n')}`;
+  }
+
+  /**
+   * Plantilla segura cuando la regeneración no elimina las violaciones
+   */
+  public buildFallback(context: SafetyContext): { message: string; recommendedActions: string[] } {
+    const template = SAFE_FALLBACK[context.language];
+    const flags = [...new Set(context.redFlags)].slice(0, 5);
+
+    return {
+      message: [
+        template.message,
+        flags.length > 0 ? template.redFlags.replace('{flags}', flags.join(', ')) : template.escalation,
+      ].join('\n\n'),
+      recommendedActions: template.actions,
+    };
+  }
+
+  /**
+   * Registra la intervención con las reglas que la provocaron
+   */
+  public async logIntervention(
+    sessionId: string,
+    action: 'regenerated' | 'fallback',
+    violations: SafetyViolation[],
+    model: string
+  ): Promise<void> {
+    medicalLogger.safetyIntervention(`Response ${action} by safety policy`, {
+      sessionId,
+      action,
+      model,
+      rules: violations.map(violation => ({
+        ruleId: violation.ruleId,
+        type: violation.type,
+        matchedText: violation.matchedText,
+      })),
+    });
+
+    try {
+      await dbService.logActivity({
+        sessionId,
+        action: 'safety_intervention',
+        details: {
+          action,
+          rules: violations.map(violation => ({
+            ruleId: violation.ruleId,
+            type: violation.type,
+            matchedText: violation.matchedText,
+          })),
+        },
+        aiModel: model,
+      });
+    } catch (error) {
+      logger.error('Error logging safety intervention:', error);
+    }
+  }
+
+  /**
+   * Una coincidencia precedida por un condicional o negación no es una afirmación
+   */
+  private isHedged(tokens: string[], normalized: string, index: number): boolean {
+    const tokenIndex = normalized.slice(0, index).split(' ').length - 1;
+    return tokens
+      .slice(Math.max(0, tokenIndex - HEDGE_WINDOW), tokenIndex)
+      .some(token => HEDGE_CUES.has(token));
+  }
+}
+
+// Exportar instancia singleton
+export const safetyPolicy = new SafetyPolicyService();
+export default safetyPolicy;
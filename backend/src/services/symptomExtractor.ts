@@ -0,0 +1,366 @@
+import { logger } from '../utils/logger';
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { catalogRetrieval, CatalogSnapshot } from './catalogRetrieval';
+import { ExtractedSymptom, SymptomExtractionResult } from '../types/medical';
+
+/**
+ * Expresiones coloquiales (español de México) por nombre canónico de Symptom.
+ * Un "*" al final de una palabra acepta cualquier terminación (vomit* = vomito, vomitando...).
+ */
+const COLLOQUIAL_LEXICON: Record<string, string[]> = {
+  'Dolor abdominal': [
+    'dolor de panza', 'dolor de pancita', 'dolor de tripa', 'dolor de estomago', 'dolor en el estomago',
+    'me duele la panza', 'me duele la pancita', 'me duele el estomago', 'me duele la barriga',
+    'me duele el abdomen', 'dolor en la boca del estomago', 'retortijon*', 'colico*',
+  ],
+  'Náuseas': [
+    'nause*', 'asco', 'bascas', 'estomago revuelto', 'revuelto el estomago', 'ganas de devolver',
+    'ganas de guacarear',
+  ],
+  'Vómitos': [
+    'vomit*', 'guacar*', 'devolver el estomago', 'devolvi todo', 'devolvi la comida', 'devuelvo todo',
+    'devuelvo la comida', 'estoy devolviendo', 'volver el estomago',
+  ],
+  'Diarrea': [
+    'diarre*', 'diarrea', 'chorro', 'chorros', 'chorrillo', 'correncia', 'estomago suelto', 'suelto del estomago',
+    'popo aguada', 'popo liquida', 'evacuaciones liquidas',
+  ],
+  'Estreñimiento': [
+    'estrenid*', 'no puedo hacer del bano', 'no he podido hacer del bano', 'no he podido ir al bano',
+    'no puedo ir al bano', 'estoy tapad*', 'no obro',
+  ],
+  'Acidez estomacal': [
+    'agrura*', 'acedia*', 'quemazon', 'ardor de estomago', 'ardor en la boca del estomago',
+    'me arde el estomago', 'me quema el estomago',
+  ],
+  'Distensión abdominal': [
+    'panza inflamada', 'estomago inflamado', 'me siento inflamad*', 'panza hinchada', 'barriga hinchada',
+    'abotagad*', 'hinchazon',
+  ],
+  'Gases intestinales': ['gases', 'pedos', 'flatos', 'eructo*', 'eruptos'],
+  'Pérdida de apetito': [
+    'sin hambre', 'no tengo hambre', 'no me da hambre', 'se me quito el hambre', 'no se me antoja nada',
+  ],
+  'Indigestión': ['empach*', 'pesadez', 'me cayo mal la comida', 'algo me cayo mal', 'mala digestion'],
+  'Vómito con sangre': ['vomit* sangre', 'vomit* con sangre', 'devolv* sangre', 'vomito negro', 'vomito como cafe'],
+  'Sangre en las heces': [
+    'popo con sangre', 'sangre en la popo', 'sangre en el popo', 'heces con sangre', 'popo negra',
+    'heces negras', 'evacuaciones negras', 'sangre al hacer del bano', 'sangrado al evacuar',
+  ],
+  'Dolor abdominal severo': ['dolor insoportable', 'dolor muy fuerte', 'me duele muchisimo', 'dolor horrible'],
+  'Fiebre': ['calentura', 'calenturient*', 'destemplad*', 'fiebre'],
+  'Fatiga': ['cansancio', 'cansad*', 'agotad*', 'sin fuerzas', 'debilidad'],
+  'Pérdida de peso': [
+    'baje de peso', 'he bajado de peso', 'estoy bajando de peso', 'perdi peso', 'he adelgazado', 'adelgace',
+  ],
+  'Deshidratación': ['deshidratad*', 'boca seca', 'mucha sed', 'casi no orino', 'orino muy poco'],
+  'Regurgitación': [
+    'se me regresa la comida', 'me regresa la comida', 'me sube la comida', 'regurgit*',
+  ],
+  'Disfagia': ['no puedo tragar', 'me cuesta tragar', 'se me atora la comida', 'dificultad para tragar'],
+  'Saciedad precoz': ['me lleno rapido', 'me lleno muy rapido', 'me lleno con poco'],
+  'Tenesmo': ['pujo*', 'siento que no termino de evacuar', 'ganas de ir al bano a cada rato'],
+};
+
+// Confianza base según el origen del término
+const SOURCE_CONFIDENCE = {
+  name: 1,
+  keyword: 0.95,
+  lexicon: 0.9,
+};
+const TYPO_PENALTY = 0.85; // Por cada palabra reconocida con error de escritura
+
+// Artículos y posesivos intercambiables ("me duele la panza" = "me duele mi panza")
+const ARTICLES = new Set(['el', 'la', 'los', 'las', 'mi', 'mis', 'su', 'sus', 'un', 'una']);
+
+// Solo se corrigen errores de escritura en términos largos
+const MIN_FUZZY_LENGTH = 7;
+
+// Palabras frecuentes parecidas a términos del léxico que nunca se corrigen
+const COMMON_WORDS = new Set([
+  'casada', 'casado', 'gaste', 'bases', 'pesado', 'pesada', 'diaria', 'diario',
+  'calentar', 'calentado', 'estrenar', 'estrene', 'estreno',
+]);
+
+const NEGATION_CUES = new Set(['no', 'nunca', 'sin', 'ni', 'tampoco', 'jamas', 'nada', 'niego', 'not', 'never', 'without']);
+const NEGATION_WINDOW = 3;
+// Conjunciones copulativas: la negación previa no alcanza lo que sigue
+const NEGATION_SCOPE_BREAKS = new Set(['y', 'e', 'and']);
+
+// "nunca había tenido diarrea así": el síntoma es nuevo, no está negado
+const PERFECT_AUXILIARIES = new Set(['he', 'ha', 'habia', 'had']);
+const NOVELTY_MARKERS = new Set(['asi', 'hasta', 'until']);
+
+const HYPOTHETICAL_CUES = [
+  'por si', 'en caso de', 'que pasa si', 'si llego a', 'si llegara', 'si me da', 'si me llega',
+  'si tuviera', 'puede causar', 'puede dar', 'para prevenir', 'para evitar', 'miedo', 'me preocupa que',
+  'what if', 'in case',
+];
+
+// Conjunciones que inician una nueva cláusula
+const CLAUSE_CONJUNCTIONS = new Set(['pero', 'aunque', 'sino', 'but', 'although']);
+const CLAUSE_PUNCTUATION = /[.;:!?¿¡,\n]/;
+
+interface TermPattern {
+  tokens: Array<{ text: string; prefix: boolean }>;
+  name: string;
+  symptomId: number | null;
+  source: ExtractedSymptom['source'];
+  baseConfidence: number;
+}
+
+interface MessageToken {
+  token: string;
+  start: number;
+  end: number;
+  clause: number;
+}
+
+/**
+ * Reconoce síntomas del catálogo en texto libre usando los nombres y
+ * keywords de la tabla Symptom más un léxico coloquial, con tolerancia
+ * a errores de escritura y detección de negaciones e hipótesis.
+ */
+export class SymptomExtractorService {
+  private patterns: TermPattern[] = [];
+  private patternsSource: CatalogSnapshot | null | undefined;
+
+  /**
+   * Extrae los síntomas del mensaje. Si el catálogo no está disponible
+   * se usa solo el léxico coloquial.
+   */
+  public async extract(message: string): Promise<SymptomExtractionResult> {
+    let catalog: CatalogSnapshot | null = null;
+
+    try {
+      catalog = await catalogRetrieval.getSnapshot();
+    } catch (error) {
+      logger.warn('Symptom catalog unavailable, using colloquial lexicon only:', error);
+    }
+
+    return this.extractWith(message, catalog);
+  }
+
+  /**
+   * Extracción síncrona con un catálogo ya cargado
+   */
+  public extractWith(message: string, catalog: CatalogSnapshot | null): SymptomExtractionResult {
+    const patterns = this.getPatterns(catalog);
+    const tokens = this.tokenize(message);
+
+    const candidates: ExtractedSymptom[] = [];
+    for (let index = 0; index < tokens.length; index++) {
+      patterns.forEach(pattern => {
+        const match = this.matchAt(pattern, tokens, index, message);
+        if (match) candidates.push(match);
+      });
+    }
+
+    // Ante coincidencias superpuestas gana la más larga ("vómito con sangre" sobre "vómito")
+    const accepted: ExtractedSymptom[] = [];
+    candidates
+      .sort((a, b) =>
+        (b.span.end - b.span.start) - (a.span.end - a.span.start) || b.confidence - a.confidence
+      )
+      .forEach(candidate => {
+        const overlaps = accepted.some(match =>
+          candidate.span.start < match.span.end && match.span.start < candidate.span.end
+        );
+        if (!overlaps) accepted.push(candidate);
+      });
+
+    accepted.sort((a, b) => a.span.start - b.span.start);
+
+    const symptoms = this.dedupe(accepted.filter(match => !match.negated && !match.hypothetical));
+    const affirmed = new Set(symptoms.map(match => match.name));
+    const excluded = this.dedupe(
+      accepted.filter(match => (match.negated || match.hypothetical) && !affirmed.has(match.name))
+    );
+
+    return { symptoms, excluded };
+  }
+
+  /**
+   * Compila los patrones del catálogo y el léxico (se reutilizan mientras
+   * no cambie el snapshot del catálogo)
+   */
+  private getPatterns(catalog: CatalogSnapshot | null): TermPattern[] {
+    if (this.patternsSource === catalog && this.patterns.length > 0) {
+      return this.patterns;
+    }
+
+    const patterns: TermPattern[] = [];
+    const idsByName = new Map<string, number>();
+
+    (catalog?.symptoms || []).forEach((symptom: any) => {
+      idsByName.set(MedicalTextNormalizer.normalize(symptom.name), symptom.id);
+      patterns.push(this.compileTerm(symptom.name, symptom.name, symptom.id, 'catalog', SOURCE_CONFIDENCE.name));
+      (symptom.keywords || []).forEach((keyword: string) => {
+        patterns.push(this.compileTerm(keyword, symptom.name, symptom.id, 'catalog', SOURCE_CONFIDENCE.keyword));
+      });
+    });
+
+    Object.entries(COLLOQUIAL_LEXICON).forEach(([name, terms]) => {
+      const symptomId = idsByName.get(MedicalTextNormalizer.normalize(name)) ?? null;
+      terms.forEach(term => {
+        patterns.push(this.compileTerm(term, name, symptomId, 'lexicon', SOURCE_CONFIDENCE.lexicon));
+      });
+    });
+
+    this.patterns = patterns.filter(pattern => pattern.tokens.length > 0);
+    this.patternsSource = catalog;
+    return this.patterns;
+  }
+
+  private compileTerm(
+    term: string,
+    name: string,
+    symptomId: number | null,
+    source: ExtractedSymptom['source'],
+    baseConfidence: number
+  ): TermPattern {
+    const tokens = term
+      .split(/\s+/)
+      .map(word => ({
+        text: MedicalTextNormalizer.normalize(word.replace(/\*$/, '')).replace(/\s+/g, ''),
+        prefix: word.endsWith('*'),
+      }))
+      .filter(token => token.text);
+
+    return { tokens, name, symptomId, source, baseConfidence };
+  }
+
+  /**
+   * Palabras normalizadas con posición y número de cláusula
+   */
+  private tokenize(message: string): MessageToken[] {
+    let clause = 0;
+    let previousEnd = 0;
+
+    return MedicalTextNormalizer.tokenizeWithOffsets(message).map(({ token, start, end }) => {
+      if (CLAUSE_PUNCTUATION.test(message.slice(previousEnd, start)) || CLAUSE_CONJUNCTIONS.has(token)) {
+        clause++;
+      }
+      previousEnd = end;
+      return { token, start, end, clause };
+    });
+  }
+
+  private matchAt(
+    pattern: TermPattern,
+    tokens: MessageToken[],
+    index: number,
+    message: string
+  ): ExtractedSymptom | null {
+    const first = tokens[index];
+    const last = tokens[index + pattern.tokens.length - 1];
+    if (!first || !last || first.clause !== last.clause) {
+      return null;
+    }
+
+    let confidence = pattern.baseConfidence;
+    for (let offset = 0; offset < pattern.tokens.length; offset++) {
+      const similarity = this.tokenSimilarity(pattern.tokens[offset]!, tokens[index + offset]!.token);
+      if (similarity === 0) return null;
+      confidence *= similarity;
+    }
+
+    return {
+      symptomId: pattern.symptomId,
+      name: pattern.name,
+      matchedText: message.slice(first.start, last.end),
+      span: { start: first.start, end: last.end },
+      confidence: Math.round(confidence * 100) / 100,
+      source: pattern.source,
+      negated: this.isNegated(tokens, index),
+      hypothetical: this.isHypothetical(tokens, index),
+    };
+  }
+
+  /**
+   * 1 si coinciden, TYPO_PENALTY si difieren por un error de escritura, 0 si no
+   */
+  private tokenSimilarity(expected: { text: string; prefix: boolean }, actual: string): number {
+    const { text, prefix } = expected;
+
+    if (actual === text || (prefix && actual.startsWith(text))) return 1;
+    if (ARTICLES.has(text) && ARTICLES.has(actual)) return 1;
+
+    // Plurales: "gas" / "gases", "nausea" / "nauseas"
+    const singular = actual.replace(/(es|s)$/, '');
+    if (!prefix && (singular === text || text.replace(/(es|s)$/, '') === singular)) return 1;
+
+    // Las palabras cortas, las de otra inicial y las frecuentes deben coincidir exactamente
+    if (text.length < MIN_FUZZY_LENGTH || actual[0] !== text[0] || COMMON_WORDS.has(actual)) return 0;
+
+    const tolerance = text.length >= 8 ? 2 : 1;
+    if (prefix && actual.length < text.length - 1) return 0;
+
+    // En prefijos se compara también una letra menos: "diarea" frente a "diarre*"
+    const candidates = prefix
+      ? [actual.slice(0, text.length), ...(text.length >= 6 ? [actual.slice(0, text.length - 1)] : [])]
+      : [actual];
+
+    return candidates.some(candidate => MedicalTextNormalizer.editDistance(text, candidate) <= tolerance)
+      ? TYPO_PENALTY
+      : 0;
+  }
+
+  private isNegated(tokens: MessageToken[], index: number): boolean {
+    const clause = tokens[index]!.clause;
+    const inClause = tokens.filter(token => token.clause === clause);
+    const preceding = tokens.slice(0, index).filter(token => token.clause === clause).map(token => token.token);
+
+    // "y" abre otra negación y "nada" cierra la previa ("no comí nada y hoy
+    // vomito"), salvo en "nada de ..."
+    let scopeStart = 0;
+    preceding.forEach((token, position) => {
+      const closesNegation = token === 'nada' && position < preceding.length - 1 && preceding[position + 1] !== 'de';
+      if (NEGATION_SCOPE_BREAKS.has(token) || closesNegation) {
+        scopeStart = position + 1;
+      }
+    });
+
+    const scoped = preceding.slice(scopeStart).slice(-NEGATION_WINDOW);
+    const cueIndex = scoped.map(token => NEGATION_CUES.has(token)).lastIndexOf(true);
+    if (cueIndex < 0) return false;
+
+    // "no sé si ..." expresa duda, no negación
+    const following = scoped.slice(cueIndex + 1);
+    if (following[0] === 'se' && following[1] === 'si') return false;
+
+    const rest = inClause.slice(preceding.length).map(token => token.token);
+    return !(PERFECT_AUXILIARIES.has(following[0] ?? '') && rest.some(token => NOVELTY_MARKERS.has(token)));
+  }
+
+  private isHypothetical(tokens: MessageToken[], index: number): boolean {
+    const clause = tokens[index]!.clause;
+    const preceding = ` ${tokens
+      .slice(0, index)
+      .filter(token => token.clause === clause)
+      .map(token => token.token)
+      .join(' ')} `;
+
+    return HYPOTHETICAL_CUES.some(cue => preceding.includes(` ${cue} `));
+  }
+
+  /**
+   * Una entrada por síntoma, conservando la de mayor confianza
+   */
+  private dedupe(matches: ExtractedSymptom[]): ExtractedSymptom[] {
+    const byName = new Map<string, ExtractedSymptom>();
+
+    matches.forEach(match => {
+      const current = byName.get(match.name);
+      if (!current || match.confidence > current.confidence) {
+        byName.set(match.name, match);
+      }
+    });
+
+    return [...byName.values()].sort((a, b) => a.span.start - b.span.start);
+  }
+}
+
+// Exportar instancia singleton
+export const symptomExtractor = new SymptomExtractorService();
+export default symptomExtractor;
@@ -0,0 +1,133 @@
+import { logger } from '../utils/logger';
+import { dbService } from './database';
+import { TokenBudgetStatus, TokenUsage } from '../types/medical';
+import { LLMUsage } from '../types/llm';
+
+interface ModelPricing {
+  prompt: number; // USD por millón de tokens de entrada
+  completion: number; // USD por millón de tokens de salida
+}
+
+// Precios de referencia por modelo; se busca por prefijo del nombre
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.0-flash': { prompt: 0.1, completion: 0.4 },
+  'gemini-1.5-flash': { prompt: 0.075, completion: 0.3 },
+  'gemini-1.5-pro': { prompt: 1.25, completion: 5 },
+  'gemini-pro': { prompt: 0.5, completion: 1.5 },
+  'offline': { prompt: 0, completion: 0 },
+};
+const DEFAULT_PRICING: ModelPricing = { prompt: 0.5, completion: 1.5 };
+
+// Tiempo que se reutiliza el total diario leído de ActivityLog (ms)
+const DAILY_TOTAL_TTL_MS = 60000;
+
+/**
+ * Contabilidad de tokens y costo por respuesta del modelo, con presupuestos
+ * diario y por sesión (TOKEN_BUDGET_DAILY, TOKEN_BUDGET_PER_SESSION; 0 = sin
+ * límite). Al superarse, el chat responde con el triaje basado en reglas.
+ */
+export class TokenUsageService {
+  private readonly dailyLimit: number | null;
+  private readonly sessionLimit: number | null;
+  private dailyTotal: { day: string; tokens: number; fetchedAt: number } | null = null;
+
+  constructor() {
+    const daily = parseInt(process.env['TOKEN_BUDGET_DAILY'] || '0');
+    const perSession = parseInt(process.env['TOKEN_BUDGET_PER_SESSION'] || '0');
+    this.dailyLimit = daily > 0 ? daily : null;
+    this.sessionLimit = perSession > 0 ? perSession : null;
+  }
+
+  /**
+   * Costo estimado en USD del consumo de un modelo
+   */
+  public estimateCost(model: string, usage: LLMUsage): number {
+    const pricing = this.pricingFor(model);
+    const cost = (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  /**
+   * Registra el consumo de una respuesta en el total diario y lo devuelve con su costo
+   */
+  public record(model: string, usage: LLMUsage): TokenUsage {
+    const today = this.today();
+    if (this.dailyTotal?.day === today) {
+      this.dailyTotal.tokens += usage.totalTokens;
+    }
+
+    return {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCost: this.estimateCost(model, usage),
+    };
+  }
+
+  /**
+   * Comprueba los presupuestos antes de consultar al modelo. Si no se puede
+   * leer el consumo diario, la consulta continúa.
+   */
+  public async checkBudget(sessionTokens: number): Promise<TokenBudgetStatus> {
+    const dailyTokens = this.dailyLimit !== null ? await this.getDailyTokens() : 0;
+    const dailyExceeded = this.dailyLimit !== null && dailyTokens >= this.dailyLimit;
+    const sessionExceeded = this.sessionLimit !== null && sessionTokens >= this.sessionLimit;
+
+    return {
+      exceeded: dailyExceeded || sessionExceeded,
+      scope: dailyExceeded ? 'daily' : sessionExceeded ? 'session' : null,
+      sessionTokens,
+      sessionLimit: this.sessionLimit,
+      dailyTokens,
+      dailyLimit: this.dailyLimit,
+    };
+  }
+
+  public getLimits(): { dailyLimit: number | null; sessionLimit: number | null } {
+    return { dailyLimit: this.dailyLimit, sessionLimit: this.sessionLimit };
+  }
+
+  /**
+   * Registra que una consulta se respondió sin IA por presupuesto
+   */
+  public async logBudgetExceeded(sessionId: string, status: TokenBudgetStatus): Promise<void> {
+    logger.warn('Token budget exceeded, answering without AI', { sessionId, ...status });
+
+    await dbService.logActivity({
+      sessionId,
+      action: 'token_budget_exceeded',
+      details: { ...status },
+    });
+  }
+
+  private async getDailyTokens(): Promise<number> {
+    const today = this.today();
+    if (this.dailyTotal?.day === today && Date.now() - this.dailyTotal.fetchedAt < DAILY_TOTAL_TTL_MS) {
+      return this.dailyTotal.tokens;
+    }
+
+    try {
+      const totals = await dbService.getTokenUsageTotals(new Date(`${today}T00:00:00.000Z`));
+      this.dailyTotal = { day: today, tokens: totals.totalTokens, fetchedAt: Date.now() };
+      return totals.totalTokens;
+    } catch (error) {
+      logger.error('Error reading daily token usage, budget not enforced:', error);
+      return this.dailyTotal?.day === today ? this.dailyTotal.tokens : 0;
+    }
+  }
+
+  private pricingFor(model: string): ModelPricing {
+    const key = Object.keys(MODEL_PRICING)
+      .sort((a, b) => b.length - a.length)
+      .find(prefix => model.startsWith(prefix));
+    return key ? MODEL_PRICING[key]! : DEFAULT_PRICING;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
+
+// Exportar instancia singleton
+export const tokenUsage = new TokenUsageService();
+export default tokenUsage;
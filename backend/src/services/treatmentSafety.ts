@@ -0,0 +1,516 @@
+import { MedicalDataValidator, MedicalTextNormalizer } from '../utils/medicalUtils';
+import { drugInteractions } from './drugInteractions';
+import {
+  AgeCategory,
+  PatientSafetyProfile,
+  PregnancyCategory,
+  ResponseUrgency,
+  TreatmentSafetyAssessment,
+  TreatmentSafetyReason,
+  TreatmentSafetyReasonCode,
+  TreatmentSafetyStatus,
+} from '../types/medical';
+
+type Localized = { es: string; en: string };
+
+// Rango de edad de cada categoría (años) cuando no se conoce la edad exacta
+const AGE_RANGES: Record<AgeCategory, [number, number]> = {
+  infant: [0, 1],
+  pediatric: [2, 17],
+  adult: [18, 64],
+  geriatric: [65, 120],
+};
+
+/**
+ * Grupos de fármacos con los que se comparan las alergias del paciente y
+ * Treatment.allergens. Los términos se comparan sobre texto normalizado.
+ */
+const DRUG_GROUPS: Record<string, string[]> = {
+  penicillin: ['penicilina', 'penicilinas', 'amoxicilina', 'ampicilina', 'penicillin', 'amoxicillin', 'ampicillin'],
+  cephalosporin: ['cefalosporina', 'cefalosporinas', 'cefalexina', 'ceftriaxona', 'cephalosporin', 'cephalexin', 'ceftriaxone'],
+  macrolide: ['macrolido', 'macrolidos', 'claritromicina', 'azitromicina', 'eritromicina', 'macrolide', 'clarithromycin', 'azithromycin', 'erythromycin'],
+  quinolone: ['quinolona', 'quinolonas', 'ciprofloxacino', 'levofloxacino', 'quinolone', 'ciprofloxacin', 'levofloxacin'],
+  sulfonamide: ['sulfa', 'sulfas', 'sulfonamida', 'sulfonamidas', 'sulfametoxazol', 'sulfonamide', 'sulfamethoxazole'],
+  ppi: ['inhibidores de bomba de protones', 'inhibidores de la bomba de protones', 'ibp', 'omeprazol', 'esomeprazol', 'lansoprazol', 'pantoprazol', 'rabeprazol', 'proton pump inhibitor', 'omeprazole', 'esomeprazole', 'lansoprazole', 'pantoprazole'],
+  nsaid: ['aine', 'aines', 'antiinflamatorio', 'antiinflamatorios', 'ibuprofeno', 'naproxeno', 'diclofenaco', 'ketorolaco', 'nsaid', 'nsaids', 'ibuprofen', 'naproxen', 'diclofenac'],
+  salicylate: ['salicilato', 'salicilatos', 'aspirina', 'acido acetilsalicilico', 'subsalicilato', 'bismuto', 'salicylate', 'aspirin', 'bismuth'],
+  metronidazole: ['metronidazol', 'metronidazole', 'nitroimidazol'],
+  opioid: ['opioide', 'opioides', 'codeina', 'tramadol', 'morfina', 'opioid', 'codeine', 'morphine'],
+  lactose: ['lactosa', 'lactose'],
+  gluten: ['gluten'],
+  psyllium: ['psyllium', 'plantago', 'ispaghula'],
+};
+
+// Reactividad cruzada: la alergia a un grupo pide precaución con el otro
+const CROSS_REACTIVE: Record<string, string[]> = {
+  penicillin: ['cephalosporin'],
+  nsaid: ['salicylate'],
+  salicylate: ['nsaid'],
+};
+
+/**
+ * Antecedentes con los que se comparan Treatment.contraindicatedConditions,
+ * Treatment.cautionConditions y el texto libre de contraindicaciones
+ */
+const CONDITIONS: Record<string, string[]> = {
+  peptic_ulcer: ['ulcera', 'ulceras', 'ulcera peptica', 'ulcera gastrica', 'ulcera duodenal', 'peptic ulcer', 'stomach ulcer'],
+  gi_bleeding: ['sangrado digestivo', 'hemorragia digestiva', 'sangrado gastrointestinal', 'gi bleeding', 'gastrointestinal bleeding'],
+  bleeding_disorder: ['hemofilia', 'trastorno de coagulacion', 'trastornos de coagulacion', 'coagulopatia', 'bleeding disorder', 'hemophilia'],
+  kidney_disease: ['insuficiencia renal', 'enfermedad renal', 'enfermedad del rinon', 'kidney disease', 'kidney failure'],
+  liver_disease: ['insuficiencia hepatica', 'enfermedad hepatica', 'cirrosis', 'hepatitis', 'liver disease', 'cirrhosis'],
+  heart_failure: ['insuficiencia cardiaca', 'heart failure'],
+  arrhythmia: ['arritmia', 'arritmias', 'qt largo', 'qt prolongado', 'arrhythmia', 'long qt'],
+  bowel_obstruction: ['obstruccion intestinal', 'obstruccion gastrointestinal', 'ileo', 'bowel obstruction', 'intestinal obstruction'],
+  inflammatory_bowel_disease: ['enfermedad inflamatoria intestinal', 'crohn', 'colitis ulcerosa', 'inflammatory bowel disease', 'ulcerative colitis'],
+  bloody_diarrhea: ['diarrea con sangre', 'disenteria', 'bloody diarrhea', 'dysentery'],
+  epilepsy: ['epilepsia', 'convulsiones', 'epilepsy', 'seizures'],
+  parkinson: ['parkinson'],
+  myasthenia_gravis: ['miastenia', 'myasthenia'],
+};
+
+// Antecedentes que contraindican grupos enteros, aunque el tratamiento no los registre
+const GROUP_CONDITIONS: Record<string, { excluded: string[]; caution: string[] }> = {
+  nsaid: { excluded: ['peptic_ulcer', 'gi_bleeding', 'bleeding_disorder'], caution: ['kidney_disease', 'heart_failure'] },
+  salicylate: { excluded: ['peptic_ulcer', 'gi_bleeding', 'bleeding_disorder'], caution: ['kidney_disease'] },
+};
+
+const ALLERGY_PATTERN = /^(alergia|alergico|hipersensibilidad|allergy|allergic|hypersensitivity)\b/;
+const PREGNANCY_UNSAFE = /\b(contraindicad\w*|evitar|no (usar|recomendad\w*|se recomienda)|categoria (d|x)|not recommended|avoid|unsafe|contraindicated|category (d|x))\b/;
+const PREGNANCY_CAUTION = /\b(precaucion|con cuidado|bajo supervision|consultar|consulte|categoria c|caution|only if|consult|category c)\b/;
+
+const STATUS_ORDER: TreatmentSafetyStatus[] = ['safe', 'caution', 'excluded'];
+
+const REASON_TEXT = {
+  es: {
+    allergy: 'usted indicó alergia a {group}.',
+    crossReactive: 'puede causar reacción cruzada con su alergia a {group}.',
+    ageMin: 'no está indicado antes de los {age} años.',
+    ageMax: 'no está indicado después de los {age} años.',
+    ageUncertain: 'tiene restricciones de edad ({range}); confirme la edad con su médico.',
+    pregnancyUnsafe: 'no se recomienda durante el embarazo.',
+    pregnancyCaution: 'durante el embarazo solo debe usarse con indicación médica.',
+    pregnancyUnknown: 'no hay información de su seguridad durante el embarazo.',
+    condition: 'está contraindicado con su antecedente de {condition}.',
+    conditionCaution: 'requiere valoración médica por su antecedente de {condition}.',
+    medication: 'interactúa con {medication}: {description}',
+  },
+  en: {
+    allergy: 'you reported an allergy to {group}.',
+    crossReactive: 'it may cross-react with your {group} allergy.',
+    ageMin: 'it is not indicated before age {age}.',
+    ageMax: 'it is not indicated after age {age}.',
+    ageUncertain: 'it has age restrictions ({range}); confirm your age with your doctor.',
+    pregnancyUnsafe: 'it is not recommended during pregnancy.',
+    pregnancyCaution: 'during pregnancy it should only be used if a doctor indicates it.',
+    pregnancyUnknown: 'there is no information about its safety in pregnancy.',
+    condition: 'it is contraindicated with your history of {condition}.',
+    conditionCaution: 'it needs a medical review because of your history of {condition}.',
+    medication: 'it interacts with {medication}: {description}',
+  },
+};
+
+const EXPLANATION_TEXT = {
+  es: {
+    excludedTitle: 'Tratamientos que no se sugieren según su perfil:',
+    cautionTitle: 'Tratamientos que requieren consultar antes a su médico:',
+  },
+  en: {
+    excludedTitle: 'Treatments not suggested for your profile:',
+    cautionTitle: 'Treatments to check with your doctor first:',
+  },
+};
+
+// Nombres legibles de los grupos y antecedentes para las explicaciones
+const LABELS: Record<string, Localized> = {
+  penicillin: { es: 'penicilinas', en: 'penicillins' },
+  cephalosporin: { es: 'cefalosporinas', en: 'cephalosporins' },
+  macrolide: { es: 'macrólidos', en: 'macrolides' },
+  quinolone: { es: 'quinolonas', en: 'quinolones' },
+  sulfonamide: { es: 'sulfonamidas', en: 'sulfonamides' },
+  ppi: { es: 'inhibidores de la bomba de protones', en: 'proton pump inhibitors' },
+  nsaid: { es: 'antiinflamatorios (AINE)', en: 'anti-inflammatories (NSAIDs)' },
+  salicylate: { es: 'salicilatos', en: 'salicylates' },
+  metronidazole: { es: 'metronidazol', en: 'metronidazole' },
+  opioid: { es: 'opioides', en: 'opioids' },
+  lactose: { es: 'lactosa', en: 'lactose' },
+  gluten: { es: 'gluten', en: 'gluten' },
+  psyllium: { es: 'psyllium', en: 'psyllium' },
+  peptic_ulcer: { es: 'úlcera péptica', en: 'peptic ulcer' },
+  gi_bleeding: { es: 'sangrado digestivo', en: 'gastrointestinal bleeding' },
+  bleeding_disorder: { es: 'trastorno de la coagulación', en: 'bleeding disorder' },
+  kidney_disease: { es: 'enfermedad renal', en: 'kidney disease' },
+  liver_disease: { es: 'enfermedad hepática', en: 'liver disease' },
+  heart_failure: { es: 'insuficiencia cardiaca', en: 'heart failure' },
+  arrhythmia: { es: 'arritmia', en: 'arrhythmia' },
+  bowel_obstruction: { es: 'obstrucción intestinal', en: 'bowel obstruction' },
+  inflammatory_bowel_disease: { es: 'enfermedad inflamatoria intestinal', en: 'inflammatory bowel disease' },
+  bloody_diarrhea: { es: 'diarrea con sangre', en: 'bloody diarrhea' },
+  epilepsy: { es: 'epilepsia', en: 'epilepsy' },
+  parkinson: { es: 'Parkinson', en: 'Parkinson disease' },
+  myasthenia_gravis: { es: 'miastenia gravis', en: 'myasthenia gravis' },
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Evalúa si un tratamiento del catálogo es apto para el paciente: alergias,
+ * edad, embarazo, antecedentes y medicación actual. Usa los campos
+ * estructurados de Treatment y, si faltan, interpreta el texto libre
+ * (ageRestrictions, pregnancySafety, contraindications).
+ */
+export class TreatmentSafetyService {
+  private readonly groupMatchers = this.compile(DRUG_GROUPS);
+  private readonly conditionMatchers = this.compile(CONDITIONS);
+
+  /**
+   * Indica si el perfil aporta algún dato para filtrar tratamientos
+   */
+  public hasProfile(profile: PatientSafetyProfile): boolean {
+    return profile.age !== undefined
+      || !!profile.ageCategory
+      || !!profile.pregnant
+      || !!profile.allergies?.length
+      || !!profile.medicalHistory?.length
+      || !!profile.medications?.length;
+  }
+
+  public evaluate(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyAssessment {
+    const reasons = [
+      ...this.checkAllergies(treatment, profile, language),
+      ...this.checkAge(treatment, profile, language),
+      ...this.checkPregnancy(treatment, profile, language),
+      ...this.checkConditions(treatment, profile, language),
+      ...this.checkMedications(treatment, profile, language),
+    ];
+
+    const status = reasons.reduce<TreatmentSafetyStatus>(
+      (current, reason) => STATUS_ORDER.indexOf(reason.status) > STATUS_ORDER.indexOf(current) ? reason.status : current,
+      'safe'
+    );
+
+    return { treatmentId: treatment.id, treatmentName: treatment.name, status, reasons };
+  }
+
+  /**
+   * Separa los tratamientos aptos (incluidos los que requieren precaución)
+   * de los excluidos, conservando el orden recibido
+   */
+  public filter<T>(treatments: T[], profile: PatientSafetyProfile, language: 'es' | 'en'): {
+    allowed: Array<{ treatment: T; assessment: TreatmentSafetyAssessment }>;
+    excluded: TreatmentSafetyAssessment[];
+  } {
+    const allowed: Array<{ treatment: T; assessment: TreatmentSafetyAssessment }> = [];
+    const excluded: TreatmentSafetyAssessment[] = [];
+
+    treatments.forEach(treatment => {
+      const assessment = this.evaluate(treatment, profile, language);
+      if (assessment.status === 'excluded') {
+        excluded.push(assessment);
+      } else {
+        allowed.push({ treatment, assessment });
+      }
+    });
+
+    return { allowed, excluded };
+  }
+
+  /**
+   * Explica al final de la respuesta qué tratamientos se omitieron o
+   * requieren consulta y por qué
+   */
+  public apply(
+    response: { message: string; urgency: ResponseUrgency; actions: string[] },
+    assessments: TreatmentSafetyAssessment[],
+    language: 'es' | 'en'
+  ): { message: string; urgency: ResponseUrgency; actions: string[] } {
+    const text = EXPLANATION_TEXT[language];
+    const describe = (assessment: TreatmentSafetyAssessment) =>
+      `- ${assessment.treatmentName}: ${assessment.reasons
+        .filter(reason => reason.status === assessment.status)
+        .map(reason => reason.message)
+        .join(' ')}`;
+
+    const excluded = assessments.filter(assessment => assessment.status === 'excluded');
+    const caution = assessments.filter(assessment => assessment.status === 'caution');
+    const sections = [
+      ...(excluded.length > 0 ? [`${text.excludedTitle}\n${excluded.map(describe).join('\n')}`] : []),
+      ...(caution.length > 0 ? [`${text.cautionTitle}\n${caution.map(describe).join('\n')}`] : []),
+    ];
+
+    return sections.length > 0
+      ? { ...response, message: `${response.message}\n\n${sections.join('\n\n')}` }
+      : response;
+  }
+
+  /**
+   * Bloque del prompt con los tratamientos omitidos y los que requieren precaución
+   */
+  public buildPromptNotes(assessments: TreatmentSafetyAssessment[]): string {
+    const excluded = assessments.filter(assessment => assessment.status === 'excluded');
+    const caution = assessments.filter(assessment => assessment.status === 'caution');
+    let notes = 'SEGURIDAD DE TRATAMIENTOS SEGÚN EL PERFIL DEL PACIENTE (la explicación se agrega al final de tu respuesta):';
+
+    if (excluded.length > 0) {
+      notes += `\nNO SUGIERAS: ${excluded.map(assessment => assessment.treatmentName).join(', ')}`;
+    }
+    if (caution.length > 0) {
+      notes += `\nSOLO CON INDICACIÓN MÉDICA: ${caution.map(assessment => assessment.treatmentName).join(', ')}`;
+    }
+
+    return notes;
+  }
+
+  private compile(terms: Record<string, string[]>): Array<{ key: string; regex: RegExp }> {
+    return Object.entries(terms).map(([key, aliases]) => ({
+      key,
+      regex: new RegExp(`\\b(${aliases.map(alias => escapeRegex(MedicalTextNormalizer.normalize(alias))).join('|')})\\b`),
+    }));
+  }
+
+  private groupsIn(texts: string[]): string[] {
+    const normalized = texts.map(text => MedicalTextNormalizer.normalize(text || '')).filter(Boolean);
+    return this.groupMatchers
+      .filter(({ regex }) => normalized.some(text => regex.test(text)))
+      .map(({ key }) => key);
+  }
+
+  private conditionsIn(texts: string[]): string[] {
+    const normalized = texts.map(text => MedicalTextNormalizer.normalize(text || '')).filter(Boolean);
+    return this.conditionMatchers
+      .filter(({ regex }) => normalized.some(text => regex.test(text)))
+      .map(({ key }) => key);
+  }
+
+  private reason(
+    code: TreatmentSafetyReasonCode,
+    ruleId: string,
+    status: TreatmentSafetyReason['status'],
+    message: string
+  ): TreatmentSafetyReason {
+    return { code, ruleId, status, message };
+  }
+
+  private label(key: string, language: 'es' | 'en'): string {
+    return LABELS[key]?.[language] ?? key;
+  }
+
+  /**
+   * Grupos del tratamiento (Treatment.allergens, su principio activo y las
+   * contraindicaciones "Alergia a ...") frente a las alergias del paciente
+   */
+  private checkAllergies(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyReason[] {
+    if (!profile.allergies?.length) return [];
+
+    const text = REASON_TEXT[language];
+    const allergyTexts = (treatment.contraindications || []).filter((entry: string) =>
+      ALLERGY_PATTERN.test(MedicalTextNormalizer.normalize(entry))
+    );
+    const treatmentGroups = new Set([
+      ...(treatment.allergens || []),
+      ...this.groupsIn([treatment.activeIngredient, treatment.name, ...allergyTexts]),
+    ]);
+    const patientGroups = this.groupsIn(profile.allergies);
+    const reasons: TreatmentSafetyReason[] = [];
+
+    patientGroups
+      .filter(group => treatmentGroups.has(group))
+      .forEach(group => reasons.push(this.reason('allergy', 'treatment-allergy', 'excluded',
+        text.allergy.replace('{group}', this.label(group, language)))));
+
+    // Alergia a un principio activo concreto que no pertenece a ningún grupo
+    const treatmentIngredients = drugInteractions.recognize(`${treatment.activeIngredient || ''} ${treatment.name}`);
+    profile.allergies
+      .flatMap(allergy => drugInteractions.recognize(allergy))
+      .filter(ingredient => treatmentIngredients.includes(ingredient))
+      .filter(ingredient => !this.groupsIn([ingredient]).some(group => patientGroups.includes(group)))
+      .forEach(ingredient => reasons.push(this.reason('allergy', 'treatment-allergy', 'excluded',
+        text.allergy.replace('{group}', ingredient))));
+
+    patientGroups
+      .flatMap(group => (CROSS_REACTIVE[group] || []).map(related => ({ group, related })))
+      .filter(({ related }) => treatmentGroups.has(related) && !patientGroups.includes(related))
+      .forEach(({ group }) => reasons.push(this.reason('allergy', 'treatment-allergy-cross-reactive', 'caution',
+        text.crossReactive.replace('{group}', this.label(group, language)))));
+
+    return reasons;
+  }
+
+  /**
+   * minAge/maxAge o, si faltan, Treatment.ageRestrictions. Sin edad exacta
+   * se usa el rango de la categoría y un rango parcial queda en precaución.
+   */
+  private checkAge(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyReason[] {
+    const category = profile.ageCategory
+      ?? (profile.age !== undefined ? this.categoryOf(profile.age) : undefined);
+    if (!category) return [];
+
+    const structured = treatment.minAge != null || treatment.maxAge != null;
+    const range = structured
+      ? {
+          ...(treatment.minAge != null && { minAge: treatment.minAge as number }),
+          ...(treatment.maxAge != null && { maxAge: treatment.maxAge as number }),
+        }
+      : this.parseAgeRestriction(treatment.ageRestrictions || '');
+    if (range.minAge === undefined && range.maxAge === undefined) return [];
+
+    const text = REASON_TEXT[language];
+    const [low, high] = profile.age !== undefined ? [profile.age, profile.age] : AGE_RANGES[category];
+
+    if (range.minAge !== undefined && high < range.minAge) {
+      return [this.reason('age', 'treatment-age-restriction', 'excluded', text.ageMin.replace('{age}', String(range.minAge)))];
+    }
+    if (range.maxAge !== undefined && low > range.maxAge) {
+      return [this.reason('age', 'treatment-age-restriction', 'excluded', text.ageMax.replace('{age}', String(range.maxAge)))];
+    }
+    if ((range.minAge !== undefined && low < range.minAge) || (range.maxAge !== undefined && high > range.maxAge)) {
+      const limits = [
+        ...(range.minAge !== undefined ? [`≥ ${range.minAge}`] : []),
+        ...(range.maxAge !== undefined ? [`≤ ${range.maxAge}`] : []),
+      ].join(', ');
+      return [this.reason('age', 'treatment-age-uncertain', 'caution', text.ageUncertain.replace('{range}', limits))];
+    }
+
+    return [];
+  }
+
+  /**
+   * pregnancyCategory o, si falta, Treatment.pregnancySafety. Un
+   * medicamento sin información no se sugiere en el embarazo.
+   */
+  private checkPregnancy(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyReason[] {
+    if (!profile.pregnant) return [];
+
+    const text = REASON_TEXT[language];
+    const category = treatment.pregnancyCategory as PregnancyCategory | null | undefined;
+
+    if (category) {
+      if (category === 'contraindicated' || category === 'avoid') {
+        return [this.reason('pregnancy', 'treatment-pregnancy-safety', 'excluded', text.pregnancyUnsafe)];
+      }
+      return category === 'caution'
+        ? [this.reason('pregnancy', 'treatment-pregnancy-caution', 'caution', text.pregnancyCaution)]
+        : [];
+    }
+
+    const safety = MedicalTextNormalizer.normalize(treatment.pregnancySafety || '');
+    if (safety && PREGNANCY_UNSAFE.test(safety)) {
+      return [this.reason('pregnancy', 'treatment-pregnancy-safety', 'excluded', text.pregnancyUnsafe)];
+    }
+    if (safety && PREGNANCY_CAUTION.test(safety)) {
+      return [this.reason('pregnancy', 'treatment-pregnancy-caution', 'caution', text.pregnancyCaution)];
+    }
+    if (!safety && treatment.type === 'medication') {
+      return [this.reason('pregnancy', 'treatment-pregnancy-unknown', 'excluded', text.pregnancyUnknown)];
+    }
+
+    return [];
+  }
+
+  /**
+   * Antecedentes del paciente frente a contraindicatedConditions,
+   * cautionConditions, el texto libre de contraindicaciones y los
+   * antecedentes que excluyen al grupo del principio activo
+   */
+  private checkConditions(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyReason[] {
+    if (!profile.medicalHistory?.length) return [];
+
+    const text = REASON_TEXT[language];
+    const patientConditions = this.conditionsIn(profile.medicalHistory);
+    const freeText = (treatment.contraindications || []).filter((entry: string) =>
+      !ALLERGY_PATTERN.test(MedicalTextNormalizer.normalize(entry))
+    );
+    const groups = this.groupsIn([treatment.activeIngredient, treatment.name]);
+
+    const excluded = new Set<string>([
+      ...(treatment.contraindicatedConditions || []),
+      ...this.conditionsIn(freeText),
+      ...groups.flatMap(group => GROUP_CONDITIONS[group]?.excluded || []),
+    ]);
+    const caution = new Set<string>([
+      ...(treatment.cautionConditions || []),
+      ...this.conditionsIn(treatment.precautions || []),
+      ...groups.flatMap(group => GROUP_CONDITIONS[group]?.caution || []),
+    ]);
+
+    return patientConditions.flatMap(condition => {
+      if (excluded.has(condition)) {
+        return [this.reason('condition', 'treatment-condition', 'excluded',
+          text.condition.replace('{condition}', this.label(condition, language)))];
+      }
+      if (caution.has(condition)) {
+        return [this.reason('condition', 'treatment-condition-caution', 'caution',
+          text.conditionCaution.replace('{condition}', this.label(condition, language)))];
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Interacciones del tratamiento con la medicación actual: las graves o
+   * contraindicadas lo excluyen y las moderadas piden precaución
+   */
+  private checkMedications(treatment: any, profile: PatientSafetyProfile, language: 'es' | 'en'): TreatmentSafetyReason[] {
+    if (!profile.medications?.length) return [];
+
+    const text = REASON_TEXT[language];
+    const check = drugInteractions.check(profile.medications, {
+      id: treatment.id,
+      name: treatment.name,
+      activeIngredient: treatment.activeIngredient,
+      contraindications: treatment.contraindications || [],
+    }, language);
+    const treatmentParts = [treatment.name, ...(check.treatment?.ingredients || [])];
+
+    return check.interactions
+      .filter(interaction => interaction.severity !== 'minor')
+      .filter(interaction => interaction.between.some(part => treatmentParts.includes(part)))
+      .map(interaction => {
+        const medication = interaction.between.find(part => !treatmentParts.includes(part)) ?? interaction.between[0];
+        const status = interaction.severity === 'moderate' ? 'caution' : 'excluded';
+        return this.reason('medication', `treatment-medication:${interaction.ruleId}`, status,
+          text.medication.replace('{medication}', medication).replace('{description}', interaction.description));
+      });
+  }
+
+  private categoryOf(age: number): AgeCategory | undefined {
+    const validation = MedicalDataValidator.validateAge(age);
+    return validation.category === 'invalid' ? undefined : validation.category;
+  }
+
+  /**
+   * Interpreta Treatment.ageRestrictions (texto libre, p. ej. "No usar en
+   * menores de 12 años", "Solo adultos", "Evitar en adultos mayores")
+   */
+  private parseAgeRestriction(restriction: string): { minAge?: number; maxAge?: number } {
+    const text = MedicalTextNormalizer.normalize(restriction);
+    const prohibits = /\b(no|evitar|contraindicad\w*|not|avoid)\b/.test(text);
+
+    const under = text.match(/\b(?:menores de|under|younger than) (\d{1,3})\b/);
+    const over = text.match(/\b(?:mayores de|a partir de(?: los)?|desde los|over|older than|from) (\d{1,3})\b/);
+
+    if (prohibits && over && /\b(?:mayores de|over|older than) (\d{1,3})\b/.test(text)) {
+      return { maxAge: parseInt(over[1]!) - 1 };
+    }
+    if (prohibits && under) {
+      return { minAge: parseInt(under[1]!) };
+    }
+    if (over) {
+      return { minAge: parseInt(over[1]!) };
+    }
+    if (prohibits && /\b(ancianos|adultos mayores|elderly)\b/.test(text)) {
+      return { maxAge: 64 };
+    }
+    if (prohibits && /\b(lactantes|bebes|infants)\b/.test(text)) {
+      return { minAge: 2 };
+    }
+    if ((prohibits && /\b(ninos|children|pediatric\w*)\b/.test(text)) || /\b(solo|unicamente) adultos\b|\badults only\b/.test(text)) {
+      return { minAge: 18 };
+    }
+
+    return {};
+  }
+}
+
+// Exportar instancia singleton
+export const treatmentSafety = new TreatmentSafetyService();
+export default treatmentSafety;
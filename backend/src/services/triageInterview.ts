@@ -0,0 +1,474 @@
+import { MedicalTextNormalizer } from '../utils/medicalUtils';
+import { symptomExtractor } from './symptomExtractor';
+import {
+  ChatRequest,
+  TriageIntake,
+  TriageQuestion,
+  TriageState,
+  TriageStep,
+} from '../types/medical';
+
+type Language = 'es' | 'en';
+
+interface TriageOption {
+  value: string;
+  es: string;
+  en: string;
+}
+
+interface TriageStepDefinition {
+  step: TriageStep;
+  question: Record<Language, string>;
+  inputType: TriageQuestion['inputType'];
+  options: TriageOption[];
+  allowFreeText: boolean;
+}
+
+// Valor exclusivo en preguntas de opción múltiple
+const NONE_OPTION = 'none';
+
+// Síntoma del catálogo implícito cuando se indica la ubicación del dolor
+const PAIN_SYMPTOM = 'Dolor abdominal';
+
+const MAX_FREE_TEXT_LENGTH = 200;
+
+// Orden de la entrevista (OLDCARTS simplificado para molestias digestivas)
+const TRIAGE_STEPS: TriageStepDefinition[] = [
+  {
+    step: 'onset',
+    question: {
+      es: '¿Cómo comenzaron sus molestias?',
+      en: 'How did your symptoms start?',
+    },
+    inputType: 'single',
+    options: [
+      { value: 'sudden', es: 'De repente', en: 'Suddenly' },
+      { value: 'gradual', es: 'Poco a poco', en: 'Gradually' },
+      { value: 'after_meal', es: 'Después de comer', en: 'After eating' },
+      { value: 'unknown', es: 'No lo sé', en: "I don't know" },
+    ],
+    allowFreeText: true,
+  },
+  {
+    step: 'location',
+    question: {
+      es: '¿En qué parte del abdomen siente la molestia?',
+      en: 'Where in your abdomen do you feel the discomfort?',
+    },
+    inputType: 'single',
+    options: [
+      { value: 'epigastric', es: 'Parte alta, en la boca del estómago', en: 'Upper middle, below the breastbone' },
+      { value: 'right_upper', es: 'Arriba a la derecha', en: 'Upper right' },
+      { value: 'left_upper', es: 'Arriba a la izquierda', en: 'Upper left' },
+      { value: 'periumbilical', es: 'Alrededor del ombligo', en: 'Around the belly button' },
+      { value: 'right_lower', es: 'Abajo a la derecha', en: 'Lower right' },
+      { value: 'left_lower', es: 'Abajo a la izquierda', en: 'Lower left' },
+      { value: 'diffuse', es: 'En todo el abdomen', en: 'All over the abdomen' },
+      { value: NONE_OPTION, es: 'No tengo dolor', en: 'I have no pain' },
+    ],
+    allowFreeText: true,
+  },
+  {
+    step: 'character',
+    question: {
+      es: '¿Cómo describiría la molestia?',
+      en: 'How would you describe the discomfort?',
+    },
+    inputType: 'single',
+    options: [
+      { value: 'burning', es: 'Ardor', en: 'Burning' },
+      { value: 'cramping', es: 'Cólico o retortijón', en: 'Cramping' },
+      { value: 'stabbing', es: 'Punzante', en: 'Stabbing' },
+      { value: 'pressure', es: 'Presión o pesadez', en: 'Pressure or heaviness' },
+      { value: 'bloating', es: 'Hinchazón', en: 'Bloating' },
+    ],
+    allowFreeText: true,
+  },
+  {
+    step: 'severity',
+    question: {
+      es: 'Del 1 al 10, ¿qué tan intensas son sus molestias?',
+      en: 'From 1 to 10, how intense are your symptoms?',
+    },
+    inputType: 'scale',
+    options: Array.from({ length: 10 }, (_, index) => ({
+      value: String(index + 1),
+      es: String(index + 1),
+      en: String(index + 1),
+    })),
+    allowFreeText: false,
+  },
+  {
+    step: 'duration',
+    question: {
+      es: '¿Desde hace cuánto tiempo tiene estas molestias?',
+      en: 'How long have you had these symptoms?',
+    },
+    inputType: 'single',
+    // Valores aceptados por MedicalDataValidator.validateSymptomDuration
+    options: [
+      { value: 'minutos', es: 'Minutos', en: 'Minutes' },
+      { value: 'horas', es: 'Horas', en: 'Hours' },
+      { value: '1 día', es: '1 día', en: '1 day' },
+      { value: '2-3 días', es: '2-3 días', en: '2-3 days' },
+      { value: '1 semana', es: '1 semana', en: '1 week' },
+      { value: '2-4 semanas', es: '2-4 semanas', en: '2-4 weeks' },
+      { value: '1 mes', es: '1 mes', en: '1 month' },
+      { value: 'más de 1 mes', es: 'Más de 1 mes', en: 'More than 1 month' },
+      { value: 'crónico', es: 'Crónico', en: 'Chronic' },
+    ],
+    allowFreeText: false,
+  },
+  {
+    step: 'associated',
+    question: {
+      es: '¿Tiene alguno de estos otros síntomas? Puede elegir varios.',
+      en: 'Do you have any of these other symptoms? You can choose several.',
+    },
+    inputType: 'multiple',
+    // Nombres canónicos del catálogo de síntomas
+    options: [
+      { value: 'Náuseas', es: 'Náuseas', en: 'Nausea' },
+      { value: 'Vómitos', es: 'Vómitos', en: 'Vomiting' },
+      { value: 'Diarrea', es: 'Diarrea', en: 'Diarrhea' },
+      { value: 'Estreñimiento', es: 'Estreñimiento', en: 'Constipation' },
+      { value: 'Acidez estomacal', es: 'Acidez estomacal', en: 'Heartburn' },
+      { value: 'Distensión abdominal', es: 'Distensión abdominal', en: 'Bloating' },
+      { value: 'Gases intestinales', es: 'Gases', en: 'Gas' },
+      { value: 'Pérdida de apetito', es: 'Pérdida de apetito', en: 'Loss of appetite' },
+      { value: 'Fiebre', es: 'Fiebre', en: 'Fever' },
+      { value: 'Fatiga', es: 'Cansancio', en: 'Fatigue' },
+      { value: NONE_OPTION, es: 'Ninguno', en: 'None' },
+    ],
+    allowFreeText: true,
+  },
+  {
+    step: 'redFlags',
+    question: {
+      es: 'Por último, ¿ha notado alguna de estas señales?',
+      en: 'Finally, have you noticed any of these signs?',
+    },
+    inputType: 'multiple',
+    // Las etiquetas coinciden con las reglas de emergencia por defecto
+    options: [
+      { value: 'vomit_blood', es: 'Vómito con sangre', en: 'Vomiting blood' },
+      { value: 'bloody_stool', es: 'Heces con sangre o negras', en: 'Blood in stool or black stools' },
+      { value: 'rigid_abdomen', es: 'Abdomen rígido', en: 'Rigid abdomen' },
+      { value: 'fainting', es: 'Desmayo', en: 'Fainted' },
+      { value: 'high_fever', es: 'Fiebre alta', en: 'High fever' },
+      { value: 'unable_to_drink', es: 'Vomito todo lo que tomo', en: "Can't keep fluids down" },
+      { value: NONE_OPTION, es: 'Ninguna', en: 'None' },
+    ],
+    allowFreeText: false,
+  },
+];
+
+const INTAKE_LABELS: Record<Language, Record<keyof TriageIntake, string> & { title: string; complaint: string; noPain: string }> = {
+  es: {
+    title: 'Resumen de la entrevista guiada',
+    complaint: 'Molestia principal: dolor abdominal.',
+    onset: 'Inicio',
+    location: 'Ubicación',
+    character: 'Tipo de molestia',
+    severity: 'Intensidad',
+    duration: 'Duración',
+    associatedSymptoms: 'Síntomas asociados',
+    redFlags: 'Señales de alarma',
+    noPain: 'sin dolor',
+  },
+  en: {
+    title: 'Guided interview summary',
+    complaint: 'Main complaint: abdominal pain.',
+    onset: 'Onset',
+    location: 'Location',
+    character: 'Character',
+    severity: 'Severity',
+    duration: 'Duration',
+    associatedSymptoms: 'Associated symptoms',
+    redFlags: 'Red flags',
+    noPain: 'no pain',
+  },
+};
+
+/**
+ * Entrevista de triaje guiada: máquina de estados que recorre inicio,
+ * ubicación, tipo, intensidad, duración, síntomas asociados y señales de
+ * alarma. El estado es serializable y se guarda en Conversation.triageState.
+ */
+export class TriageInterviewService {
+  /**
+   * Crea el estado inicial de la entrevista
+   */
+  public start(): TriageState {
+    return {
+      status: 'in_progress',
+      currentStep: TRIAGE_STEPS[0]!.step,
+      answers: {},
+      startedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Pregunta pendiente del estado, o null si la entrevista terminó
+   */
+  public getQuestion(state: TriageState, language: Language = 'es'): TriageQuestion | null {
+    if (!state.currentStep || state.status === 'completed' || state.status === 'cancelled') {
+      return null;
+    }
+
+    const definition = this.getDefinition(state.currentStep);
+    const steps = this.getActiveSteps(state.answers);
+
+    return {
+      step: definition.step,
+      question: definition.question[language],
+      inputType: definition.inputType,
+      options: definition.options.map(option => ({ value: option.value, label: option[language] })),
+      allowFreeText: definition.allowFreeText,
+      progress: {
+        current: steps.indexOf(definition.step) + 1,
+        total: steps.length,
+      },
+    };
+  }
+
+  /**
+   * Registra la respuesta del paso actual y avanza al siguiente.
+   * Acepta el valor de la opción, su etiqueta, su número (1..n) o texto libre
+   * cuando el paso lo permite.
+   */
+  public async answer(
+    state: TriageState,
+    input: string | number | string[]
+  ): Promise<{ valid: boolean; state: TriageState; errors: string[] }> {
+    if (state.status !== 'in_progress' || !state.currentStep) {
+      return { valid: false, state, errors: ['Triage interview is not in progress'] };
+    }
+
+    const definition = this.getDefinition(state.currentStep);
+    const parsed = definition.inputType === 'multiple'
+      ? await this.parseMultiple(definition, input)
+      : this.parseSingle(definition, input);
+
+    if (!parsed.valid) {
+      return { valid: false, state, errors: parsed.errors };
+    }
+
+    const answers: TriageIntake = { ...state.answers, ...parsed.answer };
+    const nextStep = this.getNextStep(definition.step, answers);
+
+    return {
+      valid: true,
+      errors: [],
+      state: {
+        ...state,
+        answers,
+        currentStep: nextStep,
+        status: nextStep ? 'in_progress' : 'completed',
+        ...(!nextStep && { completedAt: new Date().toISOString() }),
+      },
+    };
+  }
+
+  /**
+   * Texto legible de la respuesta registrada en un paso (para el historial)
+   */
+  public describeAnswer(step: TriageStep, intake: TriageIntake, language: Language = 'es'): string {
+    const definition = this.getDefinition(step);
+    const value = this.getAnswerValue(step, intake);
+
+    if (value === undefined) return '';
+    if (Array.isArray(value)) {
+      return value.length > 0
+        ? value.map(item => this.labelFor(definition, item, language)).join(', ')
+        : this.labelFor(definition, NONE_OPTION, language);
+    }
+
+    return step === 'severity' ? `${value}/10` : this.labelFor(definition, String(value), language);
+  }
+
+  /**
+   * Mensaje sintetizado con el resultado de la entrevista. Se procesa como
+   * un mensaje del paciente, por lo que las señales de alarma pasan por el
+   * motor de reglas de emergencia.
+   */
+  public buildIntakeMessage(intake: TriageIntake, language: Language = 'es'): string {
+    const labels = INTAKE_LABELS[language];
+    const lines: string[] = this.hasPain(intake) ? [labels.complaint] : [];
+
+    const steps: { step: TriageStep; key: keyof TriageIntake }[] = [
+      { step: 'onset', key: 'onset' },
+      { step: 'location', key: 'location' },
+      { step: 'character', key: 'character' },
+      { step: 'severity', key: 'severity' },
+      { step: 'duration', key: 'duration' },
+      { step: 'associated', key: 'associatedSymptoms' },
+      { step: 'redFlags', key: 'redFlags' },
+    ];
+
+    steps.forEach(({ step, key }) => {
+      if (intake[key] === undefined) return;
+
+      const text = step === 'location' && intake.location === NONE_OPTION
+        ? labels.noPain
+        : this.describeAnswer(step, intake, language);
+
+      if (text) {
+        lines.push(`${labels[key]}: ${text}.`);
+      }
+    });
+
+    return `${labels.title}. ${lines.join(' ')}`;
+  }
+
+  /**
+   * Traduce la entrevista al contexto de usuario que ya valida el chat
+   */
+  public toUserContext(intake: TriageIntake, base: ChatRequest['userContext'] = {}): NonNullable<ChatRequest['userContext']> {
+    const symptoms = [...new Set([...(base?.symptoms || []), ...this.getReportedSymptoms(intake)])];
+
+    return {
+      ...base,
+      ...(symptoms.length > 0 && { symptoms }),
+      ...(intake.severity !== undefined && { painLevel: intake.severity }),
+      ...(intake.duration !== undefined && { duration: intake.duration }),
+    };
+  }
+
+  /**
+   * Nombres canónicos de los síntomas reportados en la entrevista
+   */
+  public getReportedSymptoms(intake?: TriageIntake): string[] {
+    if (!intake) return [];
+    return [...new Set([...(this.hasPain(intake) ? [PAIN_SYMPTOM] : []), ...(intake.associatedSymptoms || [])])];
+  }
+
+  /**
+   * Indica si la entrevista reportó alguna señal de alarma
+   */
+  public hasRedFlags(intake?: TriageIntake): boolean {
+    return (intake?.redFlags || []).length > 0;
+  }
+
+  private hasPain(intake: TriageIntake): boolean {
+    return intake.location !== undefined && intake.location !== NONE_OPTION;
+  }
+
+  private parseSingle(
+    definition: TriageStepDefinition,
+    input: string | number | string[]
+  ): { valid: boolean; answer: TriageIntake; errors: string[] } {
+    const raw = Array.isArray(input) ? input[0] : input;
+    const text = raw === undefined || raw === null ? '' : String(raw).trim();
+
+    if (!text) {
+      return { valid: false, answer: {}, errors: ['Answer is required'] };
+    }
+
+    if (definition.inputType === 'scale') {
+      const severity = Number(text);
+      if (!Number.isInteger(severity) || severity < 1 || severity > 10) {
+        return { valid: false, answer: {}, errors: ['Severity must be an integer between 1 and 10'] };
+      }
+      return { valid: true, answer: { severity }, errors: [] };
+    }
+
+    const option = this.findOption(definition, text);
+    if (!option && !definition.allowFreeText) {
+      return { valid: false, answer: {}, errors: [`Invalid option for ${definition.step}`] };
+    }
+
+    const value = option ? option.value : text.slice(0, MAX_FREE_TEXT_LENGTH);
+    return { valid: true, answer: { [this.getAnswerKey(definition.step)]: value }, errors: [] };
+  }
+
+  private async parseMultiple(
+    definition: TriageStepDefinition,
+    input: string | number | string[]
+  ): Promise<{ valid: boolean; answer: TriageIntake; errors: string[] }> {
+    const items = (Array.isArray(input) ? input : String(input).split(/[,;]/))
+      .map(item => String(item).trim())
+      .filter(Boolean);
+
+    if (items.length === 0) {
+      return { valid: false, answer: {}, errors: ['Select at least one option'] };
+    }
+
+    const values = new Set<string>();
+    const unmatched: string[] = [];
+
+    items.forEach(item => {
+      const option = this.findOption(definition, item);
+      if (option) {
+        values.add(option.value);
+      } else {
+        unmatched.push(item);
+      }
+    });
+
+    // El texto libre de síntomas asociados pasa por el extractor del catálogo
+    if (unmatched.length > 0 && definition.allowFreeText) {
+      const extraction = await symptomExtractor.extract(unmatched.join(', ').slice(0, MAX_FREE_TEXT_LENGTH));
+      extraction.symptoms.forEach(symptom => values.add(symptom.name));
+    } else if (unmatched.length > 0) {
+      return { valid: false, answer: {}, errors: [`Invalid options for ${definition.step}: ${unmatched.join(', ')}`] };
+    }
+
+    if (values.size === 0) {
+      return { valid: false, answer: {}, errors: ['No recognizable symptoms in the answer'] };
+    }
+
+    // "Ninguno" solo es válido por sí mismo
+    if (values.has(NONE_OPTION) && values.size > 1) {
+      values.delete(NONE_OPTION);
+    }
+
+    const selected = [...values].filter(value => value !== NONE_OPTION);
+    return { valid: true, answer: { [this.getAnswerKey(definition.step)]: selected }, errors: [] };
+  }
+
+  private findOption(definition: TriageStepDefinition, text: string): TriageOption | undefined {
+    const normalized = MedicalTextNormalizer.normalize(text);
+    const index = /^\d+$/.test(text) ? Number(text) - 1 : -1;
+
+    return definition.options.find(option =>
+      MedicalTextNormalizer.normalize(option.value) === normalized ||
+      MedicalTextNormalizer.normalize(option.es) === normalized ||
+      MedicalTextNormalizer.normalize(option.en) === normalized
+    ) ?? (definition.inputType !== 'scale' ? definition.options[index] : undefined);
+  }
+
+  private labelFor(definition: TriageStepDefinition, value: string, language: Language): string {
+    return definition.options.find(option => option.value === value)?.[language] ?? value;
+  }
+
+  /**
+   * Pasos aplicables: sin dolor no se pregunta el tipo de molestia
+   */
+  private getActiveSteps(answers: TriageIntake): TriageStep[] {
+    return TRIAGE_STEPS
+      .filter(definition => !(definition.step === 'character' && answers.location === NONE_OPTION))
+      .map(definition => definition.step);
+  }
+
+  private getNextStep(current: TriageStep, answers: TriageIntake): TriageStep | null {
+    const steps = this.getActiveSteps(answers);
+    return steps[steps.indexOf(current) + 1] ?? null;
+  }
+
+  private getDefinition(step: TriageStep): TriageStepDefinition {
+    return TRIAGE_STEPS.find(definition => definition.step === step)!;
+  }
+
+  private getAnswerKey(step: TriageStep): keyof TriageIntake {
+    return step === 'associated' ? 'associatedSymptoms' : step;
+  }
+
+  private getAnswerValue(step: TriageStep, intake: TriageIntake): TriageIntake[keyof TriageIntake] {
+    return intake[this.getAnswerKey(step)];
+  }
+}
+
+// Exportar instancia singleton
+export const triageInterview = new TriageInterviewService();
+export default triageInterview;
@@ -0,0 +1,79 @@
+// Tipos para los proveedores de modelos de lenguaje (LLM)
+
+export type LLMRole = 'user' | 'model';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMGenerateRequest {
+  systemPrompt: string;
+  messages: LLMMessage[]; // El último mensaje es el turno actual del usuario
+  temperature: number;
+  maxOutputTokens: number;
+  responseFormat?: 'text' | 'json'; // 'json' = sobre estructurado (AIResponseEnvelope)
+  // Pistas para proveedores deterministas; los proveedores remotos las ignoran
+  context?: {
+    userMessage: string;
+    language: 'es' | 'en';
+    extractedSymptoms: string[];
+    catalog?: Array<{ ref: string; type: string; name: string }>;
+  };
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMSafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+export interface LLMSafetyMetadata {
+  blocked: boolean;
+  blockReason?: string;
+  ratings: LLMSafetyRating[];
+}
+
+export type LLMFinishReason = 'stop' | 'max_tokens' | 'safety' | 'recitation' | 'other' | 'unknown';
+
+export interface LLMGenerateResult {
+  content: string;
+  provider: string;
+  model: string;
+  finishReason: LLMFinishReason;
+  usage: LLMUsage;
+  safety: LLMSafetyMetadata;
+}
+
+// Recibe cada fragmento de texto a medida que el modelo lo genera
+export type LLMStreamHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+  stream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResult>;
+}
+
+export type LLMProviderName = 'gemini' | 'offline';
+
+// Circuit breaker de las llamadas al modelo
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  openedAt: string | null;
+  nextAttemptAt: string | null; // Cuándo se permitirá la llamada de prueba
+  lastFailure: { at: string; message: string } | null;
+  totals: { successes: number; failures: number; rejected: number };
+}
@@ -1,3 +1,5 @@
+import type { LLMFinishReason } from './llm';
+
 // Tipos principales del dominio médico
 
 export interface Disease {
@@ -14,6 +16,7 @@ export interface Disease {
   icdCode?: string;
   category: string;
   prevalence?: string;
+  typicalAge?: string;
   createdAt: Date;
   updatedAt: Date;
   isActive: boolean;
@@ -28,6 +31,7 @@ export interface Symptom {
   bodyLocation: string[];
   duration?: string;
   triggers: string[];
+  keywords: string[]; // Sinónimos y expresiones coloquiales
   category: 'pain' | 'digestive' | 'systemic' | 'neurological' | 'dermatological';
   urgencyLevel: 'low' | 'medium' | 'high' | 'emergency';
   createdAt: Date;
@@ -41,6 +45,8 @@ export interface DiseaseSymptom {
   symptomId: number;
   frequency: 'common' | 'occasional' | 'rare';
   severity: 'mild' | 'moderate' | 'severe';
+  weight: number; // Especificidad diagnóstica (0-1)
+  probability: number; // P(síntoma | enfermedad)
   disease: Disease;
   symptom: Symptom;
 }
@@ -51,18 +57,46 @@ export interface Conversation {
   messages: ChatMessage[];
   userSymptoms: string[];
   suggestedDiseases: string[];
-  riskLevel: 'low' | 'medium' | 'high' | 'emergency';
+  riskLevel: ConversationRiskLevel; // Riesgo del último turno
+  highestRiskLevel: ConversationRiskLevel; // Riesgo más alto alcanzado
+  highestRiskAt?: Date | null;
   emergencyDetected: boolean;
   medicalAdviceGiven: boolean;
   satisfactionRating?: number;
   userAgent?: string;
   ipAddress?: string;
   language: 'es' | 'en';
+  summary?: ConversationSummary | null; // Turnos antiguos compactados
+  disposition?: Disposition | null; // Disposición del último turno
   createdAt: Date;
   lastActivity: Date;
   isActive: boolean;
 }
 
+// Resumen clínico de los turnos compactados de una conversación larga
+export interface ConversationSummaryEvent {
+  at: string; // ISO
+  type: 'symptoms' | 'risk' | 'emergency' | 'triage';
+  detail: string;
+}
+
+export interface ConversationSummary {
+  version: number; // Aumenta en cada compactación
+  language: 'es' | 'en';
+  summarizedMessages: number; // Total de mensajes comprimidos
+  coveredFrom: string;
+  coveredTo: string;
+  symptoms: Array<{ name: string; firstMentioned: string; lastMentioned: string; mentions: number }>;
+  timeline: ConversationSummaryEvent[];
+  riskChanges: Array<{ at: string; from: Conversation['riskLevel'] | null; to: Conversation['riskLevel'] }>;
+  currentRisk: Conversation['riskLevel'] | null;
+  highestRisk: Conversation['riskLevel'];
+  adviceGiven: string[];
+  suspectedConditions: string[];
+  text: string; // Versión legible usada en el prompt
+  updatedAt: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -74,6 +108,12 @@ export interface ChatMessage {
     emergencyDetected?: boolean;
     symptomsExtracted?: string[];
     suggestedActions?: string[];
+    triageStep?: TriageStep; // Pregunta o respuesta de la entrevista guiada
+    triageCompleted?: boolean; // Respuesta que cierra la entrevista guiada
+    riskLevel?: Conversation['riskLevel']; // Riesgo de la conversación tras esta respuesta
+    suspectedConditions?: string[]; // Candidatas del diferencial comentadas
+    prompt?: PromptReference; // Versión y hash del prompt que generó la respuesta
+    redFlagChecklist?: RedFlagChecklist; // Estado de las señales de alarma tras esta respuesta
   };
 }
 
@@ -94,6 +134,12 @@ export interface Treatment {
   conditions: string[];
   ageRestrictions?: string;
   pregnancySafety?: string;
+  minAge?: number;
+  maxAge?: number;
+  pregnancyCategory?: PregnancyCategory;
+  allergens: string[];
+  contraindicatedConditions: string[];
+  cautionConditions: string[];
   createdAt: Date;
   updatedAt: Date;
   isActive: boolean;
@@ -162,10 +208,18 @@ export interface ChatRequest {
   language?: 'es' | 'en';
   userContext?: {
     age?: number;
+    pregnant?: boolean;
+    medications?: string[]; // Medicamentos que toma el paciente (nombre o principio activo)
+    allergies?: string[];
+    medicalHistory?: string[]; // Antecedentes (úlcera, insuficiencia renal, ...)
     symptoms?: string[];
     painLevel?: number;
     duration?: string;
   };
+  triageIntake?: TriageIntake; // Resultado de la entrevista guiada
+  conversationHistory?: ChatMessage[]; // Turnos previos ya desencriptados
+  conversationSummary?: ConversationSummary | null; // Turnos anteriores al historial
+  sessionTokens?: number; // Tokens ya consumidos por la conversación (presupuesto por sesión)
 }
 
 export interface ChatResponse {
@@ -175,6 +229,14 @@ export interface ChatResponse {
   confidence: number;
   emergencyDetected: boolean;
   suggestedActions?: string[];
+  possibleCauses?: string[];
+  followUpQuestions?: string[];
+  redFlagsMentioned?: string[];
+  urgency?: ResponseUrgency;
+  disposition?: Disposition; // Solo en consultas procesadas por el pipeline de triaje
+  redFlagChecklist?: RedFlagChecklist; // Solo si se mencionan síntomas del catálogo con señales de alarma
+  citations?: CatalogCitation[];
+  differential?: DifferentialDiagnosis[];
   relatedDiseases?: Disease[];
   disclaimer: string;
   timestamp: Date;
@@ -182,9 +244,437 @@ export interface ChatResponse {
     model: string;
     processingTime: number;
     symptomsExtracted: string[];
+    symptomMatches?: ExtractedSymptom[];
+    structuredOutput?: boolean;
+    repairAttempts?: number;
+    confidence?: ConfidenceAssessment; // Desglose de la confianza
+    promptInjection?: PromptInjectionSummary; // Solo si se detectó un intento de inyección
+    usage?: TokenUsage; // Solo si se consultó al modelo
+    budget?: TokenBudgetStatus; // Solo si se superó un presupuesto de tokens
+    fallback?: FallbackReason; // Respuesta basada en reglas, sin consultar al modelo
+    prompt?: PromptReference; // Solo si se consultó al modelo
+    population?: PopulationSummary; // Solo si se conoce la edad o el embarazo
+    drugInteractions?: DrugInteraction[]; // Solo si el paciente menciona una combinación que interactúa
+    treatmentSafety?: TreatmentSafetyAssessment[]; // Tratamientos del catálogo omitidos o marcados por el perfil
+    triggeredRules?: string[]; // Reglas de emergencia disparadas (cualquier nivel, sin negaciones)
+    emergencySignal?: EmergencySignal; // Decisión de emergencia conciliada (reglas y modelo)
   };
 }
 
+// Motivo por el que se respondió con el triaje basado en reglas
+export type FallbackReason = 'ai_unavailable' | 'token_budget';
+
+// Consumo de tokens de una respuesta y costo estimado según el modelo
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // USD
+}
+
+export type TokenBudgetScope = 'session' | 'daily';
+
+export interface TokenBudgetStatus {
+  exceeded: boolean;
+  scope: TokenBudgetScope | null; // Presupuesto superado (el diario tiene prioridad)
+  sessionTokens: number;
+  sessionLimit: number | null; // null = sin límite
+  dailyTokens: number;
+  dailyLimit: number | null;
+}
+
+// Totales agregados para el endpoint de estadísticas
+export interface TokenUsageTotals {
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export interface DailyTokenUsage extends TokenUsageTotals {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface ModelTokenUsage extends TokenUsageTotals {
+  model: string;
+}
+
+export interface ConversationTokenUsage extends Omit<TokenUsageTotals, 'messages'> {
+  sessionId: string;
+  riskLevel: string;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+// Callbacks para respuestas emitidas progresivamente (SSE)
+export interface ChatStreamHandlers {
+  onDelta: (text: string) => void;
+  onEmergency?: (response: ChatResponse) => void;
+}
+
+// Eventos enviados por /api/chat/stream
+export type ChatStreamEventType = 'start' | 'delta' | 'emergency' | 'done' | 'error';
+
+// Síntoma del catálogo reconocido en el texto libre del usuario
+export interface ExtractedSymptom {
+  symptomId: number | null; // null si el término no existe en la tabla Symptom
+  name: string; // Nombre canónico (Symptom.name)
+  matchedText: string; // Fragmento original del mensaje
+  span: { start: number; end: number };
+  confidence: number; // 0-1, menor con errores de escritura
+  source: 'catalog' | 'lexicon';
+  negated: boolean; // "no tengo diarrea"
+  hypothetical: boolean; // "¿y si me da diarrea?"
+}
+
+export interface SymptomExtractionResult {
+  symptoms: ExtractedSymptom[]; // Afirmados por el usuario
+  excluded: ExtractedSymptom[]; // Negados o hipotéticos
+}
+
+// Evidencia para el ranking diferencial (nombres canónicos de Symptom)
+export interface DifferentialInput {
+  present: string[];
+  absent?: string[]; // Negados explícitamente por el usuario
+  age?: number;
+}
+
+export interface DifferentialDiagnosis {
+  diseaseId: number;
+  name: string;
+  probability: number; // Probabilidad relativa entre los candidatos (suma 1)
+  logScore: number;
+  matchedSymptoms: string[];
+  missingSymptoms: string[]; // Síntomas frecuentes de la enfermedad no reportados
+  severityLevel: string;
+}
+
+// Entrevista de triaje guiada
+export type ChatMode = 'free' | 'guided';
+
+export type TriageStep =
+  | 'onset'
+  | 'location'
+  | 'character'
+  | 'severity'
+  | 'duration'
+  | 'associated'
+  | 'redFlags';
+
+export interface TriageIntake {
+  onset?: string;
+  location?: string;
+  character?: string;
+  severity?: number; // Escala 1-10
+  duration?: string; // Valores aceptados por MedicalDataValidator.validateSymptomDuration
+  associatedSymptoms?: string[]; // Nombres canónicos de Symptom
+  redFlags?: string[];
+}
+
+export interface TriageState {
+  status: 'in_progress' | 'paused' | 'completed' | 'cancelled';
+  currentStep: TriageStep | null; // null cuando la entrevista terminó
+  answers: TriageIntake;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface TriageQuestion {
+  step: TriageStep;
+  question: string;
+  inputType: 'single' | 'multiple' | 'scale';
+  options: { value: string; label: string }[];
+  allowFreeText: boolean;
+  progress: { current: number; total: number };
+}
+
+// Motor de reglas de emergencia
+// critical = emergencia inmediata (911), urgent = atención el mismo día, warning = vigilancia
+export type EmergencySeverityTier = 'critical' | 'urgent' | 'warning';
+
+export interface EmergencyRule {
+  id: string;
+  tier: EmergencySeverityTier;
+  type: 'phrase' | 'regex'; // regex sobre texto en minúsculas y sin acentos
+  pattern: string;
+  category?: string;
+  description?: string;
+  enabled?: boolean;
+}
+
+export interface EmergencyRuleSet {
+  version: number;
+  updatedAt?: string;
+  rules: EmergencyRule[];
+}
+
+// Ajustes de triaje por población (edad y embarazo)
+export type AgeCategory = 'infant' | 'pediatric' | 'adult' | 'geriatric';
+
+export type PopulationGroup = AgeCategory | 'pregnancy';
+
+export interface PopulationProfile {
+  age?: number;
+  ageCategory: AgeCategory | null; // null = edad desconocida
+  pregnant: boolean;
+  sources: {
+    age?: 'user_context' | 'message';
+    pregnancy?: 'user_context' | 'message';
+  };
+}
+
+export type PopulationAdjustmentType = 'urgency_raised' | 'red_flag';
+
+export interface PopulationAdjustment {
+  ruleId: string;
+  type: PopulationAdjustmentType;
+  population: PopulationGroup;
+  reason: string; // Explicación en el idioma de la conversación
+  urgency: ResponseUrgency; // Urgencia mínima que impone el ajuste
+}
+
+export interface PopulationSummary {
+  profile: PopulationProfile;
+  adjustments: PopulationAdjustment[];
+}
+
+// Filtro de seguridad de tratamientos según el perfil del paciente
+export type PregnancyCategory = 'safe' | 'caution' | 'avoid' | 'contraindicated';
+
+export interface PatientSafetyProfile {
+  age?: number;
+  ageCategory?: AgeCategory; // Si solo se conoce el grupo de edad ("mi bebé")
+  pregnant?: boolean;
+  allergies?: string[];
+  medicalHistory?: string[];
+  medications?: string[];
+}
+
+// Parámetros ya validados de GET /diseases/:id/treatments (listas separadas por comas)
+export interface DiseaseTreatmentsQuery {
+  id: number;
+  age?: number;
+  pregnant?: boolean;
+  allergies?: string[];
+  medicalHistory?: string[];
+  medications?: string[];
+  language?: 'es' | 'en';
+}
+
+export type TreatmentSafetyStatus = 'safe' | 'caution' | 'excluded';
+
+export type TreatmentSafetyReasonCode = 'allergy' | 'age' | 'pregnancy' | 'condition' | 'medication';
+
+export interface TreatmentSafetyReason {
+  code: TreatmentSafetyReasonCode;
+  ruleId: string;
+  status: Exclude<TreatmentSafetyStatus, 'safe'>;
+  message: string; // En el idioma de la consulta
+}
+
+export interface TreatmentSafetyAssessment {
+  treatmentId: number;
+  treatmentName: string;
+  status: TreatmentSafetyStatus;
+  reasons: TreatmentSafetyReason[];
+}
+
+// Trayectoria del riesgo a lo largo de la conversación
+export type ConversationRiskLevel = 'low' | 'medium' | 'high' | 'emergency';
+
+export type RiskEscalationType = 'low_to_high' | 'to_emergency';
+
+export interface RiskSnapshot {
+  id: number;
+  conversationId: string;
+  messageId: string;
+  riskLevel: ConversationRiskLevel;
+  previousRiskLevel: ConversationRiskLevel | null;
+  dispositionLevel: DispositionLevel | null;
+  escalation: RiskEscalationType | null;
+  symptoms: string[];
+  ruleIds: string[];
+  createdAt: Date;
+}
+
+// Señales de alarma e indicadores de gravedad de los síntomas del catálogo
+export type RedFlagCheckKind = 'red_flag' | 'severity_indicator';
+
+export type RedFlagCheckStatus = 'present' | 'absent' | 'unknown';
+
+export interface RedFlagCheck {
+  id: string;
+  kind: RedFlagCheckKind;
+  label: string;
+  symptoms: string[]; // Síntomas del catálogo que la incluyen
+  status: RedFlagCheckStatus;
+  confirmedBy?: 'message' | 'answer'; // Mencionada por el paciente o respuesta sí/no
+  level: DispositionLevel; // Disposición mínima si está presente
+  asked: boolean; // Ya se preguntó al paciente
+}
+
+export interface RedFlagChecklist {
+  checks: RedFlagCheck[];
+  pendingCheckId: string | null; // Pregunta sí/no hecha en esta respuesta
+  question: string | null;
+}
+
+// Disposición del triaje: dónde y en cuánto tiempo buscar atención
+export type DispositionLevel = 'self_care' | 'primary_care_72h' | 'same_day' | 'urgent_care' | 'emergency';
+
+export type DispositionFactor =
+  | 'emergency_rule'
+  | 'red_flag'
+  | 'model_urgency'
+  | 'pain'
+  | 'duration'
+  | 'age_group'
+  | 'pregnancy'
+  | 'comorbidity'
+  | 'population';
+
+export interface DispositionReason {
+  factor: DispositionFactor;
+  level: DispositionLevel; // Nivel mínimo que impone el factor
+  message: string; // En el idioma de la conversación
+}
+
+export interface Disposition {
+  level: DispositionLevel;
+  careSetting: string; // Dónde atenderse, en el idioma de la conversación
+  timeframe: string; // En cuánto tiempo
+  rationale: DispositionReason[]; // De mayor a menor nivel
+  assessedAt: string; // ISO 8601
+}
+
+// Interacciones entre medicamentos y contraindicaciones de tratamientos
+export type DrugInteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+// interaction: regla de la base local; duplication: mismo grupo terapéutico;
+// contraindication: Treatment.contraindications menciona un medicamento que toma el paciente
+export type DrugInteractionKind = 'interaction' | 'duplication' | 'contraindication';
+
+export interface RecognizedMedication {
+  input: string; // Texto tal como lo indicó el paciente
+  ingredients: string[]; // Principios activos reconocidos
+}
+
+export interface DrugInteraction {
+  ruleId: string;
+  kind: DrugInteractionKind;
+  severity: DrugInteractionSeverity;
+  between: [string, string]; // Principios activos (o tratamiento) involucrados
+  description: string; // En el idioma de la consulta
+  recommendation: string;
+}
+
+export interface DrugInteractionCheck {
+  medications: RecognizedMedication[];
+  unrecognized: string[];
+  treatment?: { id?: number; name: string; ingredients: string[] }; // Tratamiento candidato
+  interactions: DrugInteraction[]; // Ordenadas de mayor a menor gravedad
+  highestSeverity: DrugInteractionSeverity | null;
+}
+
+// Registro versionado de prompts (SystemConfig) con asignación A/B por sesión
+export interface PromptTemplate {
+  id: string;
+  version: number; // Aumenta cada vez que cambia el texto o las variables
+  description?: string;
+  systemPrompt: string; // Admite variables {{nombre}}
+  instructions: string; // Bloque INSTRUCCIONES del prompt de cada turno
+  variables: Record<string, string>;
+  active: boolean;
+  weight: number; // Peso relativo entre las plantillas activas
+  updatedAt?: string;
+}
+
+// Versión reemplazada, conservada para rastrear respuestas antiguas por su hash
+export interface PromptTemplateRevision {
+  id: string;
+  version: number;
+  hash: string;
+  systemPrompt: string;
+  instructions: string;
+  variables: Record<string, string>;
+  retiredAt: string;
+}
+
+export interface PromptRegistry {
+  version: number;
+  updatedAt?: string;
+  templates: PromptTemplate[];
+  history: PromptTemplateRevision[];
+}
+
+// Prompt con el que se generó una respuesta
+export interface PromptReference {
+  templateId: string;
+  templateVersion: number;
+  registryVersion: number;
+  hash: string; // sha256 (16 hex) del prompt de sistema e instrucciones ya renderizados
+}
+
+export interface RenderedPrompt extends PromptReference {
+  systemPrompt: string;
+  instructions: string;
+}
+
+export interface EmergencyRuleMatch {
+  ruleId: string;
+  tier: EmergencySeverityTier;
+  category?: string;
+  matchedText: string;
+  clause: string;
+  negated: boolean;
+}
+
+export interface EmergencyEvaluation {
+  isEmergency: boolean; // Hay al menos una coincidencia critical no negada
+  highestTier: EmergencySeverityTier | null;
+  matches: EmergencyRuleMatch[];
+  negatedMatches: EmergencyRuleMatch[];
+  rulesVersion: number;
+  rulesSource: 'config' | 'default';
+}
+
+// Conciliación de las reglas de emergencia con la urgencia que indicó el modelo
+export type EmergencySignalSource = 'keywords' | 'model' | 'both' | 'none';
+
+export type EmergencySignalAgreement =
+  | 'agree'
+  | 'keywords_only'
+  | 'model_only' // Posible hueco de las reglas: va a la cola de revisión
+  | 'model_not_consulted';
+
+export interface EmergencySignal {
+  emergencyDetected: boolean;
+  source: EmergencySignalSource;
+  agreement: EmergencySignalAgreement;
+  ruleIds: string[]; // Reglas critical que dispararon
+  modelUrgency: ResponseUrgency | null; // null si no se consultó al modelo
+  reviewRequired: boolean;
+}
+
+// Emergencias marcadas solo por el modelo, pendientes de revisión
+export type EmergencyReviewStatus = 'pending' | 'keyword_gap' | 'dismissed';
+
+export interface EmergencyReview {
+  id: number;
+  sessionId: string;
+  messageId: string;
+  status: EmergencyReviewStatus;
+  messageExcerpt: string | null;
+  modelRedFlags: string[];
+  symptoms: string[];
+  ruleIds: string[]; // Reglas de menor nivel que sí dispararon
+  model: string | null;
+  note: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
 export interface EmergencyResponse {
   emergency: true;
   severity: 'critical' | 'urgent';
@@ -196,7 +686,7 @@ export interface EmergencyResponse {
   timestamp: Date;
 }
 
-// Tipos para análisis médico
+// Tipos para análisis médico (determinista, sin LLM)
 export interface MedicalAnalysis {
   confidence: number;
   riskLevel: 'low' | 'medium' | 'high' | 'emergency';
@@ -204,10 +694,28 @@ export interface MedicalAnalysis {
     disease: Disease;
     probability: number;
     matchingSymptoms: string[];
+    missingSymptoms: string[];
   }[];
   recommendedActions: string[];
   urgencyLevel: 'routine' | 'urgent' | 'immediate';
+  urgencyReasons: string[]; // Señales que determinaron el nivel, p. ej. "severity:8"
   followUpRequired: boolean;
+  emergencyDetected: boolean;
+  recognizedSymptoms: string[]; // Nombres canónicos del catálogo
+  negatedSymptoms: string[];
+  unrecognizedSymptoms: string[]; // Entradas que no coinciden con ningún síntoma conocido
+  emergencyContacts: AnalysisEmergencyContact[];
+  disposition: Disposition; // Dónde y cuándo atenderse
+  population?: PopulationSummary; // Solo si se indicó la edad o el embarazo
+}
+
+// Contacto sugerido en el análisis (mismo formato que EmergencyContact del frontend)
+export interface AnalysisEmergencyContact {
+  id: string;
+  type: 'HOSPITAL' | 'CLINIC' | 'AMBULANCE' | 'POISON_CONTROL' | 'TELEHEALTH';
+  name: string;
+  phone: string;
+  availability?: string;
 }
 
 export interface SymptomAnalysis {
@@ -241,10 +749,48 @@ export interface SystemConfig {
 export interface AIPromptContext {
   userMessage: string;
   conversationHistory: ChatMessage[];
+  conversationSummary?: ConversationSummary;
   extractedSymptoms: string[];
+  catalogMatches: CatalogMatch[]; // Registros del catálogo inyectados como contexto
+  differential: DifferentialDiagnosis[]; // Ranking de enfermedades por síntomas
+  triageIntake?: TriageIntake;
   userAge?: number;
+  population?: PopulationSummary; // Ajustes por edad o embarazo
+  drugInteractions?: DrugInteraction[]; // Combinaciones mencionadas por el paciente
+  treatmentSafety?: TreatmentSafetyAssessment[]; // Tratamientos omitidos o con precaución por el perfil
+  redFlagChecklist?: RedFlagChecklist; // Señales de alarma de los síntomas del catálogo
   language: 'es' | 'en';
-  emergencyKeywords: string[];
+  emergencyKeywords: string[]; // Señales de alarma (urgent/warning) detectadas por el motor de reglas
+  promptInjection?: PromptInjectionAssessment; // Solo si el mensaje se marcó o desactivó
+  prompt: RenderedPrompt; // Variante del registro asignada a la sesión
+}
+
+// Referencias al catálogo clínico (Disease, Symptom, Treatment, EmergencyInfo)
+export type CatalogRecordType = 'disease' | 'symptom' | 'treatment' | 'emergency';
+
+export interface CatalogCitation {
+  ref: string; // Formato "tipo:id", p. ej. "disease:12"
+  type: CatalogRecordType;
+  id: number;
+  name: string;
+}
+
+export interface CatalogMatch extends CatalogCitation {
+  score: number;
+  summary: string; // Texto del registro que se envía al modelo
+}
+
+export type ResponseUrgency = 'low' | 'medium' | 'high' | 'emergency';
+
+// Sobre JSON que el modelo debe devolver (validado con zod)
+export interface AIResponseEnvelope {
+  message: string;
+  possibleCauses: string[];
+  recommendedActions: string[];
+  urgency: ResponseUrgency;
+  followUpQuestions: string[];
+  redFlagsMentioned: string[];
+  citations: string[]; // Refs del catálogo en las que se basó la respuesta
 }
 
 export interface AIResponse {
@@ -253,6 +799,16 @@ export interface AIResponse {
   emergencyDetected: boolean;
   symptomsIdentified: string[];
   recommendedActions: string[];
+  possibleCauses: string[];
+  urgency: ResponseUrgency;
+  followUpQuestions: string[];
+  redFlagsMentioned: string[];
+  citations: CatalogCitation[];
+  structured: boolean; // false si el sobre no pudo validarse ni repararse
+  repairAttempts: number;
+  invalidCitations: number; // Referencias citadas que no estaban en el contexto
+  finishReason: LLMFinishReason;
+  safetyInterventions: string[]; // Correcciones aplicadas por la validación de seguridad
   model: string;
   usage: {
     promptTokens: number;
@@ -261,6 +817,100 @@ export interface AIResponse {
   };
 }
 
+// Política de seguridad posterior a la generación
+export type SafetyRuleType =
+  | 'definitive_diagnosis'
+  | 'prescription_dosing'
+  | 'red_flag_minimization'
+  | 'missing_escalation';
+
+export interface SafetyContext {
+  language: 'es' | 'en';
+  redFlags: string[]; // Señales de alarma del mensaje y las reportadas por el modelo
+  urgency: ResponseUrgency;
+  diseaseNames: string[]; // Enfermedades del catálogo y del diferencial
+}
+
+export interface SafetyViolation {
+  ruleId: string;
+  type: SafetyRuleType;
+  description: string;
+  matchedText: string; // Vacío en reglas que exigen contenido ausente
+}
+
+export interface SafetyEvaluation {
+  safe: boolean;
+  violations: SafetyViolation[];
+}
+
+// Defensa contra inyección de instrucciones en los mensajes del paciente
+export type PromptInjectionCategory =
+  | 'instruction_override'
+  | 'role_manipulation'
+  | 'prompt_extraction'
+  | 'delimiter_spoofing'
+  | 'policy_bypass';
+
+export type PromptInjectionVerdict = 'clean' | 'suspicious' | 'attack';
+
+// none: sin cambios; flagged: se envía con aviso; defused: se eliminan los fragmentos; refused: no se consulta al modelo
+export type PromptInjectionAction = 'none' | 'flagged' | 'defused' | 'refused';
+
+export interface PromptInjectionMatch {
+  ruleId: string;
+  category: PromptInjectionCategory;
+  matchedText: string;
+  weight: number;
+}
+
+export interface PromptInjectionAssessment {
+  verdict: PromptInjectionVerdict;
+  action: PromptInjectionAction;
+  score: number;
+  matches: PromptInjectionMatch[];
+  message: string; // Texto a enviar al modelo (sin los fragmentos eliminados)
+  removedSegments: string[];
+}
+
+export interface PromptInjectionSummary {
+  verdict: PromptInjectionVerdict;
+  action: PromptInjectionAction;
+  score: number;
+  ruleIds: string[];
+}
+
+// Confianza calculada a partir de señales de la respuesta
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+export interface ConfidenceSignals {
+  symptomMatches: ExtractedSymptom[];
+  catalogMatches: CatalogMatch[];
+  differential: DifferentialDiagnosis[];
+  possibleCauses: string[];
+  citations: CatalogCitation[];
+  invalidCitations: number;
+  structured: boolean;
+  repairAttempts: number;
+  safetyInterventions: string[];
+  finishReason: LLMFinishReason;
+}
+
+export interface ConfidenceFactors {
+  extractionCoverage: number; // 0-1: síntomas reconocidos y calidad de la coincidencia
+  catalogStrength: number; // 0-1: respaldo del catálogo y del ranking diferencial
+  catalogAgreement: number; // 0-1: coincidencia de la respuesta con los registros recuperados
+  outputIntegrity: number; // Multiplicador por formato inválido o reparaciones
+  safetyPenalty: number; // Multiplicador por intervenciones de seguridad
+  finishPenalty: number; // Multiplicador por motivo de término del modelo
+}
+
+export interface ConfidenceAssessment {
+  score: number;
+  level: ConfidenceLevel;
+  factors: ConfidenceFactors;
+  reasons: string[]; // Códigos de lo que redujo la confianza
+}
+
 // Enums para mayor type safety
 export enum SeverityLevel {
   MILD = 'mild',
@@ -153,6 +153,15 @@ export const medicalLogger = {
     });
   },
   
+  // Log de intervenciones de la política de seguridad
+  safetyIntervention: (message: string, context: any = {}) => {
+    logger.warn(`🛡️ INTERVENCIÓN DE SEGURIDAD: ${message}`, {
+      type: 'safety_intervention',
+      priority: 'high',
+      ...context,
+    });
+  },
+  
   // Log de errores en procesamiento médico
   processingError: (message: string, context: any = {}) => {
     logger.error(`❌ ERROR MÉDICO: ${message}`, {
@@ -207,6 +216,14 @@ export const securityLogger = {
     });
   },
   
+  promptInjection: (message: string, context: any = {}) => {
+    logger.warn(`🧨 INYECCIÓN DE INSTRUCCIONES: ${message}`, {
+      type: 'security',
+      category: 'prompt_injection',
+      ...context,
+    });
+  },
+  
   authFailure: (message: string, context: any = {}) => {
     logger.warn(`🚫 FALLO DE AUTENTICACIÓN: ${message}`, {
       type: 'security',
@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { logger } from './logger';
+import { AgeCategory, ChatMessage } from '../types/medical';
 
 /**
  * Utilidades de encriptación para datos médicos sensibles
@@ -260,13 +261,14 @@ export class MedicalDataValidator {
   /**
    * Valida edad del usuario (para recomendaciones apropiadas)
    */
-  static validateAge(age: number): { valid: boolean; category: string } {
+  static validateAge(age: number): { valid: boolean; category: AgeCategory | 'invalid' } {
     if (!Number.isInteger(age) || age < 0 || age > 120) {
       return { valid: false, category: 'invalid' };
     }
 
-    let category = 'adult';
-    if (age < 18) category = 'pediatric';
+    let category: AgeCategory = 'adult';
+    if (age < 2) category = 'infant';
+    else if (age < 18) category = 'pediatric';
     else if (age >= 65) category = 'geriatric';
 
     return { valid: true, category };
@@ -278,29 +280,55 @@ export class MedicalDataValidator {
  */
 export class MedicalTimeUtils {
   /**
-   * Convierte duración en texto a minutos
+   * Convierte duración en texto a minutos. Acepta los valores de
+   * validateSymptomDuration y expresiones como "3 días" o "hace 2 semanas";
+   * devuelve null si no se reconoce.
    */
-  static durationToMinutes(duration: string): number {
-    const lowerDuration = duration.toLowerCase();
-    
-    if (lowerDuration.includes('minuto')) return 1;
-    if (lowerDuration.includes('hora')) return 60;
-    if (lowerDuration.includes('día')) return 1440;
-    if (lowerDuration.includes('semana')) return 10080;
-    if (lowerDuration.includes('mes')) return 43200;
-    
-    return 0; // Desconocido
+  static durationToMinutes(duration: string): number | null {
+    const text = MedicalTextNormalizer.normalize(duration);
+    if (!text) return null;
+
+    if (/\b(cronico|chronic)\b/.test(text)) return 90 * 1440;
+    if (/\bmas de (1|un) mes\b|\bmore than (1|a|one) month\b/.test(text)) return 60 * 1440;
+
+    // Con rango ("2-3 días") se usa el extremo mayor
+    const amount = text.match(/\b(\d{1,3})(?: (?:a|y|to))? ?(\d{1,3})? (minutos?|minutes?|horas?|hours?|dias?|days?|semanas?|weeks?|mes|meses|months?)\b/);
+    const unit = (amount?.[3] ?? text.match(/\b(minutos?|minutes?|horas?|hours?|dias?|days?|semanas?|weeks?|mes|meses|months?)\b/)?.[1]) || '';
+    const count = amount ? parseInt(amount[2] ?? amount[1]!) : 1;
+
+    if (/^minut/.test(unit)) return amount ? count : 30;
+    if (/^(hora|hour)/.test(unit)) return (amount ? count : 6) * 60;
+    if (/^(dia|day)/.test(unit)) return count * 1440;
+    if (/^(semana|week)/.test(unit)) return count * 7 * 1440;
+    if (/^(mes|month)/.test(unit)) return count * 30 * 1440;
+
+    return null; // Desconocido
+  }
+
+  /**
+   * Busca en el mensaje del paciente cuánto tiempo llevan los síntomas
+   * ("desde hace 3 días", "llevo dos semanas", "for 2 weeks")
+   */
+  static extractDuration(text: string): string | null {
+    const words: Record<string, string> = { un: '1', una: '1', a: '1', one: '1', dos: '2', two: '2', tres: '3', three: '3' };
+    const match = MedicalTextNormalizer.normalize(text).match(
+      /\b(?:desde hace|hace|llevo|lleva|llevamos|durante|for|since|past|last) (?:(?:mas de|unos|unas|casi|about|over|almost) )?(\d{1,3}|un|una|dos|tres|a|one|two|three) (minutos?|horas?|dias?|semanas?|mes|meses|minutes?|hours?|days?|weeks?|months?)\b/
+    );
+
+    return match ? `${words[match[1]!] ?? match[1]} ${match[2]}` : null;
   }
 
   /**
-   * Determina urgencia basada en duración
+   * Clasifica la evolución de los síntomas por su duración. La duración por
+   * sí sola no indica urgencia: un síntoma de minutos no es una emergencia.
    */
-  static getUrgencyLevel(duration: string): 'immediate' | 'urgent' | 'routine' {
+  static getDurationCategory(duration: string): 'acute' | 'subacute' | 'persistent' | 'unknown' {
     const minutes = this.durationToMinutes(duration);
-    
-    if (minutes <= 60) return 'immediate'; // Menos de 1 hora
-    if (minutes <= 1440) return 'urgent'; // Menos de 1 día
-    return 'routine';
+
+    if (minutes === null) return 'unknown';
+    if (minutes <= 1440) return 'acute'; // Hasta 1 día
+    if (minutes < 14 * 1440) return 'subacute'; // Menos de 2 semanas
+    return 'persistent';
   }
 
   /**
@@ -311,6 +339,155 @@ export class MedicalTimeUtils {
   }
 }
 
+/**
+ * Utilidades para preparar el historial de conversación que se envía al modelo
+ */
+export class ConversationHistoryUtils {
+  // Aproximación conservadora para español/inglés: ~4 caracteres por token
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  // Tokens fijos por mensaje (rol y separadores)
+  private static readonly TOKENS_PER_MESSAGE = 4;
+
+  /**
+   * Estima el número de tokens de un texto
+   */
+  static estimateTokens(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN) + this.TOKENS_PER_MESSAGE;
+  }
+
+  /**
+   * Recorta el historial conservando los turnos más recientes.
+   * Primero aplica el límite de mensajes y después descarta los turnos
+   * más antiguos hasta respetar el presupuesto de tokens. Nunca corta un
+   * mensaje a la mitad y garantiza que el historial comience con el usuario.
+   */
+  static truncate(messages: ChatMessage[], maxMessages: number, maxTokens: number): ChatMessage[] {
+    const conversational = (messages || []).filter(msg =>
+      (msg.role === 'user' || msg.role === 'assistant') &&
+      typeof msg.content === 'string' &&
+      msg.content.trim().length > 0
+    );
+
+    const recent = conversational.slice(-Math.max(0, maxMessages));
+    const kept: ChatMessage[] = [];
+    let usedTokens = 0;
+
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const message = recent[i]!;
+      const tokens = this.estimateTokens(message.content);
+      if (usedTokens + tokens > maxTokens) break;
+      usedTokens += tokens;
+      kept.unshift(message);
+    }
+
+    // El modelo espera que la conversación empiece con un turno del usuario
+    while (kept.length > 0 && kept[0]!.role !== 'user') {
+      kept.shift();
+    }
+
+    return kept;
+  }
+}
+
+/**
+ * Normalización de texto para comparar términos médicos sin acentos ni puntuación
+ */
+export class MedicalTextNormalizer {
+  // Palabras frecuentes que no aportan al emparejamiento de términos
+  private static readonly STOPWORDS = new Set([
+    'para', 'como', 'pero', 'desde', 'hace', 'tengo', 'tiene', 'mucho', 'mucha',
+    'poco', 'esta', 'este', 'estoy', 'cuando', 'donde', 'sobre', 'entre', 'todo',
+    'with', 'have', 'been', 'that', 'this', 'from', 'when', 'after',
+  ]);
+
+  // Entidades que genera el escape() de express-validator ("can&#x27;t" → "can't")
+  private static readonly HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"',
+    '&#x27;': "'", '&#39;': "'", '&apos;': "'", '&#x2f;': '/', '&#x5c;': '\\', '&#96;': '`',
+  };
+
+  /**
+   * Decodifica las entidades HTML del texto ya escapado por la validación
+   */
+  static decodeEntities(text: string): string {
+    return (text || '').replace(/&(?:amp|lt|gt|quot|apos|#x27|#39|#x2f|#x5c|#96);/gi, entity =>
+      this.HTML_ENTITIES[entity.toLowerCase()] ?? ' '
+    );
+  }
+
+  /**
+   * Minúsculas, sin acentos y con la puntuación reemplazada por espacios
+   */
+  static normalize(text: string): string {
+    return this.decodeEntities(text)
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Palabras significativas (4+ caracteres, sin stopwords)
+   */
+  static tokenize(text: string): string[] {
+    return this.normalize(text)
+      .split(' ')
+      .filter(token => token.length >= 4 && !this.STOPWORDS.has(token));
+  }
+
+  /**
+   * Todas las palabras normalizadas con su posición en el texto original
+   */
+  static tokenizeWithOffsets(text: string): Array<{ token: string; start: number; end: number }> {
+    const tokens: Array<{ token: string; start: number; end: number }> = [];
+    const wordPattern = /[\p{L}\p{N}]+/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = wordPattern.exec(text || '')) !== null) {
+      const token = this.normalize(match[0]).replace(/\s+/g, '');
+      if (token) {
+        tokens.push({ token, start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Distancia de edición con transposiciones (Damerau-Levenshtein restringida)
+   */
+  static editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const distances: number[][] = Array.from({ length: rows }, (_, i) =>
+      Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < cols; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let best = Math.min(
+          distances[i - 1]![j]! + 1,
+          distances[i]![j - 1]! + 1,
+          distances[i - 1]![j - 1]! + cost
+        );
+
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          best = Math.min(best, distances[i - 2]![j - 2]! + 1);
+        }
+
+        distances[i]![j] = best;
+      }
+    }
+
+    return distances[a.length]![b.length]!;
+  }
+}
+
 /**
  * Utilidades de formateo para respuestas médicas
  */
@@ -367,5 +544,7 @@ export default {
   MedicalContentSanitizer,
   MedicalDataValidator,
   MedicalTimeUtils,
+  ConversationHistoryUtils,
+  MedicalTextNormalizer,
   MedicalResponseFormatter,
 };
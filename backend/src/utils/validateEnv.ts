@@ -11,14 +11,24 @@ const envSchema = z.object({
   PORT: z.string().transform(Number).pipe(z.number().min(1).max(65535)).default('5000'),
   API_VERSION: z.string().default('v1'),
   
-  // Google Gemini
-  GEMINI_API_KEY: z.string().min(1, 'GEMINI_API_KEY es requerida para funcionalidad de IA'),
+  // Proveedor de IA
+  LLM_PROVIDER: z.enum(['gemini', 'offline']).default('gemini'),
+  LLM_FIXTURES_PATH: z.string().optional(),
+  
+  // Google Gemini (requerida cuando LLM_PROVIDER=gemini)
+  GEMINI_API_KEY: z.string().optional(),
   GEMINI_MODEL: z.string().default('gemini-pro'),
+  LLM_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().positive()).default('20000'),
+  LLM_MAX_RETRIES: z.string().transform(Number).pipe(z.number().min(0).max(5)).default('2'),
+  LLM_RETRY_BASE_DELAY_MS: z.string().transform(Number).pipe(z.number().min(0)).default('500'),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: z.string().transform(Number).pipe(z.number().positive()).default('5'),
+  LLM_CIRCUIT_RESET_MS: z.string().transform(Number).pipe(z.number().positive()).default('30000'),
   
   // Seguridad
   JWT_SECRET: z.string().min(32, 'JWT_SECRET debe tener al menos 32 caracteres'),
   ENCRYPTION_KEY: z.string().optional(),
   SESSION_SECRET: z.string().min(32, 'SESSION_SECRET debe tener al menos 32 caracteres'),
+  ADMIN_API_KEY: z.string().min(16, 'ADMIN_API_KEY debe tener al menos 16 caracteres').optional(),
   
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).pipe(z.number().positive()).default('900000'),
@@ -34,6 +44,14 @@ const envSchema = z.object({
   // Configuración médica
   EMERGENCY_KEYWORDS: z.string().default('dolor intenso,sangrado abundante,dificultad respirar'),
   MAX_CONVERSATION_LENGTH: z.string().transform(Number).pipe(z.number().positive()).default('50'),
+  SUMMARY_KEEP_RECENT_MESSAGES: z.string().transform(Number).pipe(z.number().min(2)).default('10'),
+  MAX_HISTORY_TOKENS: z.string().transform(Number).pipe(z.number().positive()).default('3000'),
+  CATALOG_CACHE_TTL_MS: z.string().transform(Number).pipe(z.number().min(0)).default('300000'),
+  EMERGENCY_RULES_CACHE_TTL_MS: z.string().transform(Number).pipe(z.number().min(0)).default('60000'),
+  PROMPT_REGISTRY_CACHE_TTL_MS: z.string().transform(Number).pipe(z.number().min(0)).default('60000'),
+  SAFETY_MAX_REWRITES: z.string().transform(Number).pipe(z.number().min(0).max(3)).default('1'),
+  TOKEN_BUDGET_DAILY: z.string().transform(Number).pipe(z.number().min(0)).default('0'),
+  TOKEN_BUDGET_PER_SESSION: z.string().transform(Number).pipe(z.number().min(0)).default('0'),
   AI_CONFIDENCE_THRESHOLD: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('0.7'),
   
   // Notificaciones de emergencia (opcionales)
@@ -64,7 +82,7 @@ export function validateEnvironment(): Environment {
     logger.info('✅ Variables de entorno validadas correctamente');
     logger.info(`🔧 Modo: ${env.NODE_ENV}`);
     logger.info(`🚀 Puerto: ${env.PORT}`);
-    logger.info(`🧠 Modelo IA: ${env.GEMINI_MODEL}`);
+    logger.info(`🧠 Proveedor IA: ${env.LLM_PROVIDER}${env.LLM_PROVIDER === 'gemini' ? ` (${env.GEMINI_MODEL})` : ''}`);
     logger.info(`⏱️  Rate limit: ${env.RATE_LIMIT_MAX_REQUESTS} req/${env.RATE_LIMIT_WINDOW_MS}ms`);
     
     return env;
@@ -89,6 +107,11 @@ function validateMedicalSafetyRequirements(env: Environment): void {
   const warnings: string[] = [];
   const errors: string[] = [];
   
+  // Verificar credenciales del proveedor de IA
+  if (env.LLM_PROVIDER === 'gemini' && !env.GEMINI_API_KEY) {
+    errors.push('GEMINI_API_KEY es requerida cuando LLM_PROVIDER=gemini');
+  }
+  
   // Verificar configuración de producción
   if (env.NODE_ENV === 'production') {
     if (!env.EMERGENCY_EMAIL) {
@@ -103,6 +126,10 @@ function validateMedicalSafetyRequirements(env: Environment): void {
       warnings.push('JWT_SECRET debería tener al menos 64 caracteres en producción');
     }
     
+    if (env.LLM_PROVIDER === 'offline') {
+      warnings.push('LLM_PROVIDER=offline en producción - las respuestas no provienen de un modelo real');
+    }
+    
     if (!env.BACKUP_DATABASE_URL) {
       warnings.push('BACKUP_DATABASE_URL no configurado - recomendado para respaldo');
     }
@@ -112,7 +139,7 @@ function validateMedicalSafetyRequirements(env: Environment): void {
       errors.push('❌ CRÍTICO: Usando secretos por defecto en producción');
     }
     
-    if (env.GEMINI_API_KEY.includes('your_gemini_api_key')) {
+    if (env.LLM_PROVIDER === 'gemini' && env.GEMINI_API_KEY?.includes('your_gemini_api_key')) {
       errors.push('❌ CRÍTICO: API key de Gemini no configurada correctamente');
     }
   }
@@ -149,6 +176,7 @@ function validateMedicalSafetyRequirements(env: Environment): void {
   logger.info('🏥 Configuración médica cargada:');
   logger.info(`  • Palabras clave de emergencia: ${emergencyKeywords.length}`);
   logger.info(`  • Máximo mensajes por conversación: ${env.MAX_CONVERSATION_LENGTH}`);
+  logger.info(`  • Presupuesto de tokens del historial: ${env.MAX_HISTORY_TOKENS}`);
   logger.info(`  • Umbral confianza IA: ${env.AI_CONFIDENCE_THRESHOLD}`);
   logger.info(`  • Email emergencias: ${env.EMERGENCY_EMAIL ? '✓' : '✗'}`);
   logger.info(`  • Webhook emergencias: ${env.EMERGENCY_WEBHOOK_URL ? '✓' : '✗'}`);
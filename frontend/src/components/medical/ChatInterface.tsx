@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef } from 'react';
-import { Send, AlertTriangle, Phone, User, Bot } from 'lucide-react';
+import { Send, AlertTriangle, Phone, User, Bot, ClipboardList, MessageSquare, Clock, CheckCircle, XCircle, HelpCircle } from 'lucide-react';
 import { useChat } from '../../hooks';
 import { useChatStore } from '../../stores';
 import Button from '../ui/Button';
 import Card from '../ui/Card';
-import { ChatMessage } from '../../types/medical';
+import { ChatMessage, Disposition, DispositionLevel, RedFlagChecklist, TriageQuestion } from '../../types/medical';
+
+// Colores de la tarjeta de disposición, de cuidados en casa a emergencia
+const DISPOSITION_STYLES: Record<DispositionLevel, string> = {
+  self_care: 'bg-green-50 border-green-300 text-green-900',
+  primary_care_72h: 'bg-blue-50 border-blue-300 text-blue-900',
+  same_day: 'bg-yellow-50 border-yellow-300 text-yellow-900',
+  urgent_care: 'bg-orange-50 border-orange-300 text-orange-900',
+  emergency: 'bg-red-50 border-red-400 text-red-900',
+};
 
 interface ChatInterfaceProps {
   className?: string;
@@ -13,6 +22,7 @@ interface ChatInterfaceProps {
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
   const [input, setInput] = useState('');
   const [isInitialized, setIsInitialized] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -21,13 +31,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
     messages,
     isLoading,
     isTyping,
+    streamingMessageId,
     emergencyMode,
+    chatMode,
+    triageQuestion,
     error,
     startNewSession,
     sendMessage,
+    startTriage,
+    answerTriage,
+    cancelTriage,
     clearError
   } = useChat();
 
+  const isGuided = chatMode === 'guided' && !!triageQuestion;
+
   // Auto-scroll al final de los mensajes
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -37,6 +55,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
     scrollToBottom();
   }, [messages, isTyping]);
 
+  // Reiniciar la selección múltiple con cada pregunta nueva
+  useEffect(() => {
+    setSelectedOptions([]);
+  }, [triageQuestion?.step]);
+
   // Inicializar sesión si no existe
   useEffect(() => {
     if (!currentSession && !isInitialized) {
@@ -57,9 +80,45 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
     // Enfocar el input después de enviar
     setTimeout(() => inputRef.current?.focus(), 100);
 
+    // En la entrevista guiada el texto libre responde la pregunta actual;
+    // si la pregunta no lo admite, se envía como mensaje libre y la entrevista queda en pausa
+    if (isGuided && triageQuestion?.allowFreeText) {
+      await answerTriage(message, message);
+      return;
+    }
+
     await sendMessage(message);
   };
 
+  // Alternar entre chat libre y entrevista guiada
+  const handleToggleMode = async () => {
+    if (chatMode === 'guided') {
+      await cancelTriage();
+    } else {
+      await startTriage();
+    }
+  };
+
+  const toggleOption = (value: string) => {
+    setSelectedOptions((current) => {
+      if (value === 'none') return current.includes('none') ? [] : ['none'];
+      const withoutNone = current.filter(option => option !== 'none');
+      return withoutNone.includes(value)
+        ? withoutNone.filter(option => option !== value)
+        : [...withoutNone, value];
+    });
+  };
+
+  const submitSelectedOptions = async (question: TriageQuestion) => {
+    if (selectedOptions.length === 0) return;
+
+    const labels = question.options
+      .filter(option => selectedOptions.includes(option.value))
+      .map(option => option.label);
+
+    await answerTriage(selectedOptions, labels.join(', '));
+  };
+
   // Manejar teclas especiales
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -68,8 +127,47 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
     }
   };
 
+  // Dónde y cuándo atenderse, con los motivos del nivel asignado
+  const DispositionCard = ({ disposition }: { disposition: Disposition }) => (
+    <div className={`mb-2 p-2 border-l-4 rounded text-xs ${DISPOSITION_STYLES[disposition.level]}`}>
+      <div className="flex items-center gap-1 font-semibold text-sm">
+        {disposition.level === 'emergency' || disposition.level === 'urgent_care'
+          ? <AlertTriangle size={14} />
+          : <Clock size={14} />}
+        <span>{disposition.careSetting}</span>
+      </div>
+      <div className="font-medium">{disposition.timeframe}</div>
+      <ul className="mt-1 list-disc list-inside opacity-90">
+        {disposition.rationale
+          .filter(reason => reason.level === disposition.level)
+          .map((reason, index) => (
+            <li key={index}>{reason.message}</li>
+          ))}
+      </ul>
+    </div>
+  );
+
+  // Señales de alarma de los síntomas: confirmadas, descartadas y sin confirmar
+  const RedFlagChecklistCard = ({ checklist }: { checklist: RedFlagChecklist }) => (
+    <div className="mb-2 p-2 border border-gray-200 rounded bg-white text-xs text-gray-800">
+      <div className="font-semibold mb-1">Señales de alarma</div>
+      <ul className="space-y-0.5">
+        {checklist.checks.map(check => (
+          <li key={check.id} className="flex items-center gap-1">
+            {check.status === 'present'
+              ? <CheckCircle size={12} className="text-red-600" />
+              : check.status === 'absent'
+                ? <XCircle size={12} className="text-green-600" />
+                : <HelpCircle size={12} className="text-gray-400" />}
+            <span className={check.status === 'present' ? 'font-medium text-red-700' : ''}>{check.label}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
   // Renderizar mensaje individual
-  const MessageBubble = ({ message }: { message: ChatMessage }) => {
+  const MessageBubble = ({ message, isStreaming = false }: { message: ChatMessage; isStreaming?: boolean }) => {
     const isUser = message.isFromUser;
     const isEmergency = message.messageType === 'EMERGENCY';
 
@@ -105,9 +203,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
                 <span className="text-xs font-semibold">EMERGENCIA MÉDICA</span>
               </div>
             )}
+
+            {!isUser && message.metadata?.disposition && (
+              <DispositionCard disposition={message.metadata.disposition} />
+            )}
+
+            {!isUser && message.metadata?.redFlagChecklist && (
+              <RedFlagChecklistCard checklist={message.metadata.redFlagChecklist} />
+            )}
             
             <p className="text-sm whitespace-pre-wrap">
               {message.content}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+              )}
             </p>
             
             {message.metadata?.recommendedAction && (
@@ -132,6 +241,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
               </div>
             )}
             
+            {message.metadata?.relatedDiseases && message.metadata.relatedDiseases.length > 0 && (
+              <div className="mt-2 text-xs opacity-75">
+                <span className="font-medium">Basado en nuestro catálogo clínico:</span>{' '}
+                {message.metadata.relatedDiseases.join(', ')}
+              </div>
+            )}
+            
+            {message.metadata?.disclaimer && (
+              <div className="mt-2 text-xs italic opacity-75">
+                {message.metadata.disclaimer}
+              </div>
+            )}
+            
             <div className="text-xs opacity-50 mt-1">
               {new Date(message.timestamp).toLocaleTimeString()}
             </div>
@@ -141,6 +263,59 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
     );
   };
 
+  // Opciones de la pregunta actual de la entrevista guiada
+  const TriageOptions = ({ question }: { question: TriageQuestion }) => (
+    <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-blue-900">
+          Entrevista guiada • Paso {question.progress.current} de {question.progress.total}
+        </span>
+        {question.allowFreeText && (
+          <span className="text-xs text-blue-700">También puede escribir su respuesta</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {question.options.map((option) => {
+          const isSelected = selectedOptions.includes(option.value);
+
+          return (
+            <button
+              key={option.value}
+              type="button"
+              disabled={isLoading}
+              onClick={() => question.inputType === 'multiple'
+                ? toggleOption(option.value)
+                : answerTriage(option.value, option.label)
+              }
+              className={`
+                px-3 py-1 text-sm rounded-full border transition-colors
+                ${question.inputType === 'scale' ? 'w-10' : ''}
+                ${isSelected
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-blue-300 text-blue-800 hover:bg-blue-100'
+                }
+              `}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {question.inputType === 'multiple' && (
+        <Button
+          size="sm"
+          className="mt-3"
+          disabled={selectedOptions.length === 0 || isLoading}
+          onClick={() => submitSelectedOptions(question)}
+        >
+          Continuar
+        </Button>
+      )}
+    </div>
+  );
+
   // Componente de escritura
   const TypingIndicator = () => (
     <div className="flex justify-start mb-4">
@@ -179,6 +354,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
             </p>
           </div>
           
+          {!emergencyMode && currentSession && (
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={chatMode === 'guided' ? <MessageSquare size={16} /> : <ClipboardList size={16} />}
+              onClick={handleToggleMode}
+              disabled={isLoading}
+            >
+              {chatMode === 'guided' ? 'Chat libre' : 'Entrevista guiada'}
+            </Button>
+          )}
+
           {emergencyMode && (
             <Button 
               variant="danger" 
@@ -237,7 +424,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
         )}
 
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble 
+            key={message.id} 
+            message={message} 
+            isStreaming={message.id === streamingMessageId} 
+          />
         ))}
 
         {isTyping && <TypingIndicator />}
@@ -247,6 +438,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
 
       {/* Input de mensaje */}
       <div className="p-4 border-t border-gray-200 bg-gray-50">
+        {isGuided && triageQuestion && <TriageOptions question={triageQuestion} />}
+
         <form onSubmit={handleSubmit} className="flex gap-2">
           <div className="flex-1">
             <textarea
@@ -257,7 +450,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '' }) => {
               placeholder={
                 emergencyMode 
                   ? "Describe tu emergencia médica (presiona Enter para enviar)"
-                  : "Describe tus síntomas o haz una pregunta médica..."
+                  : isGuided && triageQuestion?.allowFreeText
+                    ? "Elige una opción o escribe tu respuesta..."
+                    : "Describe tus síntomas o haz una pregunta médica..."
               }
               className={`
                 w-full px-3 py-2 border border-gray-300 rounded-lg resize-none
@@ -1,15 +1,52 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiService, handleApiError } from '../services/api';
-import { useChatStore, useNotificationStore, useUIStore } from '../stores';
+import { useChatStore, useNotificationStore, useUIStore, useUserStore } from '../stores';
 import { 
   ChatMessage, 
   ChatSession, 
   Disease, 
+  DiseaseTreatments,
   SearchFilters,
   ChatAnalysis,
-  EmergencyContact
+  ChatStreamResult,
+  ChatUserContext,
+  EmergencyContact,
+  SymptomAnalysisOptions,
+  UserProfile
 } from '../types/medical';
 
+// Datos del perfil con los que el backend filtra los tratamientos sugeridos
+const toUserContext = (profile: UserProfile | null): ChatUserContext | undefined => {
+  if (!profile) return undefined;
+
+  const context: ChatUserContext = {
+    ...(profile.age !== undefined ? { age: profile.age } : {}),
+    ...(profile.pregnant ? { pregnant: true } : {}),
+    ...(profile.allergies?.length ? { allergies: profile.allergies } : {}),
+    ...(profile.medicalHistory?.length ? { medicalHistory: profile.medicalHistory } : {}),
+    ...(profile.currentMedications?.length ? { medications: profile.currentMedications } : {}),
+  };
+  return Object.keys(context).length > 0 ? context : undefined;
+};
+
+// Campos del mensaje del asistente a partir de la ChatResponse final del backend
+const toAssistantFields = (result: ChatStreamResult): Partial<ChatMessage> => ({
+  content: result.message,
+  messageType: result.emergencyDetected ? 'EMERGENCY' : 'TEXT',
+  symptoms: result.metadata?.symptomsExtracted,
+  metadata: {
+    confidence: result.confidence,
+    emergency: result.emergencyDetected,
+    recommendedAction: result.suggestedActions?.[0],
+    relatedDiseases: result.citations
+      ?.filter(citation => citation.type === 'disease')
+      .map(citation => citation.name),
+    disclaimer: result.disclaimer,
+    disposition: result.disposition,
+    redFlagChecklist: result.redFlagChecklist
+  }
+});
+
 // Hook para manejo del chat médico
 export const useChat = () => {
   const {
@@ -17,19 +54,43 @@ export const useChat = () => {
     messages,
     isLoading,
     isTyping,
+    streamingMessageId,
     emergencyMode,
+    chatMode,
+    triageQuestion,
     setCurrentSession,
     addMessage,
+    updateMessage,
     setMessages,
     setLoading,
     setTyping,
+    setStreamingMessage,
     setEmergencyMode,
+    setTriage,
     clearChat
   } = useChatStore();
 
   const { addNotification } = useNotificationStore();
+  const { profile } = useUserStore();
   const [error, setError] = useState<string | null>(null);
 
+  // Activa el modo de emergencia y avisa al usuario
+  const activateEmergency = useCallback(() => {
+    setEmergencyMode(true);
+    addNotification({
+      type: 'emergency',
+      title: '🚨 Emergencia Detectada',
+      message: 'Se han detectado síntomas que requieren atención médica inmediata.',
+      persistent: true,
+      actions: [
+        {
+          label: 'Ver Contactos de Emergencia',
+          action: () => window.location.href = '/emergency'
+        }
+      ]
+    });
+  }, [setEmergencyMode, addNotification]);
+
   // Crear nueva sesión de chat
   const startNewSession = useCallback(async () => {
     try {
@@ -57,10 +118,42 @@ export const useChat = () => {
     }
   }, [setCurrentSession, setLoading, clearChat, addNotification]);
 
-  // Enviar mensaje
+  // Enviar mensaje (la respuesta se muestra progresivamente)
   const sendMessage = useCallback(async (content: string) => {
     if (!currentSession || !content.trim()) return;
 
+    const assistantMessageId = `assistant_${Date.now()}`;
+    let assistantMessageAdded = false;
+    let emergencyNotified = false;
+    let streamedContent = '';
+
+    // Crea la burbuja del asistente con el primer fragmento y luego la actualiza
+    const upsertAssistantMessage = (updates: Partial<ChatMessage>) => {
+      if (assistantMessageAdded) {
+        updateMessage(assistantMessageId, updates);
+        return;
+      }
+
+      assistantMessageAdded = true;
+      setTyping(false);
+      setStreamingMessage(assistantMessageId);
+      addMessage({
+        id: assistantMessageId,
+        sessionId: currentSession.id,
+        content: '',
+        isFromUser: false,
+        messageType: 'TEXT',
+        timestamp: new Date().toISOString(),
+        ...updates
+      });
+    };
+
+    const notifyEmergency = () => {
+      if (emergencyNotified) return;
+      emergencyNotified = true;
+      activateEmergency();
+    };
+
     try {
       setLoading(true);
       setTyping(true);
@@ -76,30 +169,28 @@ export const useChat = () => {
       };
       addMessage(userMessage);
 
-      // Enviar a la API
-      const response = await apiService.sendMessage(currentSession.id, content.trim());
-      
-      if (response.success) {
-        addMessage(response.data);
-        
-        // Verificar si es una emergencia
-        if (response.data.metadata?.emergency) {
-          setEmergencyMode(true);
-          addNotification({
-            type: 'emergency',
-            title: '🚨 Emergencia Detectada',
-            message: 'Se han detectado síntomas que requieren atención médica inmediata.',
-            persistent: true,
-            actions: [
-              {
-                label: 'Ver Contactos de Emergencia',
-                action: () => window.location.href = '/emergency'
-              }
-            ]
-          });
+      // Enviar a la API y renderizar cada fragmento conforme llega
+      const result = await apiService.streamMessage(currentSession.id, content.trim(), {
+        onDelta: (text) => {
+          streamedContent += text;
+          upsertAssistantMessage({ content: streamedContent });
+        },
+        onEmergency: (emergency) => {
+          upsertAssistantMessage({ content: emergency.message, messageType: 'EMERGENCY' });
+          notifyEmergency();
         }
-      } else {
-        throw new Error(response.error || 'Error al enviar mensaje');
+      }, undefined, toUserContext(profile));
+
+      // El mensaje final ya validado (con disclaimer) reemplaza el texto parcial
+      upsertAssistantMessage(toAssistantFields(result));
+
+      // Un mensaje libre deja en pausa la entrevista guiada
+      if (chatMode === 'guided') {
+        setTriage('free', null);
+      }
+
+      if (result.emergencyDetected) {
+        notifyEmergency();
       }
     } catch (err) {
       const errorMsg = handleApiError(err);
@@ -112,8 +203,112 @@ export const useChat = () => {
     } finally {
       setLoading(false);
       setTyping(false);
+      setStreamingMessage(null);
+    }
+  }, [currentSession, chatMode, profile, addMessage, updateMessage, setLoading, setTyping, setStreamingMessage, setTriage, activateEmergency, addNotification]);
+
+  // Agrega la pregunta de la entrevista guiada como mensaje del asistente
+  const addTriageQuestion = useCallback((sessionId: string, question: string) => {
+    addMessage({
+      id: `triage_${Date.now()}`,
+      sessionId,
+      content: question,
+      isFromUser: false,
+      messageType: 'TEXT',
+      timestamp: new Date().toISOString()
+    });
+  }, [addMessage]);
+
+  // Inicia (o retoma) la entrevista de triaje guiada
+  const startTriage = useCallback(async (restart = false) => {
+    if (!currentSession) return;
+
+    try {
+      setLoading(true);
+      const response = await apiService.startTriage(currentSession.id, restart);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Error al iniciar la entrevista guiada');
+      }
+
+      setTriage('guided', response.data.question);
+      if (response.data.question) {
+        addTriageQuestion(currentSession.id, response.data.question.question);
+      }
+    } catch (err) {
+      const errorMsg = handleApiError(err);
+      setError(errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentSession, setLoading, setTriage, addTriageQuestion]);
+
+  // Responde la pregunta actual; al terminar se muestra la orientación de la IA
+  const answerTriage = useCallback(async (answer: string | number | string[], displayText: string) => {
+    if (!currentSession) return;
+
+    try {
+      setLoading(true);
+      setTyping(true);
+      addMessage({
+        id: Date.now().toString(),
+        sessionId: currentSession.id,
+        content: displayText,
+        isFromUser: true,
+        messageType: 'TEXT',
+        timestamp: new Date().toISOString()
+      });
+
+      const response = await apiService.answerTriage(currentSession.id, answer);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Respuesta no válida');
+      }
+
+      const { question, response: result } = response.data;
+      setTriage(response.data.chatMode, question);
+
+      if (question) {
+        addTriageQuestion(currentSession.id, question.question);
+      }
+
+      if (result) {
+        addMessage({
+          id: result.messageId || `assistant_${Date.now()}`,
+          sessionId: currentSession.id,
+          content: '',
+          isFromUser: false,
+          messageType: 'TEXT',
+          timestamp: result.timestamp || new Date().toISOString(),
+          ...toAssistantFields(result)
+        });
+
+        if (result.emergencyDetected) {
+          activateEmergency();
+        }
+      }
+    } catch (err) {
+      const errorMsg = handleApiError(err);
+      setError(errorMsg);
+    } finally {
+      setLoading(false);
+      setTyping(false);
+    }
+  }, [currentSession, addMessage, setLoading, setTyping, setTriage, addTriageQuestion, activateEmergency]);
+
+  // Sale de la entrevista guiada y vuelve al chat libre
+  const cancelTriage = useCallback(async () => {
+    if (!currentSession) return;
+
+    try {
+      await apiService.cancelTriage(currentSession.id);
+    } catch (err) {
+      const errorMsg = handleApiError(err);
+      setError(errorMsg);
+    } finally {
+      setTriage('free', null);
     }
-  }, [currentSession, addMessage, setLoading, setTyping, setEmergencyMode, addNotification]);
+  }, [currentSession, setTriage]);
 
   // Cargar historial de chat
   const loadChatHistory = useCallback(async (sessionId: string) => {
@@ -157,10 +352,16 @@ export const useChat = () => {
     messages,
     isLoading,
     isTyping,
+    streamingMessageId,
     emergencyMode,
+    chatMode,
+    triageQuestion,
     error,
     startNewSession,
     sendMessage,
+    startTriage,
+    answerTriage,
+    cancelTriage,
     loadChatHistory,
     endSession,
     clearError: () => setError(null)
@@ -170,9 +371,11 @@ export const useChat = () => {
 // Hook para búsqueda de enfermedades
 export const useDiseaseSearch = () => {
   const [diseases, setDiseases] = useState<Disease[]>([]);
+  const [treatments, setTreatments] = useState<DiseaseTreatments | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { addNotification } = useNotificationStore();
+  const { profile } = useUserStore();
 
   // Buscar enfermedades
   const searchDiseases = useCallback(async (filters: SearchFilters) => {
@@ -226,12 +429,40 @@ export const useDiseaseSearch = () => {
     }
   }, [addNotification]);
 
+  // Tratamientos de una enfermedad filtrados con el perfil del usuario (edad, embarazo, alergias...)
+  const loadTreatments = useCallback(async (diseaseId: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await apiService.getDiseaseTreatments(diseaseId, toUserContext(profile));
+
+      if (response.success) {
+        setTreatments(response.data);
+      } else {
+        throw new Error(response.error || 'Error al obtener tratamientos');
+      }
+    } catch (err) {
+      const errorMsg = handleApiError(err);
+      setError(errorMsg);
+      addNotification({
+        type: 'error',
+        title: 'Error de Tratamientos',
+        message: errorMsg
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile, addNotification]);
+
   return {
     diseases,
+    treatments,
     isLoading,
     error,
     searchDiseases,
     searchBySymptoms,
+    loadTreatments,
     clearError: () => setError(null)
   };
 };
@@ -242,13 +473,18 @@ export const useSymptomAnalysis = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { addNotification } = useNotificationStore();
+  const { currentSession } = useChatStore();
 
-  const analyzeSymptoms = useCallback(async (symptoms: string[]) => {
+  const analyzeSymptoms = useCallback(async (symptoms: string[], options: SymptomAnalysisOptions = {}) => {
     try {
       setIsLoading(true);
       setError(null);
+
+      if (!currentSession) {
+        throw new Error('No hay sesión activa');
+      }
       
-      const response = await apiService.analyzeSymptoms(symptoms);
+      const response = await apiService.analyzeSymptoms(currentSession.id, symptoms, options);
       
       if (response.success) {
         setAnalysis(response.data);
@@ -276,7 +512,7 @@ export const useSymptomAnalysis = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [addNotification]);
+  }, [addNotification, currentSession]);
 
   return {
     analysis,
@@ -5,17 +5,30 @@ import {
   ChatSession, 
   Disease, 
   Symptom, 
-  Treatment,
   SearchFilters,
   ChatAnalysis,
+  SymptomAnalysisOptions,
+  ChatStreamHandlers,
+  ChatStreamResult,
+  ChatUserContext,
+  DiseaseTreatments,
   EmergencyContact,
-  SystemHealth
+  SystemHealth,
+  TriageTurnResult
 } from '../types/medical';
 
 // Configuración base de la API
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 const API_TIMEOUT = 30000; // 30 segundos
 
+// Error de /chat/stream con mensaje listo para mostrar al usuario
+export class ChatStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
 class ApiService {
   private api: AxiosInstance;
 
@@ -95,6 +108,149 @@ class ApiService {
     return response.data;
   }
 
+  // Envía un mensaje y recibe la respuesta por Server-Sent Events.
+  // Axios no expone el stream en el navegador, por eso se usa fetch.
+  async streamMessage(
+    sessionId: string,
+    content: string,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal,
+    userContext?: ChatUserContext
+  ): Promise<ChatStreamResult> {
+    const token = localStorage.getItem('auth_token');
+
+    const response = await fetch(`${API_BASE_URL}/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'X-Session-ID': sessionId,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ message: content, sessionId, ...(userContext ? { userContext } : {}) }),
+      signal,
+    });
+
+    // Validaciones y emergencias detectadas por el middleware llegan como JSON
+    if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+      return this.handleNonStreamResponse(response, sessionId, handlers);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: ChatStreamResult | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      for (const frame of frames) {
+        const event = this.parseStreamFrame(frame);
+        if (!event) continue;
+
+        switch (event.type) {
+          case 'delta':
+            handlers.onDelta(event.data.text);
+            break;
+          case 'emergency':
+            handlers.onEmergency?.(event.data);
+            break;
+          case 'done':
+            result = event.data;
+            break;
+          case 'error':
+            throw new ChatStreamError(event.data.userMessage || 'Error al procesar la consulta');
+        }
+      }
+    }
+
+    if (!result) {
+      throw new ChatStreamError('La respuesta se interrumpió antes de completarse. Intenta nuevamente.');
+    }
+
+    return result;
+  }
+
+  private parseStreamFrame(frame: string): { type: string; data: any } | null {
+    let type = 'message';
+    const dataLines: string[] = [];
+
+    frame.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    });
+
+    if (dataLines.length === 0) return null;
+
+    try {
+      return { type, data: JSON.parse(dataLines.join('\n')) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async handleNonStreamResponse(
+    response: Response,
+    sessionId: string,
+    handlers: ChatStreamHandlers
+  ): Promise<ChatStreamResult> {
+    const data = await response.json().catch(() => null);
+
+    if (data?.type === 'emergency' || data?.emergency) {
+      const emergency = {
+        message: data.data?.message || data.message,
+        suggestedActions: data.data?.immediateActions,
+        disclaimer: data.emergency?.action,
+      };
+      handlers.onEmergency?.(emergency);
+
+      return {
+        message: emergency.message,
+        sessionId,
+        messageId: `emergency_${Date.now()}`,
+        confidence: 1,
+        emergencyDetected: true,
+        suggestedActions: emergency.suggestedActions,
+        disclaimer: emergency.disclaimer || '',
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    throw new ChatStreamError(
+      data?.error?.userMessage || data?.userMessage || data?.message || 'Error al enviar mensaje'
+    );
+  }
+
+  // Entrevista de triaje guiada
+  async startTriage(sessionId: string, restart = false): Promise<ApiResponse<TriageTurnResult>> {
+    const response = await this.api.post('/chat/triage/start', { sessionId, restart }, {
+      headers: { 'X-Session-ID': sessionId }
+    });
+    return response.data;
+  }
+
+  async answerTriage(sessionId: string, answer: string | number | string[]): Promise<ApiResponse<TriageTurnResult>> {
+    const response = await this.api.post('/chat/triage/answer', { sessionId, answer }, {
+      headers: { 'X-Session-ID': sessionId }
+    });
+    return response.data;
+  }
+
+  async cancelTriage(sessionId: string): Promise<ApiResponse<TriageTurnResult>> {
+    const response = await this.api.post('/chat/triage/cancel', { sessionId }, {
+      headers: { 'X-Session-ID': sessionId }
+    });
+    return response.data;
+  }
+
   async createChatSession(): Promise<ApiResponse<ChatSession>> {
     const response = await this.api.post('/chat/session', {
       startTime: new Date().toISOString()
@@ -122,10 +278,17 @@ class ApiService {
     return response.data;
   }
 
-  async analyzeSymptoms(symptoms: string[]): Promise<ApiResponse<ChatAnalysis>> {
+  async analyzeSymptoms(
+    sessionId: string,
+    symptoms: string[],
+    options: SymptomAnalysisOptions = {}
+  ): Promise<ApiResponse<ChatAnalysis>> {
     const response = await this.api.post('/chat/analyze-symptoms', {
       symptoms,
+      ...options,
       timestamp: new Date().toISOString()
+    }, {
+      headers: { 'X-Session-ID': sessionId }
     });
     return response.data;
   }
@@ -161,8 +324,17 @@ class ApiService {
     return response.data;
   }
 
-  async getDiseaseTreatments(diseaseId: string): Promise<ApiResponse<Treatment[]>> {
-    const response = await this.api.get(`/diseases/${diseaseId}/treatments`);
+  // Con perfil, los tratamientos no aptos llegan aparte en "excluded" con su explicación
+  async getDiseaseTreatments(diseaseId: string, profile?: ChatUserContext): Promise<ApiResponse<DiseaseTreatments>> {
+    const response = await this.api.get(`/diseases/${diseaseId}/treatments`, {
+      params: {
+        ...(profile?.age !== undefined ? { age: profile.age } : {}),
+        ...(profile?.pregnant ? { pregnant: true } : {}),
+        ...(profile?.allergies?.length ? { allergies: profile.allergies.join(',') } : {}),
+        ...(profile?.medicalHistory?.length ? { medicalHistory: profile.medicalHistory.join(',') } : {}),
+        ...(profile?.medications?.length ? { medications: profile.medications.join(',') } : {}),
+      }
+    });
     return response.data;
   }
 
@@ -214,8 +386,10 @@ export const apiService = new ApiService();
 
 // Hooks personalizados para manejo de errores específicos
 export const handleApiError = (error: any): string => {
-  if (error.response?.data?.error) {
-    return error.response.data.error;
+  if (error instanceof ChatStreamError) {
+    return error.message;
+  } else if (error.response?.data?.error) {
+    return error.response.data.error.userMessage || error.response.data.error;
   } else if (error.code === 'ECONNREFUSED') {
     return 'No se puede conectar al servidor médico. Verifica tu conexión.';
   } else if (error.code === 'ECONNABORTED') {
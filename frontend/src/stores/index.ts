@@ -6,7 +6,9 @@ import {
   Disease, 
   EmergencyContact,
   UserProfile,
-  SystemHealth 
+  SystemHealth,
+  ChatMode,
+  TriageQuestion
 } from '../types/medical';
 import { NotificationMessage, AppSettings } from '../types/ui';
 
@@ -16,7 +18,10 @@ interface ChatStore {
   messages: ChatMessage[];
   isLoading: boolean;
   isTyping: boolean;
+  streamingMessageId: string | null;
   emergencyMode: boolean;
+  chatMode: ChatMode;
+  triageQuestion: TriageQuestion | null;
   
   // Actions
   setCurrentSession: (session: ChatSession | null) => void;
@@ -25,7 +30,9 @@ interface ChatStore {
   setMessages: (messages: ChatMessage[]) => void;
   setLoading: (loading: boolean) => void;
   setTyping: (typing: boolean) => void;
+  setStreamingMessage: (messageId: string | null) => void;
   setEmergencyMode: (emergency: boolean) => void;
+  setTriage: (chatMode: ChatMode, question: TriageQuestion | null) => void;
   clearChat: () => void;
 }
 
@@ -36,7 +43,10 @@ export const useChatStore = create<ChatStore>()(
       messages: [],
       isLoading: false,
       isTyping: false,
+      streamingMessageId: null,
       emergencyMode: false,
+      chatMode: 'free',
+      triageQuestion: null,
 
       setCurrentSession: (session) => set({ currentSession: session }),
       
@@ -53,13 +63,18 @@ export const useChatStore = create<ChatStore>()(
       setMessages: (messages) => set({ messages }),
       setLoading: (isLoading) => set({ isLoading }),
       setTyping: (isTyping) => set({ isTyping }),
+      setStreamingMessage: (streamingMessageId) => set({ streamingMessageId }),
       setEmergencyMode: (emergencyMode) => set({ emergencyMode }),
+      setTriage: (chatMode, triageQuestion) => set({ chatMode, triageQuestion }),
       
       clearChat: () => set({
         currentSession: null,
         messages: [],
         emergencyMode: false,
-        isTyping: false
+        chatMode: 'free',
+        triageQuestion: null,
+        isTyping: false,
+        streamingMessageId: null
       })
     }),
     { name: 'chat-store' }
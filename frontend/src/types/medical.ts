@@ -59,9 +59,45 @@ export interface ChatMessage {
     emergency?: boolean;
     recommendedAction?: string;
     relatedDiseases?: string[];
+    disclaimer?: string;
+    disposition?: Disposition;
+    redFlagChecklist?: RedFlagChecklist;
   };
 }
 
+// Disposición del triaje: dónde y en cuánto tiempo buscar atención
+export type DispositionLevel = 'self_care' | 'primary_care_72h' | 'same_day' | 'urgent_care' | 'emergency';
+
+export interface Disposition {
+  level: DispositionLevel;
+  careSetting: string;
+  timeframe: string;
+  rationale: Array<{
+    factor: string;
+    level: DispositionLevel;
+    message: string;
+  }>;
+  assessedAt: string;
+}
+
+// Señales de alarma de los síntomas del catálogo mencionados en la conversación
+export interface RedFlagCheck {
+  id: string;
+  kind: 'red_flag' | 'severity_indicator';
+  label: string;
+  symptoms: string[];
+  status: 'present' | 'absent' | 'unknown';
+  confirmedBy?: 'message' | 'answer';
+  level: DispositionLevel;
+  asked: boolean;
+}
+
+export interface RedFlagChecklist {
+  checks: RedFlagCheck[];
+  pendingCheckId: string | null;
+  question: string | null;
+}
+
 export interface ChatSession {
   id: string;
   userId?: string;
@@ -116,6 +152,113 @@ export interface ApiResponse<T> {
   };
 }
 
+// Frame final de /chat/stream (ChatResponse del backend ya validada)
+export interface ChatStreamResult {
+  message: string;
+  sessionId: string;
+  messageId: string;
+  confidence: number;
+  emergencyDetected: boolean;
+  suggestedActions?: string[];
+  possibleCauses?: string[];
+  followUpQuestions?: string[];
+  redFlagsMentioned?: string[];
+  urgency?: 'low' | 'medium' | 'high' | 'emergency';
+  disposition?: Disposition;
+  redFlagChecklist?: RedFlagChecklist;
+  citations?: Array<{
+    ref: string;
+    type: 'disease' | 'symptom' | 'treatment' | 'emergency';
+    id: number;
+    name: string;
+  }>;
+  disclaimer: string;
+  timestamp: string;
+  processingTime?: number;
+  metadata?: {
+    model: string;
+    processingTime: number;
+    symptomsExtracted: string[];
+    structuredOutput?: boolean;
+    repairAttempts?: number;
+    treatmentSafety?: TreatmentSafetyAssessment[];
+  };
+}
+
+// Datos del perfil que se envían con cada consulta para filtrar tratamientos
+export interface ChatUserContext {
+  age?: number;
+  pregnant?: boolean;
+  allergies?: string[];
+  medicalHistory?: string[];
+  medications?: string[];
+}
+
+export interface TreatmentSafetyReason {
+  code: 'allergy' | 'age' | 'pregnancy' | 'condition' | 'medication';
+  ruleId: string;
+  status: 'caution' | 'excluded';
+  message: string;
+}
+
+export interface TreatmentSafetyAssessment {
+  treatmentId: number;
+  treatmentName: string;
+  status: 'safe' | 'caution' | 'excluded';
+  reasons: TreatmentSafetyReason[];
+}
+
+// Respuesta de /diseases/:id/treatments
+export interface DiseaseTreatments {
+  disease: { id: number; name: string };
+  profileApplied: boolean;
+  treatments: Array<Treatment & { safety: Pick<TreatmentSafetyAssessment, 'status' | 'reasons'> }>;
+  excluded: TreatmentSafetyAssessment[];
+  disclaimer: string;
+}
+
+export interface ChatStreamEmergency {
+  message: string;
+  suggestedActions?: string[];
+  disclaimer?: string;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (text: string) => void;
+  onEmergency?: (emergency: ChatStreamEmergency) => void;
+}
+
+// Entrevista de triaje guiada (/chat/triage/*)
+export type ChatMode = 'free' | 'guided';
+
+export type TriageStep = 'onset' | 'location' | 'character' | 'severity' | 'duration' | 'associated' | 'redFlags';
+
+export interface TriageQuestion {
+  step: TriageStep;
+  question: string;
+  inputType: 'single' | 'multiple' | 'scale';
+  options: Array<{ value: string; label: string }>;
+  allowFreeText: boolean;
+  progress: { current: number; total: number };
+}
+
+export interface TriageState {
+  status: 'in_progress' | 'paused' | 'completed' | 'cancelled';
+  currentStep: TriageStep | null;
+  answers: Record<string, unknown>;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface TriageTurnResult {
+  sessionId: string;
+  chatMode: ChatMode;
+  triage: TriageState;
+  question: TriageQuestion | null;
+  resumed?: boolean;
+  response?: ChatStreamResult; // Presente al completar la entrevista
+}
+
 export interface ChatAnalysis {
   symptoms: string[];
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -127,12 +270,32 @@ export interface ChatAnalysis {
     matchingSymptoms: string[];
   }>;
   emergencyContacts?: EmergencyContact[];
+  // Detalle del análisis determinista (POST /chat/analyze-symptoms)
+  riskLevel?: 'low' | 'medium' | 'high' | 'emergency';
+  urgencyLevel?: 'routine' | 'urgent' | 'immediate';
+  urgencyReasons?: string[];
+  recommendedActions?: string[];
+  recognizedSymptoms?: string[];
+  negatedSymptoms?: string[];
+  unrecognizedSymptoms?: string[];
+  followUpRequired?: boolean;
+  confidence?: number;
+  disclaimer?: string;
+}
+
+// Datos opcionales que afinan el análisis de síntomas
+export interface SymptomAnalysisOptions {
+  duration?: string;
+  severity?: number;
+  age?: number;
+  language?: 'es' | 'en';
 }
 
 export interface UserProfile {
   id?: string;
   name?: string;
   age?: number;
+  pregnant?: boolean;
   medicalHistory?: string[];
   allergies?: string[];
   currentMedications?: string[];